@@ -0,0 +1,47 @@
+/**
+ * Haptic cue check (`npm run check:haptics`, also part of `npm run lint`).
+ * Every pattern must be distinct from the others, and hazards must grow longer with
+ * severity. Then each sequence in fixtures/haptics/sequences.json is played through
+ * a HapticPlayer on a SimulatedHapticDriver and a fake clock; the vibrations that
+ * come out must match "expect". Entries are [ms, cue].
+ */
+import { readFileSync } from "node:fs";
+import { HAPTIC_PATTERNS, HapticPlayer, SimulatedHapticDriver, patternDuration, type HapticCue } from "../src/services/haptics";
+
+interface Sequence {
+  name: string;
+  cues: [number, HapticCue][];
+  expect: [number, HapticCue][];
+}
+
+const failures: string[] = [];
+
+const cues = Object.keys(HAPTIC_PATTERNS) as HapticCue[];
+for (const [i, cue] of cues.entries()) {
+  const twin = cues.slice(i + 1).find(other => HAPTIC_PATTERNS[other].join() === HAPTIC_PATTERNS[cue].join());
+  if (twin) failures.push(`patterns: ${cue} and ${twin} feel the same`);
+}
+const [low, medium, high] = (["hazard_low", "hazard_medium", "hazard_high"] as const).map(cue => patternDuration(HAPTIC_PATTERNS[cue]));
+if (!(low < medium && medium < high)) failures.push(`patterns: hazards must get longer with severity (${low}, ${medium}, ${high} ms)`);
+
+const sequences: Sequence[] = JSON.parse(readFileSync(new URL("../fixtures/haptics/sequences.json", import.meta.url), "utf8"));
+const cueFor = (pattern: number[]) => cues.find(cue => HAPTIC_PATTERNS[cue].join() === pattern.join()) ?? `[${pattern}]`;
+
+for (const sequence of sequences) {
+  let clock = 0;
+  const driver = new SimulatedHapticDriver(() => clock);
+  const player = new HapticPlayer(driver, () => clock);
+  for (const [at, cue] of sequence.cues) {
+    clock = at;
+    player.play(cue);
+  }
+  const actual = driver.played.map(({ at, pattern }) => `${at}:${cueFor(pattern)}`).join(" ");
+  const expected = sequence.expect.map(([at, cue]) => `${at}:${cue}`).join(" ");
+  if (actual !== expected) failures.push(`"${sequence.name}": expected ${expected}, got ${actual}`);
+}
+
+if (failures.length > 0) {
+  console.error(`Haptics check failed (${failures.length}):\n  ${failures.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Haptics check passed: ${cues.length} patterns, ${sequences.length} sequences.`);
@@ -0,0 +1,92 @@
+/**
+ * On-device hazard check (`npm run check:hazards`, also part of `npm run lint`).
+ * Each frame in fixtures/hazards/frames.json is drawn from its rectangles and run
+ * through the HeuristicHazardDetector; the hazards found must match "expect".
+ * Then each sequence in fixtures/hazards/sequences.json replays canned detections
+ * through a FixtureHazardDetector and the app's repeat filter, and the warnings
+ * that would be spoken must match "expect". Hazards are written "stairs",
+ * "drop_off" or "obstacle@<bearing>"; sequence entries are [ms, ...].
+ */
+import { readFileSync } from "node:fs";
+import {
+  FixtureHazardDetector,
+  HeuristicHazardDetector,
+  LOCAL_CUE_REPEAT_MS,
+  localHazardKey,
+  type FrameData,
+  type LocalHazard,
+  type LocalHazardType
+} from "../src/services/hazardDetector";
+import { HazardDeduper } from "../src/services/walkMode";
+
+type Rgb = [number, number, number];
+
+interface FrameFixture {
+  name: string;
+  width: number;
+  height: number;
+  background: Rgb;
+  rects: [number, number, number, number, Rgb][];
+  expect: string[];
+}
+
+interface Sequence {
+  name: string;
+  frames: [number, string[]][];
+  expect: [number, string][];
+}
+
+function drawFrame(fixture: FrameFixture): FrameData {
+  const { width, height } = fixture;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const fill = (x0: number, y0: number, w: number, h: number, [r, g, b]: Rgb) => {
+    for (let y = Math.max(0, y0); y < Math.min(height, y0 + h); y++) {
+      for (let x = Math.max(0, x0); x < Math.min(width, x0 + w); x++) data.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  };
+  fill(0, 0, width, height, fixture.background);
+  for (const [x, y, w, h, color] of fixture.rects) fill(x, y, w, h, color);
+  return { width, height, data };
+}
+
+function label(hazard: LocalHazard): string {
+  return hazard.type === "obstacle" ? `obstacle@${hazard.bearing}` : hazard.type;
+}
+
+function parseLabel(text: string): LocalHazard {
+  const [type, bearing] = text.split("@");
+  return { type: type as LocalHazardType, confidence: 0.9, bearing: bearing ? Number(bearing) : undefined };
+}
+
+const failures: string[] = [];
+const read = (file: string) => JSON.parse(readFileSync(new URL(`../fixtures/hazards/${file}`, import.meta.url), "utf8"));
+
+const { frames }: { frames: FrameFixture[] } = read("frames.json");
+const detector = new HeuristicHazardDetector();
+for (const fixture of frames) {
+  const found = (await detector.detect(drawFrame(fixture))).map(label).join(", ");
+  const expected = fixture.expect.join(", ");
+  if (found !== expected) failures.push(`frame "${fixture.name}": expected [${expected}], got [${found}]`);
+}
+
+// The replayed detections ignore the pixels
+const BLANK_FRAME: FrameData = { width: 8, height: 8, data: new Uint8ClampedArray(8 * 8 * 4) };
+const sequences: Sequence[] = read("sequences.json");
+for (const sequence of sequences) {
+  const replay = new FixtureHazardDetector(sequence.frames.map(([, hazards]) => hazards.map(parseLabel)));
+  const deduper = new HazardDeduper(LOCAL_CUE_REPEAT_MS);
+  const spoken: string[] = [];
+  for (const [at] of sequence.frames) {
+    // As in the app: only the most confident hazard of a frame is cued
+    const [top] = await replay.detect(BLANK_FRAME);
+    if (top && deduper.shouldAnnounce(localHazardKey(top), at)) spoken.push(`${at}:${label(top)}`);
+  }
+  const expected = sequence.expect.map(([at, hazard]) => `${at}:${hazard}`).join(" ");
+  if (spoken.join(" ") !== expected) failures.push(`"${sequence.name}": expected ${expected}, got ${spoken.join(" ")}`);
+}
+
+if (failures.length > 0) {
+  console.error(`Hazard check failed (${failures.length}):\n  ${failures.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Hazard check passed: ${frames.length} frames, ${sequences.length} sequences.`);
@@ -0,0 +1,41 @@
+/**
+ * Intent corpus check (`npm run check:intents`, also part of `npm run lint`).
+ * Parses every utterance in fixtures/intents/corpus.json and compares the
+ * fields listed under "expect" with the recognised intent. Entries with a
+ * "wake" field instead check what is left after the wake phrase (null: none heard).
+ */
+import { readFileSync } from "node:fs";
+import { Locale } from "../src/services/i18n";
+import { matchWakePhrase, parseIntent } from "../src/services/intents";
+
+interface CorpusEntry {
+  locale: Locale;
+  utterance: string;
+  expect?: Record<string, unknown>;
+  wake?: string | null;
+}
+
+const corpus: CorpusEntry[] = JSON.parse(readFileSync(new URL("../fixtures/intents/corpus.json", import.meta.url), "utf8"));
+const failures: string[] = [];
+
+for (const entry of corpus) {
+  if (entry.wake !== undefined) {
+    const rest = matchWakePhrase(entry.utterance, entry.locale);
+    if (rest !== entry.wake) {
+      failures.push(`${entry.locale} "${entry.utterance}": expected wake ${JSON.stringify(entry.wake)}, got ${JSON.stringify(rest)}`);
+    }
+    continue;
+  }
+  const { intent, confidence } = parseIntent(entry.utterance, entry.locale);
+  const actual = intent as unknown as Record<string, unknown>;
+  const mismatched = Object.entries(entry.expect ?? {}).filter(([field, value]) => actual[field] !== value);
+  if (mismatched.length > 0) {
+    failures.push(`${entry.locale} "${entry.utterance}": expected ${JSON.stringify(entry.expect)}, got ${JSON.stringify(intent)} (${confidence.toFixed(2)})`);
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`Intent check failed (${failures.length} of ${corpus.length}):\n  ${failures.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Intent check passed: ${corpus.length} utterances.`);
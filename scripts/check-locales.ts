@@ -0,0 +1,59 @@
+/**
+ * Locale catalog check (`npm run check:i18n`, also part of `npm run lint`).
+ * Compares every locale against English: same keys, same placeholders, and
+ * plural messages that use only the locale's own plural categories.
+ */
+import { CATALOGS, DEFAULT_LOCALE, LANGUAGES, Message, MessageKey } from "../src/services/i18n";
+
+function placeholders(message: Message): string[] {
+  const forms = typeof message === "string" ? [message] : Object.values(message);
+  const names = new Set(forms.flatMap(form => [...form.matchAll(/\{(\w+)\}/g)].map(m => m[1])));
+  return [...names].sort();
+}
+
+const source = CATALOGS[DEFAULT_LOCALE];
+const problems: string[] = [];
+
+for (const { locale } of LANGUAGES) {
+  const catalog = CATALOGS[locale];
+  if (!catalog) {
+    problems.push(`${locale}: no catalog`);
+    continue;
+  }
+  const categories = new Intl.PluralRules(locale).resolvedOptions().pluralCategories;
+
+  for (const key of Object.keys(source) as MessageKey[]) {
+    const expected = source[key];
+    const actual = catalog[key];
+    if (actual === undefined) {
+      problems.push(`${locale}: missing "${key}"`);
+      continue;
+    }
+    if ((typeof expected === "string") !== (typeof actual === "string")) {
+      problems.push(`${locale}: "${key}" must be ${typeof expected === "string" ? "a string" : "a plural message"}`);
+      continue;
+    }
+    if (typeof actual !== "string") {
+      if (!actual.other) problems.push(`${locale}: "${key}" has no "other" form`);
+      for (const category of Object.keys(actual)) {
+        if (!categories.includes(category as Intl.LDMLPluralRule)) {
+          problems.push(`${locale}: "${key}" has form "${category}", which ${locale} does not use`);
+        }
+      }
+    }
+    const missing = placeholders(expected).filter(name => !placeholders(actual).includes(name));
+    if (missing.length > 0) {
+      problems.push(`${locale}: "${key}" is missing {${missing.join("}, {")}}`);
+    }
+  }
+
+  for (const key of Object.keys(catalog)) {
+    if (!(key in source)) problems.push(`${locale}: unknown key "${key}"`);
+  }
+}
+
+if (problems.length > 0) {
+  console.error(`Locale check failed:\n  ${problems.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Locale check passed: ${LANGUAGES.length} languages, ${Object.keys(source).length} keys.`);
@@ -0,0 +1,142 @@
+/**
+ * Community review check (`npm run check:moderation`, also part of `npm run lint`).
+ * Plays each scenario in fixtures/moderation/scenarios.json against ModerationService
+ * on a fresh in-memory SQLite registry. A step reviews a node (and compares the
+ * status, score and confirmations that review settles on, or the reason it was
+ * refused), runs markStale that many days from now, or reads a reviewer's reputation;
+ * any step can also list the ids fetchGoldenPath should return afterwards. Reviewers
+ * are accounts 30 days old unless the scenario's "accountAgeDays" says otherwise.
+ * The rules are the shipped defaults, whatever MODERATION_CONFIRMATIONS is set to.
+ */
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { MODERATION_RULES, ModerationService, ReviewError } from "../server/moderation";
+import { SqliteSpatialRegistry } from "../server/sqliteRegistry";
+import { DiskSnapshotStore } from "../server/snapshotStore";
+import type { NodeStatus } from "../src/services/registry";
+import type { ReviewVerdict } from "../src/services/moderation";
+
+interface ScenarioNode {
+  id: string;
+  kind?: "hazard";
+  status?: NodeStatus;
+  createdBy?: string;
+}
+
+type Step = (
+  | {
+      review: string;
+      by: string;
+      verdict: ReviewVerdict;
+      refused?: ReviewError["reason"];
+      expect?: { status?: NodeStatus; score?: number; confirmations?: number; isGoldenPath?: boolean };
+    }
+  | { markStaleAfterDays: number; changed: number; statuses: Record<string, NodeStatus> }
+  | { reputation: string; weight: number }
+) & { goldenPath?: string[] };
+
+interface Scenario {
+  name: string;
+  accountAgeDays?: Record<string, number>;
+  nodes: ScenarioNode[];
+  steps: Step[];
+}
+
+const BUILDING_ID = "check";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ACCOUNT_AGE_DAYS = 30;
+
+// Reviews are ordered by timestamp, so consecutive ones must not share a millisecond
+const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+async function play(scenario: Scenario, snapshotDirectory: string): Promise<string[]> {
+  const store = new SqliteSpatialRegistry(":memory:");
+  // POST /api/me creates accounts with generated ids; the scenarios name theirs and set their age
+  store.getUser = async id => ({
+    id,
+    createdAt: new Date(Date.now() - (scenario.accountAgeDays?.[id] ?? DEFAULT_ACCOUNT_AGE_DAYS) * DAY_MS).toISOString()
+  });
+  await store.saveBuilding({ id: BUILDING_ID, name: "Check", floors: [{ level: 0, name: "Ground" }] });
+  const moderation = new ModerationService(store, new DiskSnapshotStore(snapshotDirectory), { ...MODERATION_RULES, confirmations: 3 });
+
+  for (const node of scenario.nodes) {
+    const isHazard = node.kind === "hazard";
+    await store.saveNewPath({
+      buildingId: BUILDING_ID,
+      coordinates: { x: 0, y: 0 },
+      floor: 0,
+      description: node.id,
+      isGoldenPath: node.status === "verified" && !isHazard,
+      kind: isHazard ? "hazard" : "landmark",
+      severity: isHazard ? "medium" : null,
+      category: isHazard ? "obstacle" : null,
+      createdAt: new Date().toISOString(),
+      expiresAt: null,
+      status: node.status ?? "pending",
+      createdBy: node.createdBy ?? null
+    }, node.id);
+  }
+
+  const failures: string[] = [];
+  for (const [index, step] of scenario.steps.entries()) {
+    const at = `step ${index + 1}`;
+    await tick();
+
+    if ("review" in step) {
+      try {
+        const { node, score, confirmations } = await moderation.review(BUILDING_ID, step.review, step.by, step.verdict, null);
+        if (step.refused) {
+          failures.push(`${at}: ${step.by}'s review of ${step.review} was accepted, expected ${step.refused}`);
+          continue;
+        }
+        const actual = { status: node.status, score, confirmations, isGoldenPath: node.isGoldenPath };
+        for (const [field, expected] of Object.entries(step.expect ?? {})) {
+          const value = actual[field as keyof typeof actual];
+          if (value !== expected) failures.push(`${at}: after ${step.by} ${step.verdict}s ${step.review}, ${field} is ${value}, expected ${expected}`);
+        }
+      } catch (error) {
+        if (!(error instanceof ReviewError)) throw error;
+        if (error.reason !== step.refused) failures.push(`${at}: ${step.by}'s review of ${step.review} was refused (${error.reason})`);
+      }
+    } else if ("markStaleAfterDays" in step) {
+      const changed = await moderation.markStale(new Date(Date.now() + step.markStaleAfterDays * DAY_MS));
+      if (changed !== step.changed) failures.push(`${at}: markStale after ${step.markStaleAfterDays} days changed ${changed} nodes, expected ${step.changed}`);
+      for (const [id, expected] of Object.entries(step.statuses)) {
+        const status = (await store.getNode(BUILDING_ID, id))?.status;
+        if (status !== expected) failures.push(`${at}: after markStale ${id} is ${status}, expected ${expected}`);
+      }
+    } else {
+      const weight = await moderation.reputation(step.reputation);
+      if (weight !== step.weight) failures.push(`${at}: ${step.reputation}'s reputation is ${weight}, expected ${step.weight}`);
+    }
+
+    if (step.goldenPath) {
+      const ids = (await store.fetchGoldenPath(BUILDING_ID)).map(node => node.id).sort();
+      if (ids.join() !== [...step.goldenPath].sort().join()) {
+        failures.push(`${at}: golden path is [${ids.join(", ")}], expected [${step.goldenPath.join(", ")}]`);
+      }
+    }
+  }
+  return failures;
+}
+
+const scenarios: Scenario[] = JSON.parse(readFileSync(new URL("../fixtures/moderation/scenarios.json", import.meta.url), "utf8"));
+const snapshotDirectory = mkdtempSync(path.join(tmpdir(), "check-moderation-"));
+const failures: string[] = [];
+let stepCount = 0;
+
+try {
+  for (const scenario of scenarios) {
+    stepCount += scenario.steps.length;
+    for (const failure of await play(scenario, snapshotDirectory)) failures.push(`"${scenario.name}" ${failure}`);
+  }
+} finally {
+  rmSync(snapshotDirectory, { recursive: true, force: true });
+}
+
+if (failures.length > 0) {
+  console.error(`Moderation check failed (${failures.length} problems):\n  ${failures.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Moderation check passed: ${scenarios.length} scenarios, ${stepCount} steps.`);
@@ -0,0 +1,39 @@
+/**
+ * Dead reckoning check (`npm run check:motion`, also part of `npm run lint`).
+ * Replays every sensor trace in fixtures/motion through a fresh DeadReckoner
+ * and compares the step count and final position with the trace's "expect".
+ * Traces use the format MotionTracker.stopRecording() returns.
+ */
+import { readdirSync, readFileSync } from "node:fs";
+import { replayTrace, type SensorTrace } from "../src/services/deadReckoning";
+
+interface TraceFixture extends SensorTrace {
+  expect: { steps: number; x: number; y: number; floor: number; toleranceMeters: number };
+}
+
+const directory = new URL("../fixtures/motion/", import.meta.url);
+const files = readdirSync(directory).filter(file => file.endsWith(".json")).sort();
+const failures: string[] = [];
+
+for (const file of files) {
+  const trace: TraceFixture = JSON.parse(readFileSync(new URL(file, directory), "utf8"));
+  const estimate = replayTrace(trace);
+  const { expect } = trace;
+  if (!estimate) {
+    failures.push(`${file}: no position estimate (the trace needs a fix)`);
+    continue;
+  }
+  const error = Math.hypot(estimate.x - expect.x, estimate.y - expect.y);
+  if (estimate.steps !== expect.steps || estimate.floor !== expect.floor || error > expect.toleranceMeters) {
+    failures.push(
+      `${file}: expected ${expect.steps} steps ending at (${expect.x}, ${expect.y}) on floor ${expect.floor}, ` +
+      `got ${estimate.steps} steps ending at (${estimate.x.toFixed(2)}, ${estimate.y.toFixed(2)}) on floor ${estimate.floor}, ${error.toFixed(2)} m off`
+    );
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`Motion check failed (${failures.length} of ${files.length}):\n  ${failures.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Motion check passed: ${files.length} traces.`);
@@ -0,0 +1,123 @@
+/**
+ * Place recognition check (`npm run check:places`, also part of `npm run lint`).
+ * Stores the pins and snapshots in fixtures/places/building.json in an in-memory
+ * SQLite registry and a temporary snapshot directory, then localizes every query
+ * with PlaceRecognizer and the local hashing embedder. "ranked" lists the ids that
+ * must come first in that order, "top" ids that must come first in any order, and
+ * "excludes" ids that must not be returned at all; "confidence" is always compared.
+ */
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { PlaceRecognizer } from "../server/placeRecognition";
+import { SqliteSpatialRegistry } from "../server/sqliteRegistry";
+import { DiskSnapshotStore } from "../server/snapshotStore";
+import { HashingEmbedder } from "../server/embeddings";
+import type { NodeStatus } from "../src/services/registry";
+import type { LocalizeResponse, PlaceDescriptor } from "../src/services/placeRecognition";
+
+interface FixtureNode {
+  id: string;
+  kind?: "hazard";
+  status?: NodeStatus;
+  /** Relative to now; negative for a pin that has already expired. */
+  expiresInHours?: number;
+  snapshot?: { descriptor: number[] | null; signs: string[]; description: string };
+}
+
+interface FixtureQuery {
+  name: string;
+  descriptor: number[];
+  signs: string[];
+  description?: string;
+  confidence: LocalizeResponse["confidence"];
+  ranked?: string[];
+  top?: string[];
+  excludes?: string[];
+}
+
+interface PlacesFixture {
+  nodes: FixtureNode[];
+  queries: FixtureQuery[];
+}
+
+const BUILDING_ID = "check";
+const HOUR_MS = 60 * 60 * 1000;
+
+// computePlaceDescriptor returns unit vectors; the fixture's are written by hand
+function unit(vector: number[]): PlaceDescriptor {
+  const norm = Math.hypot(...vector);
+  return vector.map(v => v / norm);
+}
+
+function problems(query: FixtureQuery, response: LocalizeResponse): string[] {
+  const found: string[] = [];
+  const ids = response.results.map(result => result.node.id);
+  if (response.confidence !== query.confidence) found.push(`confidence ${response.confidence} instead of ${query.confidence}`);
+  if (query.ranked && ids.slice(0, query.ranked.length).join() !== query.ranked.join()) {
+    found.push(`ranked ${ids.join(", ") || "nothing"} instead of ${query.ranked.join(", ")} first`);
+  }
+  if (query.top && [...ids.slice(0, query.top.length)].sort().join() !== [...query.top].sort().join()) {
+    found.push(`ranked ${ids.join(", ") || "nothing"} instead of ${query.top.join(", ")} first`);
+  }
+  for (const id of query.excludes ?? []) {
+    if (ids.includes(id)) found.push(`returned ${id}`);
+  }
+  return found;
+}
+
+const fixture: PlacesFixture = JSON.parse(readFileSync(new URL("../fixtures/places/building.json", import.meta.url), "utf8"));
+const snapshotDirectory = mkdtempSync(path.join(tmpdir(), "check-places-"));
+const failures: string[] = [];
+
+try {
+  const store = new SqliteSpatialRegistry(":memory:");
+  const snapshots = new DiskSnapshotStore(snapshotDirectory);
+  for (const node of fixture.nodes) {
+    const isHazard = node.kind === "hazard";
+    await store.saveNewPath({
+      buildingId: BUILDING_ID,
+      coordinates: { x: 0, y: 0 },
+      floor: 0,
+      description: node.id.replace(/_/g, " "),
+      isGoldenPath: false,
+      kind: isHazard ? "hazard" : "landmark",
+      severity: isHazard ? "medium" : null,
+      category: isHazard ? "obstacle" : null,
+      createdAt: new Date().toISOString(),
+      expiresAt: node.expiresInHours === undefined ? null : new Date(Date.now() + node.expiresInHours * HOUR_MS).toISOString(),
+      status: node.status ?? "verified",
+      createdBy: null
+    }, node.id);
+    if (!node.snapshot) continue;
+    const { descriptor, signs, description } = node.snapshot;
+    await snapshots.put({
+      buildingId: BUILDING_ID,
+      nodeId: node.id,
+      language: "en",
+      analysis: { description, hazard: null, navigation: null, direction: null, objects: [], signs: [], hazards: [] },
+      signText: signs,
+      descriptor: descriptor && unit(descriptor),
+      capturedAt: new Date().toISOString()
+    }, Buffer.alloc(0));
+  }
+
+  const recognizer = new PlaceRecognizer(store, snapshots, new HashingEmbedder());
+  for (const query of fixture.queries) {
+    const response = await recognizer.localize(BUILDING_ID, {
+      descriptor: unit(query.descriptor),
+      signText: query.signs,
+      description: query.description ?? null
+    });
+    const found = problems(query, response);
+    if (found.length > 0) failures.push(`"${query.name}": ${found.join("; ")}`);
+  }
+} finally {
+  rmSync(snapshotDirectory, { recursive: true, force: true });
+}
+
+if (failures.length > 0) {
+  console.error(`Place recognition check failed (${failures.length} of ${fixture.queries.length} queries):\n  ${failures.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Place recognition check passed: ${fixture.queries.length} queries over ${fixture.nodes.length} pins.`);
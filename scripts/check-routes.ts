@@ -0,0 +1,139 @@
+/**
+ * Route planning check (`npm run check:routes`, also part of `npm run lint`).
+ * Each file in fixtures/routes is a small building graph with route cases. Every case
+ * plans the route through planRoute twice, with the edges in listed and in reverse
+ * order, and compares the path, total distance and, when given, the turns and
+ * transitions with the case's "expect" (null when no route should exist). Ties list
+ * the acceptable paths under "oneOf". A case's "overrides" turn nodes into hazards or
+ * change their review status; "expiresInHours" is relative to now (negative for expired).
+ */
+import { readdirSync, readFileSync } from "node:fs";
+import { planRoute } from "../server/routePlanner";
+import type { NodeStatus, SpatialNode } from "../src/services/registry";
+import type { RoutePlan, SpatialEdge } from "../src/services/navigation";
+
+interface NodeOverride {
+  kind?: "hazard";
+  expiresInHours?: number;
+  status?: NodeStatus;
+}
+
+interface GraphNode extends NodeOverride {
+  id: string;
+  x: number;
+  y: number;
+  floor?: number;
+}
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  distance: number;
+  oneWay?: boolean;
+  stairs?: boolean;
+  elevator?: boolean;
+  ramp?: boolean;
+}
+
+interface RouteCase {
+  name: string;
+  from: string;
+  to: string;
+  avoidStairs?: boolean;
+  overrides?: Record<string, NodeOverride>;
+  expect: { path?: string[]; oneOf?: string[][]; distance: number; turns?: string[]; via?: string[] } | null;
+}
+
+interface GraphFixture {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  cases: RouteCase[];
+}
+
+const BUILDING_ID = "check";
+const HOUR_MS = 60 * 60 * 1000;
+
+function toNode(node: GraphNode, override: NodeOverride = {}): SpatialNode {
+  const { kind, expiresInHours, status } = { ...node, ...override };
+  const isHazard = kind === "hazard";
+  return {
+    id: node.id,
+    buildingId: BUILDING_ID,
+    coordinates: { x: node.x, y: node.y },
+    floor: node.floor ?? 0,
+    description: node.id.replace(/_/g, " "),
+    isGoldenPath: false,
+    kind: isHazard ? "hazard" : "landmark",
+    severity: isHazard ? "high" : null,
+    category: isHazard ? "obstacle" : null,
+    createdAt: new Date().toISOString(),
+    expiresAt: expiresInHours === undefined ? null : new Date(Date.now() + expiresInHours * HOUR_MS).toISOString(),
+    status: status ?? "verified",
+    createdBy: null
+  };
+}
+
+function toEdge(edge: GraphEdge, index: number): SpatialEdge {
+  return {
+    id: `edge_${index}`,
+    buildingId: BUILDING_ID,
+    fromNodeId: edge.from,
+    toNodeId: edge.to,
+    distanceMeters: edge.distance,
+    bidirectional: !edge.oneWay,
+    hasStairs: !!edge.stairs,
+    hasRamp: !!edge.ramp,
+    hasElevator: !!edge.elevator,
+    wheelchairAccessible: !edge.stairs,
+    tactilePaving: false
+  };
+}
+
+function describePlan(plan: RoutePlan | null): string {
+  if (!plan) return "no route";
+  const path = [plan.fromNodeId, ...plan.steps.map(step => step.toNodeId)];
+  return `${path.join(" > ")} (${plan.totalDistanceMeters} m; ${plan.steps.map(s => `${s.turn}/${s.via}`).join(", ")})`;
+}
+
+function mismatch(plan: RoutePlan | null, expect: RouteCase["expect"]): boolean {
+  if (!plan || !expect) return !plan !== !expect;
+  const path = [plan.fromNodeId, ...plan.steps.map(step => step.toNodeId)].join(">");
+  const paths = expect.oneOf ?? [expect.path ?? []];
+  return (
+    !paths.some(candidate => candidate.join(">") === path) ||
+    Math.abs(plan.totalDistanceMeters - expect.distance) > 1e-6 ||
+    (expect.turns !== undefined && plan.steps.map(s => s.turn).join() !== expect.turns.join()) ||
+    (expect.via !== undefined && plan.steps.map(s => s.via).join() !== expect.via.join())
+  );
+}
+
+const directory = new URL("../fixtures/routes/", import.meta.url);
+const files = readdirSync(directory).filter(file => file.endsWith(".json")).sort();
+const failures: string[] = [];
+let caseCount = 0;
+
+for (const file of files) {
+  const graph: GraphFixture = JSON.parse(readFileSync(new URL(file, directory), "utf8"));
+  const edges = graph.edges.map(toEdge);
+
+  for (const routeCase of graph.cases) {
+    caseCount++;
+    const nodes = graph.nodes.map(node => toNode(node, routeCase.overrides?.[node.id]));
+    const options = { avoidStairs: routeCase.avoidStairs };
+    for (const [order, ordered] of [["listed", edges], ["reversed", [...edges].reverse()]] as const) {
+      const plan = planRoute(nodes, ordered, routeCase.from, routeCase.to, options);
+      if (mismatch(plan, routeCase.expect)) {
+        const expected = routeCase.expect
+          ? `${(routeCase.expect.oneOf ?? [routeCase.expect.path ?? []]).map(p => p.join(" > ")).join(" or ")} (${routeCase.expect.distance} m)`
+          : "no route";
+        failures.push(`${file} "${routeCase.name}" (edges ${order}): expected ${expected}, got ${describePlan(plan)}`);
+      }
+    }
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`Route check failed (${failures.length} of ${caseCount * 2} plans):\n  ${failures.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Route check passed: ${caseCount} cases in ${files.length} graphs.`);
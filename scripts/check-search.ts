@@ -0,0 +1,98 @@
+/**
+ * Registry search check (`npm run check:search`, also part of `npm run lint`).
+ * Searches every query in fixtures/search/building.json with NodeSearchService and the
+ * local hashing embedder, once with the nodes in listed and once in reverse order.
+ * "top" lists the ids that must rank first (in any order), "tie" the ids that must share
+ * the best score and keep the order they were passed in, and "excludes" ids that must
+ * not be returned at all. "target" and "confidence" are compared when given.
+ */
+import { readFileSync } from "node:fs";
+import { NodeSearchService } from "../server/search";
+import { HashingEmbedder } from "../server/embeddings";
+import type { NodeStatus, SearchResponse, SpatialNode } from "../src/services/registry";
+
+interface FixtureNode {
+  id: string;
+  description: string;
+  status?: NodeStatus;
+  /** Relative to now; negative for a node that has already expired. */
+  expiresInHours?: number;
+}
+
+interface FixtureQuery {
+  query: string;
+  target?: string;
+  confidence?: SearchResponse["confidence"];
+  top?: string[];
+  tie?: string[];
+  excludes?: string[];
+}
+
+interface SearchFixture {
+  nodes: FixtureNode[];
+  queries: FixtureQuery[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toNode(node: FixtureNode): SpatialNode {
+  return {
+    id: node.id,
+    buildingId: "check",
+    coordinates: { x: 0, y: 0 },
+    floor: 0,
+    description: node.description,
+    isGoldenPath: false,
+    kind: "landmark",
+    severity: null,
+    category: null,
+    createdAt: new Date().toISOString(),
+    expiresAt: node.expiresInHours === undefined ? null : new Date(Date.now() + node.expiresInHours * HOUR_MS).toISOString(),
+    status: node.status ?? "verified",
+    createdBy: null
+  };
+}
+
+function problems(expect: FixtureQuery, response: SearchResponse, order: string[]): string[] {
+  const found: string[] = [];
+  const ids = response.results.map(r => r.node.id);
+  if (expect.target !== undefined && response.target !== expect.target) {
+    found.push(`target "${response.target}" instead of "${expect.target}"`);
+  }
+  if (expect.confidence && response.confidence !== expect.confidence) {
+    found.push(`confidence ${response.confidence} instead of ${expect.confidence}`);
+  }
+  if (expect.top && [...ids.slice(0, expect.top.length)].sort().join() !== [...expect.top].sort().join()) {
+    found.push(`ranked ${ids.slice(0, expect.top.length).join(", ")} first instead of ${expect.top.join(", ")}`);
+  }
+  if (expect.tie) {
+    const tied = response.results.slice(0, expect.tie.length);
+    const inputOrder = [...expect.tie].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+    if (tied.some(r => r.score !== tied[0].score) || tied.map(r => r.node.id).join() !== inputOrder.join()) {
+      found.push(`ranked ${tied.map(r => `${r.node.id} (${r.score})`).join(", ")} first instead of a tie of ${inputOrder.join(", ")}`);
+    }
+  }
+  for (const id of expect.excludes ?? []) {
+    if (ids.includes(id)) found.push(`returned ${id}`);
+  }
+  return found;
+}
+
+const fixture: SearchFixture = JSON.parse(readFileSync(new URL("../fixtures/search/building.json", import.meta.url), "utf8"));
+const nodes = fixture.nodes.map(toNode);
+const search = new NodeSearchService(new HashingEmbedder());
+const failures: string[] = [];
+
+for (const [label, ordered] of [["listed", nodes], ["reversed", [...nodes].reverse()]] as const) {
+  const order = ordered.map(node => node.id);
+  for (const query of fixture.queries) {
+    const found = problems(query, await search.search(query.query, ordered), order);
+    if (found.length > 0) failures.push(`"${query.query}" (nodes ${label}): ${found.join("; ")}`);
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`Search check failed (${failures.length} of ${fixture.queries.length * 2} searches):\n  ${failures.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Search check passed: ${fixture.queries.length} queries over ${nodes.length} nodes.`);
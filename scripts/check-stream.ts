@@ -0,0 +1,56 @@
+/**
+ * Streamed narration check (`npm run check:stream`, also part of `npm run lint`).
+ * Feeds each model reply in fixtures/stream to a fresh SceneStreamParser three ways
+ * (in the fixture's chunks, all at once and one character at a time) and compares
+ * the narration events with the fixture's "expect". Chunking must never change what
+ * is spoken, only when.
+ */
+import { readdirSync, readFileSync } from "node:fs";
+import { SceneStreamParser } from "../src/services/sceneStream";
+import type { NarrationEvent } from "../src/services/sceneAnalysis";
+
+interface StreamFixture {
+  chunks: string[];
+  expect: NarrationEvent[];
+}
+
+// Key order is not part of the contract, so compare with keys sorted
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+function narrate(chunks: string[]): NarrationEvent[] {
+  const events: NarrationEvent[] = [];
+  const parser = new SceneStreamParser(event => events.push(event));
+  for (const chunk of chunks) parser.push(chunk);
+  return events;
+}
+
+const directory = new URL("../fixtures/stream/", import.meta.url);
+const files = readdirSync(directory).filter(file => file.endsWith(".json")).sort();
+const failures: string[] = [];
+
+for (const file of files) {
+  const fixture: StreamFixture = JSON.parse(readFileSync(new URL(file, directory), "utf8"));
+  const reply = fixture.chunks.join("");
+  const expected = canonical(fixture.expect);
+  const feeds: [string, string[]][] = [
+    ["in chunks", fixture.chunks],
+    ["all at once", [reply]],
+    ["one character at a time", Array.from(reply)]
+  ];
+  for (const [feed, chunks] of feeds) {
+    const actual = canonical(narrate(chunks));
+    if (actual !== expected) failures.push(`${file} (${feed}): expected ${expected}, got ${actual}`);
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`Stream check failed (${failures.length} of ${files.length * 3} feeds):\n  ${failures.join("\n  ")}`);
+  process.exit(1);
+}
+console.log(`Stream check passed: ${files.length} replies.`);
@@ -2,123 +2,100 @@ import express from "express";
 import { createServer as createViteServer } from "vite";
 import cors from "cors";
 import dotenv from "dotenv";
+import type { RegistryStore } from "./server/nodeStore";
+import { createNodeRouter } from "./server/nodeRoutes";
+import { createNavigationRouter } from "./server/navigationRoutes";
+import { createBuildingRouter } from "./server/buildingRoutes";
+import { SqliteSpatialRegistry } from "./server/sqliteRegistry";
+import { SnowflakeSpatialRegistry } from "./server/snowflakeRegistry";
+import { executeSnowflakeStatement } from "./server/snowflakeClient";
+import { NodeSearchService } from "./server/search";
+import { createEmbedder } from "./server/embeddings";
+import { createVisionProvider } from "./server/visionProvider";
+import { createVisionRouter } from "./server/visionRoutes";
+import { createTtsRouter } from "./server/ttsRoutes";
+import { DiskTtsCache } from "./server/ttsCache";
+import { isElevenLabsConfigured } from "./server/elevenLabsClient";
+import { DeviceTokens, identifyUser, loadTokenSecret, requireAdmin } from "./server/accounts";
+import { createAccountRouter } from "./server/accountRoutes";
+import { PointsService } from "./server/points";
+import { ModerationService } from "./server/moderation";
+import { createModerationRouter } from "./server/moderationRoutes";
+import { DiskSnapshotStore } from "./server/snapshotStore";
+import { PlaceRecognizer } from "./server/placeRecognition";
+import { createLocalizationRouter } from "./server/localizationRoutes";
 
 dotenv.config();
 
+function createRegistryStore(): RegistryStore {
+  const backend = process.env.SPATIAL_REGISTRY_BACKEND || "sqlite";
+  if (backend === "snowflake") {
+    console.log("Spatial registry: Snowflake");
+    return new SnowflakeSpatialRegistry();
+  }
+  if (backend !== "sqlite") {
+    console.warn(`Unknown SPATIAL_REGISTRY_BACKEND "${backend}". Falling back to local SQLite registry.`);
+  }
+  const dbPath = process.env.SQLITE_DB_PATH || "data/spatial_registry.db";
+  console.log(`Spatial registry: SQLite at ${dbPath}`);
+  return new SqliteSpatialRegistry(dbPath);
+}
+
 async function startServer() {
   const app = express();
   const PORT = 3000;
 
   app.use(cors());
-  app.use(express.json());
 
-  // Snowflake SQL API Proxy
-  app.post("/api/snowflake/execute", async (req, res) => {
-    const { sql } = req.body;
-    
-    let account = process.env.SNOWFLAKE_ACCOUNT || "";
-    const token = process.env.SNOWFLAKE_TOKEN;
-    const database = process.env.SNOWFLAKE_DATABASE;
-    const schema = process.env.SNOWFLAKE_SCHEMA;
-    const warehouse = process.env.SNOWFLAKE_WAREHOUSE;
-    const role = process.env.SNOWFLAKE_ROLE;
-
-    // Sanitize account: Remove https:// and .snowflakecomputing.com if present
-    account = account.replace(/^https?:\/\//, "").replace(/\.snowflakecomputing\.com\/?$/, "");
-
-    if (!account || !token) {
-      return res.status(500).json({ error: "Snowflake credentials missing in environment." });
-    }
+  // Device accounts: any route can see who is calling, only some require it
+  const registryStore = createRegistryStore();
+  const tokens = new DeviceTokens(loadTokenSecret(process.env.ACCOUNT_SECRET_PATH || "data/account-secret"));
+  const points = new PointsService(registryStore);
+  app.use(identifyUser(tokens));
+
+  // Vendor proxies: the Gemini and ElevenLabs keys stay on the server.
+  // Mounted before the app-wide JSON parser because frames need a larger body limit.
+  const vision = createVisionProvider();
+  console.log(vision ? `Vision provider: ${vision.name} (${vision.model})` : "Vision provider: not configured");
+  app.use("/api/vision", createVisionRouter(vision, points));
+  // Pins may carry a snapshot thumbnail (up to 96 KB of base64) with their scene analysis
+  app.use(express.json({ limit: "256kb" }));
+  const ttsCacheMb = Number(process.env.TTS_CACHE_MAX_MB ?? 200);
+  const ttsCache = ttsCacheMb > 0 ? new DiskTtsCache(process.env.TTS_CACHE_DIR || "data/tts-cache", ttsCacheMb * 1024 * 1024) : null;
+  app.use("/api/tts", createTtsRouter(ttsCache));
+  app.get("/api/status", (_req, res) => {
+    res.json({ vision: !!vision, tts: isElevenLabsConfigured() });
+  });
 
-    // Detect token type: JWTs usually start with 'ey'
-    const isJwt = token.startsWith("ey");
-    // Only send the header if it's a JWT. For other tokens, Snowflake can usually infer it.
-    // If it's an OAuth token and fails, the user may need to explicitly set this.
-    const tokenType = isJwt ? "JWT" : null;
-    
-    const snowflakeUrl = `https://${account}.snowflakecomputing.com/api/v2/statements`;
-    console.log(`Executing Snowflake SQL on: ${snowflakeUrl} using ${tokenType}`);
-    
-    // Check for common locator-only mistake
-    if (account.length === 7 && !account.includes(".") && !account.includes("-")) {
-      console.warn("WARNING: Your SNOWFLAKE_ACCOUNT looks like a locator (e.g., UF75979) without a region. This will likely fail with a 404.");
+  app.use("/api/me", createAccountRouter(registryStore, tokens, points));
+
+  // Spatial Registry REST API
+  app.use("/api/buildings", createBuildingRouter(registryStore));
+  const embedder = createEmbedder();
+  const nodeSearch = new NodeSearchService(embedder);
+  const snapshots = new DiskSnapshotStore(process.env.SNAPSHOT_DIR || "data/snapshots");
+  const moderation = new ModerationService(registryStore, snapshots);
+  app.use("/api/buildings/:buildingId", createModerationRouter(moderation));
+  app.use("/api/buildings/:buildingId/nodes", createNodeRouter(registryStore, nodeSearch, points, snapshots));
+  app.use("/api/buildings/:buildingId", createNavigationRouter(registryStore));
+  app.use("/api/buildings/:buildingId", createLocalizationRouter(new PlaceRecognizer(registryStore, snapshots, embedder)));
+
+  // Verified places nobody has confirmed in a while go back to the review queue
+  const sweepStale = () => moderation.markStale()
+    .then(count => count > 0 && console.log(`Moderation: ${count} node(s) marked stale`))
+    .catch(error => console.error("Stale Sweep Error:", error));
+  sweepStale();
+  setInterval(sweepStale, 24 * 60 * 60 * 1000).unref();
+
+  // Raw Snowflake SQL (admin only, for migrations and debugging)
+  app.post("/api/snowflake/execute", requireAdmin, async (req, res) => {
+    const { sql } = req.body;
+    if (typeof sql !== "string" || sql.trim().length === 0) {
+      return res.status(400).json({ error: "sql must be a non-empty string." });
     }
 
-    const headers: Record<string, string> = {
-      "Authorization": `Bearer ${token}`,
-      "Content-Type": "application/json",
-      "Accept": "application/json",
-    };
-
-    const body: any = {
-      statement: sql,
-      timeout: 60
-    };
-
-    if (database) body.database = database;
-    if (schema) body.schema = schema;
-    if (warehouse) body.warehouse = warehouse;
-    if (role) body.role = role;
-
-    try {
-      const response = await fetch(snowflakeUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(body)
-      });
-
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("application/json")) {
-        const data = await response.json();
-        console.log("Snowflake Response Status:", response.status);
-        if (response.status >= 400) {
-          console.error("Snowflake API Error Detail:", JSON.stringify(data, null, 2));
-          // Extract the actual message from Snowflake if available
-          const errorMsg = data.message || data.error || "Snowflake API Error";
-          let hint = response.status === 400 ? "\n\nHint: This often means the SQL is invalid or the table doesn't exist yet. If you haven't pinned any locations, this is normal." : "";
-          
-          if (errorMsg.includes("warehouse")) {
-            hint = "\n\nHint: Your Snowflake request failed because no warehouse was specified or the specified warehouse is invalid. Please check your SNOWFLAKE_WAREHOUSE environment variable.";
-          } else if (errorMsg.includes("database") || errorMsg.includes("schema")) {
-            hint = "\n\nHint: Your Snowflake request failed because the database or schema was not found. Please check your SNOWFLAKE_DATABASE and SNOWFLAKE_SCHEMA environment variables.";
-          } else if (errorMsg.includes("X-Snowflake-Authorization-Token-Type")) {
-            hint = "\n\nHint: Snowflake rejected the authorization header type. This can happen with some OAuth providers. The app will try to adapt, but you may need to check your token type.";
-          }
-
-          return res.status(response.status).json({ 
-            ...data,
-            error: errorMsg,
-            hint: hint + (data.hint || "")
-          });
-        }
-        res.status(response.status).json(data);
-      } else {
-        const text = await response.text();
-        console.error(`Snowflake Non-JSON Error (${response.status}):`, text.substring(0, 1000));
-        
-        let hint = "Snowflake returned a non-JSON response. Check your SNOWFLAKE_ACCOUNT and SNOWFLAKE_TOKEN.";
-        if (response.status === 401) {
-          hint = "Authentication failed (401). Your SNOWFLAKE_TOKEN is invalid or expired.";
-        } else if (response.status === 403) {
-          hint = "Forbidden (403). Your token might not have permission to use the SQL API, or your IP might be blocked by Snowflake Network Policies.";
-        } else if (response.status === 404) {
-          hint = `Snowflake returned a 404. The account identifier "${account}" might be incorrect.`;
-        }
-        if (text.includes("ErrorContainer")) hint = "Snowflake returned a branded error page. This usually means the URL is valid but the request was rejected (e.g., IP blocking or invalid credentials).";
-
-        console.log(`DEBUG: Failed URL was ${snowflakeUrl}`);
-
-        res.status(response.status).json({ 
-          error: "Snowflake returned an HTML error page instead of JSON.",
-          status: response.status,
-          hint,
-          detail: text.substring(0, 200)
-        });
-      }
-    } catch (error) {
-      console.error("Snowflake API Error:", error);
-      res.status(500).json({ error: "Failed to communicate with Snowflake." });
-    }
+    const { status, data } = await executeSnowflakeStatement(sql);
+    res.status(status).json(data);
   });
 
   // Vite middleware for development
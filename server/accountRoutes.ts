@@ -0,0 +1,56 @@
+import { Router } from "express";
+import type { AccountStore } from "./nodeStore";
+import type { PointsService } from "./points";
+import { currentUserId, requireUser, type DeviceTokens } from "./accounts";
+import { createRateLimiter } from "./rateLimit";
+
+/**
+ * Device account routes, mounted at /api/me.
+ * POST / registers an anonymous account and returns { userId, token };
+ * GET / and GET /points need that token as a Bearer Authorization header.
+ */
+export function createAccountRouter(store: AccountStore, tokens: DeviceTokens, points: PointsService): Router {
+  const router = Router();
+
+  // New accounts start from zero, so minting many of them is the other way to farm points
+  const registrationLimiter = createRateLimiter({
+    name: "account",
+    windowMs: 60 * 60_000,
+    maxPerSession: 3,
+    maxPerIp: Number(process.env.ACCOUNT_RATE_LIMIT_PER_HOUR) || 10
+  });
+
+  router.post("/", registrationLimiter, async (_req, res) => {
+    try {
+      const user = await store.createUser();
+      res.status(201).json({ userId: user.id, token: tokens.issue(user.id) });
+    } catch (error) {
+      console.error("Account Create Error:", error);
+      res.status(500).json({ error: "Failed to create account." });
+    }
+  });
+
+  router.get("/", requireUser, async (_req, res) => {
+    try {
+      const user = await store.getUser(currentUserId(res)!);
+      if (!user) return res.status(404).json({ error: "Account not found." });
+      res.json(user);
+    } catch (error) {
+      console.error("Account Read Error:", error);
+      res.status(500).json({ error: "Failed to read account." });
+    }
+  });
+
+  router.get("/points", requireUser, async (_req, res) => {
+    const userId = currentUserId(res)!;
+    try {
+      if (!(await store.getUser(userId))) return res.status(404).json({ error: "Account not found." });
+      res.json(await points.summary(userId));
+    } catch (error) {
+      console.error("Points Read Error:", error);
+      res.status(500).json({ error: "Failed to read points." });
+    }
+  });
+
+  return router;
+}
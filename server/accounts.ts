@@ -0,0 +1,118 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { RequestHandler, Response } from "express";
+import type { SpatialNode } from "../src/services/registry";
+import { isValidId } from "./validation";
+
+/**
+ * Signs device tokens of the form `<userId>.<signature>`. The server keeps no
+ * session table: a token is valid if its signature matches, so rotating the
+ * secret signs every device out.
+ */
+export class DeviceTokens {
+  constructor(private secret: string) {}
+
+  issue(userId: string): string {
+    return `${userId}.${this.sign(userId)}`;
+  }
+
+  /** The user id, or null for a malformed or forged token. */
+  verify(token: string): string | null {
+    const [userId, signature, ...rest] = token.split(".");
+    if (rest.length > 0 || !isValidId(userId) || !signature) return null;
+    const expected = Buffer.from(this.sign(userId));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? userId : null;
+  }
+
+  private sign(userId: string): string {
+    return crypto.createHmac("sha256", this.secret).update(userId).digest("base64url");
+  }
+}
+
+/**
+ * ACCOUNT_TOKEN_SECRET if set; otherwise a random secret generated on first start
+ * and kept at `secretPath`, so device tokens survive restarts.
+ */
+export function loadTokenSecret(secretPath: string): string {
+  if (process.env.ACCOUNT_TOKEN_SECRET) return process.env.ACCOUNT_TOKEN_SECRET;
+  try {
+    return fs.readFileSync(secretPath, "utf8").trim();
+  } catch {
+    const secret = crypto.randomBytes(32).toString("base64url");
+    fs.mkdirSync(path.dirname(secretPath), { recursive: true });
+    fs.writeFileSync(secretPath, secret, { mode: 0o600 });
+    console.log(`Account token secret generated at ${secretPath}`);
+    return secret;
+  }
+}
+
+// Constant-time, like device token signatures, so the token cannot be guessed byte by byte
+function isAdminToken(token: string): boolean {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) return false;
+  const expected = Buffer.from(adminToken);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Sets res.locals.userId when the request carries a valid device token, or
+ * res.locals.isAdmin when it carries ADMIN_API_TOKEN; anonymous requests pass through.
+ */
+export function identifyUser(tokens: DeviceTokens): RequestHandler {
+  return (req, res, next) => {
+    const header = req.header("authorization");
+    if (header?.startsWith("Bearer ")) {
+      const token = header.slice("Bearer ".length);
+      if (isAdminToken(token)) {
+        res.locals.isAdmin = true;
+      } else {
+        const userId = tokens.verify(token);
+        if (userId) res.locals.userId = userId;
+      }
+    }
+    next();
+  };
+}
+
+/** Rejects requests that identifyUser could not attach a user to. */
+export const requireUser: RequestHandler = (_req, res, next) => {
+  if (!currentUserId(res)) {
+    return res.status(401).json({ error: "A valid device token is required." });
+  }
+  next();
+};
+
+/** Like requireUser, but also lets the admin token through; handlers decide what each may change. */
+export const requireUserOrAdmin: RequestHandler = (_req, res, next) => {
+  if (!currentUserId(res) && !isAdmin(res)) {
+    return res.status(401).json({ error: "A valid device token is required." });
+  }
+  next();
+};
+
+/** Rejects everything but the admin token, and everything when ADMIN_API_TOKEN is not set. */
+export const requireAdmin: RequestHandler = (_req, res, next) => {
+  if (!process.env.ADMIN_API_TOKEN) {
+    return res.status(403).json({ error: "Admin routes are disabled. Set ADMIN_API_TOKEN to enable them." });
+  }
+  if (!isAdmin(res)) {
+    return res.status(401).json({ error: "Admin token required." });
+  }
+  next();
+};
+
+export function currentUserId(res: Response): string | null {
+  return typeof res.locals.userId === "string" ? res.locals.userId : null;
+}
+
+export function isAdmin(res: Response): boolean {
+  return res.locals.isAdmin === true;
+}
+
+/** Whether the caller may edit or delete a node: its author, or the admin token. Seeded nodes have no author. */
+export function mayChangeNode(res: Response, node: Pick<SpatialNode, "createdBy">): boolean {
+  return isAdmin(res) || (node.createdBy !== null && node.createdBy === currentUserId(res));
+}
@@ -0,0 +1,69 @@
+import { Router } from "express";
+import type { RegistryStore } from "./nodeStore";
+import { requireAdmin } from "./accounts";
+import { parseBuildingInput, parseFloor, validateBuildingId } from "./validation";
+
+/**
+ * Building and floor routes, mounted at /api/buildings.
+ * GET /, POST /, GET /:buildingId and PUT /:buildingId/floors/:level
+ * Creating buildings and naming floors needs the admin token.
+ */
+export function createBuildingRouter(store: RegistryStore): Router {
+  const router = Router();
+
+  router.get("/", async (_req, res) => {
+    try {
+      res.json(await store.listBuildings());
+    } catch (error) {
+      console.error("Building List Error:", error);
+      res.status(500).json({ error: "Failed to read buildings." });
+    }
+  });
+
+  router.post("/", requireAdmin, async (req, res) => {
+    const parsed = parseBuildingInput(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    try {
+      if (await store.getBuilding(parsed.value.id)) {
+        return res.status(409).json({ error: "A building with this id already exists." });
+      }
+      await store.saveBuilding(parsed.value);
+      res.status(201).json(parsed.value);
+    } catch (error) {
+      console.error("Building Save Error:", error);
+      res.status(500).json({ error: "Failed to save building." });
+    }
+  });
+
+  router.get("/:buildingId", validateBuildingId, async (req, res) => {
+    try {
+      const building = await store.getBuilding(req.params.buildingId);
+      if (!building) return res.status(404).json({ error: "Building not found." });
+      res.json(building);
+    } catch (error) {
+      console.error("Building Get Error:", error);
+      res.status(500).json({ error: "Failed to read building." });
+    }
+  });
+
+  router.put("/:buildingId/floors/:level", requireAdmin, validateBuildingId, async (req, res) => {
+    const parsed = parseFloor(req.params.level, req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    try {
+      if (!(await store.getBuilding(req.params.buildingId))) {
+        return res.status(404).json({ error: "Building not found." });
+      }
+      await store.saveFloor(req.params.buildingId, parsed.value);
+      res.json(parsed.value);
+    } catch (error) {
+      console.error("Floor Save Error:", error);
+      res.status(500).json({ error: "Failed to save floor." });
+    }
+  });
+
+  return router;
+}
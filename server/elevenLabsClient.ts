@@ -0,0 +1,34 @@
+const DEFAULT_VOICE_ID = "pMs7uS297jtjz4kyM997"; // Serena
+
+export function isElevenLabsConfigured(): boolean {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  return !!apiKey && apiKey !== "MY_ELEVENLABS_KEY";
+}
+
+export function elevenLabsVoiceId(): string {
+  return process.env.ELEVENLABS_VOICE_ID || DEFAULT_VOICE_ID;
+}
+
+/**
+ * Starts an ElevenLabs streaming synthesis and returns the upstream response
+ * so the caller can pipe the audio through without buffering it.
+ */
+export async function streamElevenLabsSpeech(text: string, signal?: AbortSignal): Promise<Response> {
+  return fetch(`https://api.elevenlabs.io/v1/text-to-speech/${elevenLabsVoiceId()}/stream`, {
+    method: "POST",
+    signal,
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": "audio/mpeg",
+      "xi-api-key": process.env.ELEVENLABS_API_KEY || "",
+    },
+    body: JSON.stringify({
+      text,
+      model_id: "eleven_multilingual_v2",
+      voice_settings: {
+        stability: 0.5,
+        similarity_boost: 0.75,
+      },
+    }),
+  });
+}
@@ -0,0 +1,82 @@
+import { GoogleGenAI } from "@google/genai";
+
+/** Turns text into vectors for similarity ranking. Vectors from one embedder are L2-normalized and comparable. */
+export interface Embedder {
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.hypot(...vector);
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) dot += a[i] * b[i];
+  return dot;
+}
+
+// FNV-1a, so the same n-gram always lands in the same bucket across runs and machines
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Local, deterministic embedder: hashed character trigrams plus whole words.
+ * Needs no network or model download, so it is the default and the test stub.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name = "hashing";
+
+  constructor(private dimensions: number = 256) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+      vector[hash(`w:${word}`) % this.dimensions] += 2;
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        vector[hash(padded.slice(i, i + 3)) % this.dimensions] += 1;
+      }
+    }
+    return normalize(vector);
+  }
+}
+
+/** Gemini text embeddings; better on paraphrases, but every search costs a network round trip. */
+export class GeminiEmbedder implements Embedder {
+  readonly name = "gemini";
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model: string = "text-embedding-004") {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.ai.models.embedContent({ model: this.model, contents: texts });
+    return (response.embeddings || []).map(e => normalize(e.values || []));
+  }
+}
+
+export function createEmbedder(): Embedder {
+  const choice = process.env.SEARCH_EMBEDDER || "hashing";
+  if (choice === "gemini") {
+    if (process.env.GEMINI_API_KEY) {
+      return new GeminiEmbedder(process.env.GEMINI_API_KEY, process.env.SEARCH_EMBEDDING_MODEL || undefined);
+    }
+    console.warn("SEARCH_EMBEDDER=gemini but GEMINI_API_KEY is missing. Using the local hashing embedder.");
+  } else if (choice !== "hashing") {
+    console.warn(`Unknown SEARCH_EMBEDDER "${choice}". Using the local hashing embedder.`);
+  }
+  return new HashingEmbedder();
+}
@@ -0,0 +1,69 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync, readdirSync } from "fs";
+import path from "path";
+import { parseSceneAnalysis, type DescribeSceneRequest, type SceneAnalysis } from "../src/services/sceneAnalysis";
+import type { DescribeOptions, VisionProvider } from "./visionProvider";
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg"];
+
+const EMPTY_SCENE: SceneAnalysis = {
+  description: "Fixture scene: a clear corridor ahead.",
+  hazard: null,
+  navigation: null,
+  direction: null,
+  objects: [],
+  signs: [],
+  hazards: []
+};
+
+function imageKey(bytes: Buffer): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+/**
+ * Deterministic provider for offline runs and tests. Every `name.jpg` in the
+ * fixture directory is paired with `name.json` (a SceneAnalysis); a request whose
+ * image bytes match a fixture image gets that analysis, anything else gets
+ * `default.json` or a fixed empty scene.
+ */
+export class FixtureVisionProvider implements VisionProvider {
+  readonly name = "fixture";
+  readonly model = "fixture";
+  private scenes = new Map<string, SceneAnalysis>();
+  private fallback: SceneAnalysis = EMPTY_SCENE;
+
+  constructor(private directory: string) {
+    if (!existsSync(directory)) {
+      console.warn(`Vision fixture directory ${directory} not found. Every frame will get the default scene.`);
+      return;
+    }
+    for (const file of readdirSync(directory)) {
+      const extension = path.extname(file).toLowerCase();
+      const base = path.basename(file, path.extname(file));
+      if (file === "default.json") {
+        this.fallback = this.load(path.join(directory, file));
+      } else if (IMAGE_EXTENSIONS.includes(extension)) {
+        const analysisPath = path.join(directory, `${base}.json`);
+        if (!existsSync(analysisPath)) {
+          console.warn(`Vision fixture ${file} has no ${base}.json. Skipping.`);
+          continue;
+        }
+        this.scenes.set(imageKey(readFileSync(path.join(directory, file))), this.load(analysisPath));
+      }
+    }
+  }
+
+  private load(file: string): SceneAnalysis {
+    const parsed = parseSceneAnalysis(readFileSync(file, "utf8"));
+    if ("error" in parsed) throw new Error(`Invalid vision fixture ${file}: ${parsed.error}`);
+    return parsed.value;
+  }
+
+  async describeScene(request: DescribeSceneRequest, options: DescribeOptions = {}): Promise<SceneAnalysis> {
+    const analysis = this.scenes.get(imageKey(Buffer.from(request.image, "base64"))) || this.fallback;
+    // Same key order as the live providers, so narration streams the same way
+    const { hazards, hazard, navigation, direction, description, signs, objects } = analysis;
+    options.onChunk?.(JSON.stringify({ hazards, hazard, navigation, direction, description, signs, objects }));
+    return analysis;
+  }
+}
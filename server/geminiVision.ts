@@ -0,0 +1,110 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { HAZARD_CATEGORIES, HAZARD_SEVERITIES } from "../src/services/registry";
+import { GUIDANCE_DIRECTIONS, parseSceneAnalysis, type DescribeSceneRequest, type SceneAnalysis } from "../src/services/sceneAnalysis";
+import { buildScenePrompt } from "./scenePrompt";
+import type { DescribeOptions, VisionProvider } from "./visionProvider";
+
+const BEARING = { type: Type.INTEGER, description: "Clock-face bearing from 1 to 12, where 12 is straight ahead." };
+const DISTANCE = { type: Type.NUMBER, description: "Estimated distance in meters, otherwise null.", nullable: true };
+
+const SCENE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    description: { type: Type.STRING, description: "The full spatial description of the scene or answer to the question." },
+    hazard: { type: Type.STRING, description: "A brief warning if a hazard is detected, otherwise null.", nullable: true },
+    navigation: { type: Type.STRING, description: "Directional guidance towards the target if applicable, otherwise null.", nullable: true },
+    direction: { type: Type.STRING, enum: [...GUIDANCE_DIRECTIONS], description: "Which way the navigation guidance points, otherwise null.", nullable: true },
+    objects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING, description: "Short name of the object." },
+          type: { type: Type.STRING, description: "Coarse class such as door, chair, person, table." },
+          bearing: BEARING,
+          distanceMeters: DISTANCE
+        },
+        required: ["label", "type", "bearing"]
+      }
+    },
+    signs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: "Exact text written on the sign." },
+          translation: { type: Type.STRING, description: "The text translated into the user's language, otherwise null.", nullable: true },
+          bearing: BEARING,
+          distanceMeters: DISTANCE
+        },
+        required: ["text", "bearing"]
+      }
+    },
+    hazards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING, description: "Brief warning about this hazard." },
+          severity: { type: Type.STRING, enum: [...HAZARD_SEVERITIES] },
+          category: { type: Type.STRING, enum: [...HAZARD_CATEGORIES] },
+          bearing: { ...BEARING, nullable: true },
+          distanceMeters: DISTANCE
+        },
+        required: ["description", "severity", "category"]
+      }
+    }
+  },
+  required: ["description", "hazard", "navigation", "direction", "objects", "signs", "hazards"],
+  // Urgent fields first so they can be spoken while the rest is still generating
+  propertyOrdering: ["hazards", "hazard", "navigation", "direction", "description", "signs", "objects"]
+};
+
+/** Gemini with a response schema; the API key never leaves the server. */
+export class GeminiVisionProvider implements VisionProvider {
+  readonly name = "gemini";
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string = "gemini-3-flash-preview") {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async describeScene(request: DescribeSceneRequest, options: DescribeOptions = {}): Promise<SceneAnalysis> {
+    const { systemInstruction, prompt } = buildScenePrompt(request);
+
+    const stream = await this.ai.models.generateContentStream({
+      model: this.model,
+      contents: [
+        {
+          parts: [
+            { text: prompt },
+            {
+              inlineData: {
+                mimeType: "image/jpeg",
+                data: request.image,
+              },
+            },
+          ],
+        },
+      ],
+      config: {
+        abortSignal: options.signal,
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: SCENE_SCHEMA
+      }
+    });
+
+    let text = "";
+    for await (const chunk of stream) {
+      const piece = chunk.text || "";
+      if (!piece) continue;
+      text += piece;
+      options.onChunk?.(piece);
+    }
+
+    const parsed = parseSceneAnalysis(text || '{"description": "I cannot see clearly.", "hazard": null}');
+    if ("error" in parsed) throw new Error(parsed.error);
+    return parsed.value;
+  }
+}
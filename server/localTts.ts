@@ -0,0 +1,15 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+
+/**
+ * Offline synthesis through a command-line engine that writes WAV to stdout.
+ * LOCAL_TTS_COMMAND defaults to espeak-ng; any engine accepting the same
+ * `-v <voice> -s <wpm> -p <pitch> --stdout <text>` flags can be swapped in.
+ */
+export function spawnLocalSpeech(text: string, lang: string, rate: number, pitch: number): ChildProcessWithoutNullStreams {
+  const command = process.env.LOCAL_TTS_COMMAND || "espeak-ng";
+  const voice = lang.split("-")[0].toLowerCase();
+  const wordsPerMinute = Math.round(175 * rate);
+  const pitchLevel = Math.round(50 * pitch);
+  // Arguments are passed without a shell, so the text cannot inject commands
+  return spawn(command, ["-v", voice, "-s", String(wordsPerMinute), "-p", String(pitchLevel), "--stdout", "--", text]);
+}
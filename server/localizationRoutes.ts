@@ -0,0 +1,29 @@
+import { Router } from "express";
+import type { PlaceRecognizer } from "./placeRecognition";
+import { parseLocalizeQuery, validateBuildingId } from "./validation";
+
+/**
+ * Place recognition, mounted at /api/buildings/:buildingId.
+ * POST /localize with a LocalizeQuery returns a LocalizeResponse, or { error }.
+ */
+export function createLocalizationRouter(recognizer: PlaceRecognizer): Router {
+  const router = Router({ mergeParams: true });
+
+  router.use(validateBuildingId);
+
+  router.post("/localize", async (req, res) => {
+    const { buildingId } = req.params as { buildingId: string };
+    const parsed = parseLocalizeQuery(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    try {
+      res.json(await recognizer.localize(buildingId, parsed.value));
+    } catch (error) {
+      console.error("Localization Error:", error);
+      res.status(500).json({ error: "Failed to recognize location." });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,199 @@
+import type { NodeStatus, SpatialNode } from "../src/services/registry";
+import type { ModeratedNode, NodeReview, ReviewVerdict } from "../src/services/moderation";
+import type { RegistryStore } from "./nodeStore";
+import type { DiskSnapshotStore } from "./snapshotStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ModerationRules {
+  /** Distinct confirmations a pending node needs before it is verified. */
+  confirmations: number;
+  /** Weighted score (confirmations minus disputes) a node also needs to be verified. */
+  verifyScore: number;
+  /** Weighted score at or below which a node is rejected. */
+  rejectScore: number;
+  /** A verified node with no confirmation for this long goes stale. */
+  staleAfterDays: number;
+  /** Accounts younger than this start at the lowest review weight instead of 1. */
+  newAccountDays: number;
+  /** Review weight a confirmation needs to count toward `confirmations`. */
+  countedWeight: number;
+}
+
+/**
+ * Three confirmations promote a pin, provided disputes have not pulled its
+ * score under 2; a score of -2 (two ordinary disputes and nothing else) rejects it.
+ * Accounts are free to make, so one under a week old with no track record weighs
+ * a quarter and its confirmations are not counted until it earns some reputation.
+ * Places change, so a verified node nobody has confirmed for six months is
+ * queued for a fresh look.
+ */
+export const MODERATION_RULES: ModerationRules = {
+  confirmations: Number(process.env.MODERATION_CONFIRMATIONS) || 3,
+  verifyScore: 2,
+  rejectScore: -2,
+  staleAfterDays: 180,
+  newAccountDays: 7,
+  countedWeight: 0.5
+};
+
+/** Reputation bounds: an established reviewer counts 1, a proven one up to 2, a new or unreliable one down to 0.25. */
+const MIN_WEIGHT = 0.25;
+const MAX_WEIGHT = 2;
+/** How many of a reviewer's recent reviews feed their reputation. */
+const REPUTATION_WINDOW = 100;
+
+/** Why a review was refused; the route maps each to a status code. */
+export class ReviewError extends Error {
+  constructor(message: string, readonly reason: "not_found" | "own_node") {
+    super(message);
+  }
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Community moderation of pinned nodes. Reviews are weighted by the reviewer's
+ * reputation, which grows when their past verdicts matched how a node was
+ * finally settled and shrinks when they did not. After every review the node's
+ * status is recomputed, and verified landmarks join the golden path.
+ */
+export class ModerationService {
+  constructor(
+    private store: RegistryStore,
+    private snapshots: DiskSnapshotStore,
+    private rules: ModerationRules = MODERATION_RULES
+  ) {}
+
+  async review(buildingId: string, nodeId: string, userId: string, verdict: ReviewVerdict, note: string | null): Promise<ModeratedNode> {
+    const node = await this.store.getNode(buildingId, nodeId);
+    if (!node) throw new ReviewError("Node not found.", "not_found");
+    if (node.createdBy === userId) throw new ReviewError("You cannot review your own pin.", "own_node");
+
+    await this.store.saveReview({
+      buildingId,
+      nodeId,
+      userId,
+      verdict,
+      weight: await this.reputation(userId),
+      note,
+      createdAt: new Date().toISOString()
+    });
+    const reviews = await this.store.listReviews(buildingId, nodeId);
+    const settled = await this.settle(node, reviews);
+    return this.describe(settled, reviews);
+  }
+
+  async history(buildingId: string, nodeId: string): Promise<ModeratedNode | null> {
+    const node = await this.store.getNode(buildingId, nodeId);
+    if (!node) return null;
+    return this.describe(node, await this.store.listReviews(buildingId, nodeId));
+  }
+
+  /** Pending and stale nodes, oldest first, skipping expired hazards. */
+  async queue(buildingId: string): Promise<ModeratedNode[]> {
+    const now = new Date().toISOString();
+    const [nodes, reviews] = await Promise.all([
+      this.store.listNodes(buildingId),
+      this.store.listReviews(buildingId)
+    ]);
+    const queued = nodes
+      .filter(node => (node.status === "pending" || node.status === "stale") && (!node.expiresAt || node.expiresAt > now))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return Promise.all(queued.map(node => this.describe(node, reviews.filter(review => review.nodeId === node.id))));
+  }
+
+  /**
+   * Marks verified nodes stale, and takes them off the golden path, once their last
+   * confirmation is older than staleAfterDays. Returns how many changed.
+   */
+  async markStale(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.rules.staleAfterDays * DAY_MS).toISOString();
+    let changed = 0;
+    for (const building of await this.store.listBuildings()) {
+      const [nodes, reviews] = await Promise.all([
+        this.store.listNodes(building.id),
+        this.store.listReviews(building.id)
+      ]);
+      for (const node of nodes) {
+        if (node.status !== "verified" || node.kind === "hazard") continue;
+        const confirmedAt = reviews
+          .filter(review => review.nodeId === node.id && review.verdict === "confirm")
+          .reduce((latest, review) => review.createdAt > latest ? review.createdAt : latest, node.createdAt);
+        if (confirmedAt < cutoff) {
+          await this.store.updateNode(building.id, node.id, { status: "stale", isGoldenPath: false });
+          changed++;
+        }
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * The weight of a user's next review. Accounts start at 1 once they are
+   * newAccountDays old and at 0.25 before that. Past reviews count once their node
+   * is settled: agreeing with the outcome earns 0.1, disagreeing costs 0.25.
+   */
+  async reputation(userId: string, now: Date = new Date()): Promise<number> {
+    const [account, past] = await Promise.all([
+      this.store.getUser(userId),
+      this.store.listUserReviews(userId, REPUTATION_WINDOW)
+    ]);
+    const statuses = new Map<string, NodeStatus>();
+    for (const buildingId of new Set(past.map(review => review.buildingId))) {
+      for (const node of await this.store.listNodes(buildingId)) statuses.set(`${buildingId}/${node.id}`, node.status);
+    }
+
+    const established = account !== null && now.getTime() - Date.parse(account.createdAt) >= this.rules.newAccountDays * DAY_MS;
+    let weight = established ? 1 : MIN_WEIGHT;
+    for (const review of past) {
+      const status = statuses.get(`${review.buildingId}/${review.nodeId}`);
+      if (status !== "verified" && status !== "rejected") continue;
+      const agreed = (review.verdict === "confirm") === (status === "verified");
+      weight += agreed ? 0.1 : -0.25;
+    }
+    return roundScore(Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, weight)));
+  }
+
+  /** Where the reviews leave a node. Without enough signal either way it keeps its current status. */
+  nextStatus(node: SpatialNode, reviews: NodeReview[]): NodeStatus {
+    const score = this.score(reviews);
+    if (score <= this.rules.rejectScore) return "rejected";
+    // A fresh confirmation is the fresh look a stale node was waiting for
+    if (node.status === "stale") return reviews[reviews.length - 1]?.verdict === "confirm" ? "verified" : "stale";
+    if (this.confirmations(reviews) >= this.rules.confirmations && score >= this.rules.verifyScore) return "verified";
+    // Disputes withdrawn or outweighed: a rejected node goes back to the queue
+    if (node.status === "rejected") return "pending";
+    return node.status;
+  }
+
+  private async settle(node: SpatialNode, reviews: NodeReview[]): Promise<SpatialNode> {
+    const status = this.nextStatus(node, reviews);
+    if (status === node.status) return node;
+    // Hazards are announced whatever their status; only landmarks are promoted to the golden path
+    const isGoldenPath = node.kind !== "hazard" && status === "verified";
+    return (await this.store.updateNode(node.buildingId, node.id, { status, isGoldenPath })) ?? node;
+  }
+
+  private async describe(node: SpatialNode, reviews: NodeReview[]): Promise<ModeratedNode> {
+    return {
+      node,
+      score: this.score(reviews),
+      confirmations: this.confirmations(reviews),
+      confirmationsNeeded: this.rules.confirmations,
+      reviews,
+      snapshot: await this.snapshots.get(node.buildingId, node.id)
+    };
+  }
+
+  private score(reviews: NodeReview[]): number {
+    return roundScore(reviews.reduce((sum, review) => sum + (review.verdict === "confirm" ? review.weight : -review.weight), 0));
+  }
+
+  // Independent confirmations: reviewers too new or too unreliable to count add only their weight to the score
+  private confirmations(reviews: NodeReview[]): number {
+    return reviews.filter(review => review.verdict === "confirm" && review.weight >= this.rules.countedWeight).length;
+  }
+}
@@ -0,0 +1,64 @@
+import { Router } from "express";
+import { currentUserId, requireUser } from "./accounts";
+import { ReviewError, type ModerationService } from "./moderation";
+import { isValidId, parseReviewInput, validateBuildingId } from "./validation";
+
+/**
+ * Community review routes, mounted at /api/buildings/:buildingId.
+ * GET /review-queue, GET /nodes/:nodeId/reviews, and POST /nodes/:nodeId/reviews
+ * with { verdict: "confirm" | "dispute", note? }, which needs a device token.
+ * Responses are a ModeratedNode, a ModeratedNode[], or { error }.
+ */
+export function createModerationRouter(moderation: ModerationService): Router {
+  const router = Router({ mergeParams: true });
+
+  router.use(validateBuildingId);
+
+  router.get("/review-queue", async (req, res) => {
+    const { buildingId } = req.params as { buildingId: string };
+    try {
+      res.json(await moderation.queue(buildingId));
+    } catch (error) {
+      console.error("Review Queue Error:", error);
+      res.status(500).json({ error: "Failed to read review queue." });
+    }
+  });
+
+  router.get("/nodes/:nodeId/reviews", async (req, res) => {
+    const { buildingId, nodeId } = req.params as { buildingId: string; nodeId: string };
+    if (!isValidId(nodeId)) {
+      return res.status(400).json({ error: "Invalid node id." });
+    }
+    try {
+      const history = await moderation.history(buildingId, nodeId);
+      if (!history) return res.status(404).json({ error: "Node not found." });
+      res.json(history);
+    } catch (error) {
+      console.error("Review History Error:", error);
+      res.status(500).json({ error: "Failed to read review history." });
+    }
+  });
+
+  router.post("/nodes/:nodeId/reviews", requireUser, async (req, res) => {
+    const { buildingId, nodeId } = req.params as { buildingId: string; nodeId: string };
+    if (!isValidId(nodeId)) {
+      return res.status(400).json({ error: "Invalid node id." });
+    }
+    const parsed = parseReviewInput(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    try {
+      const { verdict, note } = parsed.value;
+      res.json(await moderation.review(buildingId, nodeId, currentUserId(res)!, verdict, note));
+    } catch (error) {
+      if (error instanceof ReviewError) {
+        return res.status(error.reason === "not_found" ? 404 : 403).json({ error: error.message });
+      }
+      console.error("Review Save Error:", error);
+      res.status(500).json({ error: "Failed to save review." });
+    }
+  });
+
+  return router;
+}
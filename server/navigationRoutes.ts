@@ -0,0 +1,108 @@
+import { Router } from "express";
+import type { RegistryStore } from "./nodeStore";
+import { planRoute } from "./routePlanner";
+import { mayChangeNode, requireUserOrAdmin } from "./accounts";
+import { isValidId, parseEdgeInput, validateBuildingId } from "./validation";
+
+// Added to the derived length of floor-transition edges that don't give a distance
+const FLOOR_HEIGHT_METERS = 4;
+
+/**
+ * Graph and route planning routes, mounted at /api/buildings/:buildingId.
+ * GET /edges, POST /edges, DELETE /edges/:edgeId and GET /route?from=&to=&avoidStairs=
+ * Routes are read out to the user as directions, so an edge can only be added or deleted
+ * with the admin token or by the author of both nodes it connects.
+ */
+export function createNavigationRouter(store: RegistryStore): Router {
+  const router = Router({ mergeParams: true });
+
+  router.use(validateBuildingId);
+
+  router.get("/edges", async (req, res) => {
+    const { buildingId } = req.params as { buildingId: string };
+    try {
+      res.json(await store.listEdges(buildingId));
+    } catch (error) {
+      console.error("Edge List Error:", error);
+      res.status(500).json({ error: "Failed to read spatial graph." });
+    }
+  });
+
+  router.post("/edges", requireUserOrAdmin, async (req, res) => {
+    const { buildingId } = req.params as { buildingId: string };
+    const parsed = parseEdgeInput(buildingId, req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    try {
+      const [from, to] = await Promise.all([
+        store.getNode(buildingId, parsed.value.fromNodeId),
+        store.getNode(buildingId, parsed.value.toNodeId)
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ error: "Both nodes must exist in this building." });
+      }
+      if (!mayChangeNode(res, from) || !mayChangeNode(res, to)) {
+        return res.status(403).json({ error: "Only the author of both nodes can connect them." });
+      }
+      const floorDelta = Math.abs(to.floor - from.floor);
+      if (floorDelta > 0 && !parsed.value.hasStairs && !parsed.value.hasElevator && !parsed.value.hasRamp) {
+        return res.status(400).json({ error: "Edges between floors must be stairs, an elevator or a ramp." });
+      }
+      const distanceMeters = parsed.value.distanceMeters
+        ?? Math.hypot(to.coordinates.x - from.coordinates.x, to.coordinates.y - from.coordinates.y) + floorDelta * FLOOR_HEIGHT_METERS;
+      const edge = { ...parsed.value, distanceMeters };
+      const id = await store.saveEdge(edge);
+      res.status(201).json({ id, ...edge });
+    } catch (error) {
+      console.error("Edge Save Error:", error);
+      res.status(500).json({ error: "Failed to save edge." });
+    }
+  });
+
+  router.delete("/edges/:edgeId", requireUserOrAdmin, async (req, res) => {
+    const { buildingId, edgeId } = req.params as { buildingId: string; edgeId: string };
+    if (!isValidId(edgeId)) {
+      return res.status(400).json({ error: "Invalid edge id." });
+    }
+    try {
+      const edge = (await store.listEdges(buildingId)).find(e => e.id === edgeId);
+      if (!edge) return res.status(404).json({ error: "Edge not found." });
+      const [from, to] = await Promise.all([
+        store.getNode(buildingId, edge.fromNodeId),
+        store.getNode(buildingId, edge.toNodeId)
+      ]);
+      if (!from || !to || !mayChangeNode(res, from) || !mayChangeNode(res, to)) {
+        return res.status(403).json({ error: "Only the author of both nodes can disconnect them." });
+      }
+      const deleted = await store.deleteEdge(buildingId, edgeId);
+      if (!deleted) return res.status(404).json({ error: "Edge not found." });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Edge Delete Error:", error);
+      res.status(500).json({ error: "Failed to delete edge." });
+    }
+  });
+
+  router.get("/route", async (req, res) => {
+    const { buildingId } = req.params as { buildingId: string };
+    const { from, to, avoidStairs } = req.query;
+    if (!isValidId(from) || !isValidId(to)) {
+      return res.status(400).json({ error: "from and to must be valid node ids." });
+    }
+    try {
+      const [nodes, edges] = await Promise.all([
+        store.listNodes(buildingId),
+        store.listEdges(buildingId)
+      ]);
+      const plan = planRoute(nodes, edges, from, to, { avoidStairs: avoidStairs === "true" });
+      if (!plan) return res.status(404).json({ error: "No route found between these nodes." });
+      res.json(plan);
+    } catch (error) {
+      console.error("Route Planning Error:", error);
+      res.status(500).json({ error: "Failed to plan route." });
+    }
+  });
+
+  return router;
+}
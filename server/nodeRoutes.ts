@@ -0,0 +1,248 @@
+import { Router } from "express";
+import type { RegistryStore } from "./nodeStore";
+import type { NodeSearchService } from "./search";
+import type { PointsService } from "./points";
+import type { DiskSnapshotStore } from "./snapshotStore";
+import type { NewNodeSnapshot } from "../src/services/snapshots";
+import { isNodeActive } from "../src/services/hazards";
+import { currentUserId, isAdmin, mayChangeNode, requireUserOrAdmin } from "./accounts";
+import { checkNodePatch, isValidId, parseNodeInput, parseNodePatch, parseSnapshotInput, validateBuildingId } from "./validation";
+
+/**
+ * REST routes for spatial nodes, mounted at /api/buildings/:buildingId/nodes.
+ * Responses are a SpatialNode, a SpatialNode[], a SearchResponse (for /search), or { error };
+ * GET /?goldenPath=true also lists the caller's own pending pins when it sends a device token.
+ * GET /:nodeId/snapshot returns the NodeSnapshot saved with a pin and /:nodeId/snapshot.jpg its thumbnail.
+ * PATCH and DELETE /:nodeId are open to the pin's author and to the admin token. An author's edit
+ * of a reviewed pin sends it back to the review queue, and deleting a pin takes back its points.
+ */
+export function createNodeRouter(store: RegistryStore, search: NodeSearchService, points: PointsService, snapshots: DiskSnapshotStore): Router {
+  const router = Router({ mergeParams: true });
+
+  router.use(validateBuildingId);
+
+  // Points are a bonus: a ledger failure must not fail the pin itself
+  const awardPin = async (userId: string | null, nodeId: string) => {
+    if (!userId) return;
+    try {
+      await points.award(userId, "pin", nodeId);
+    } catch (error) {
+      console.error("Points Award Error:", error);
+    }
+  };
+
+  // ...nor the deletion that takes them back
+  const revokePin = async (userId: string, nodeId: string) => {
+    try {
+      await points.revokePin(userId, nodeId);
+    } catch (error) {
+      console.error("Points Revoke Error:", error);
+    }
+  };
+
+  // Like points, a snapshot that fails to store must not fail the pin
+  const saveSnapshot = async (buildingId: string, nodeId: string, snapshot: NewNodeSnapshot) => {
+    try {
+      await snapshots.put({
+        buildingId,
+        nodeId,
+        language: snapshot.language,
+        analysis: snapshot.analysis,
+        signText: snapshot.analysis.signs.map(sign => sign.text),
+        descriptor: snapshot.descriptor ?? null,
+        capturedAt: new Date().toISOString()
+      }, Buffer.from(snapshot.image, "base64"));
+    } catch (error) {
+      console.error("Snapshot Save Error:", error);
+    }
+  };
+
+  // Nodes may only be placed on floors the building declares
+  const checkFloor = async (buildingId: string, floor: number): Promise<string | null> => {
+    const building = await store.getBuilding(buildingId);
+    if (!building) return "Building not found.";
+    if (!building.floors.some(f => f.level === floor)) return `Building has no floor ${floor}.`;
+    return null;
+  };
+
+  // The caller's own pins are listed while they wait for review, so a new pin does not vanish on reload
+  const goldenPathFor = async (buildingId: string, userId: string | null) => {
+    const path = await store.fetchGoldenPath(buildingId);
+    if (!userId) return path;
+    const own = (await store.listNodes(buildingId))
+      .filter(node => node.createdBy === userId && node.status === "pending" && isNodeActive(node) && !path.some(p => p.id === node.id));
+    return [...own, ...path];
+  };
+
+  router.get("/", async (req, res) => {
+    const { buildingId } = req.params as { buildingId: string };
+    try {
+      const nodes = req.query.goldenPath === "true"
+        ? await goldenPathFor(buildingId, currentUserId(res))
+        : await store.listNodes(buildingId);
+      res.json(nodes);
+    } catch (error) {
+      console.error("Registry List Error:", error);
+      res.status(500).json({ error: "Failed to read spatial registry." });
+    }
+  });
+
+  router.get("/search", async (req, res) => {
+    const { buildingId } = req.params as { buildingId: string };
+    const { q } = req.query;
+    if (typeof q !== "string" || q.trim().length === 0) {
+      return res.status(400).json({ error: "Query parameter q is required." });
+    }
+    try {
+      res.json(await search.search(q.trim(), await store.listNodes(buildingId)));
+    } catch (error) {
+      console.error("Registry Search Error:", error);
+      res.status(500).json({ error: "Failed to search spatial registry." });
+    }
+  });
+
+  router.get("/:nodeId/snapshot", async (req, res) => {
+    const { buildingId, nodeId } = req.params as { buildingId: string; nodeId: string };
+    if (!isValidId(nodeId)) {
+      return res.status(400).json({ error: "Invalid node id." });
+    }
+    try {
+      const snapshot = await snapshots.get(buildingId, nodeId);
+      if (!snapshot) return res.status(404).json({ error: "Snapshot not found." });
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Snapshot Read Error:", error);
+      res.status(500).json({ error: "Failed to read snapshot." });
+    }
+  });
+
+  router.get("/:nodeId/snapshot.jpg", async (req, res) => {
+    const { buildingId, nodeId } = req.params as { buildingId: string; nodeId: string };
+    if (!isValidId(nodeId)) {
+      return res.status(400).json({ error: "Invalid node id." });
+    }
+    try {
+      const image = await snapshots.getImage(buildingId, nodeId);
+      if (!image) return res.status(404).json({ error: "Snapshot not found." });
+      res.setHeader("Content-Type", "image/jpeg");
+      // A pin's snapshot never changes; deleting the node deletes it
+      res.setHeader("Cache-Control", "public, max-age=86400");
+      res.send(image);
+    } catch (error) {
+      console.error("Snapshot Read Error:", error);
+      res.status(500).json({ error: "Failed to read snapshot." });
+    }
+  });
+
+  router.get("/:nodeId", async (req, res) => {
+    const { buildingId, nodeId } = req.params as { buildingId: string; nodeId: string };
+    if (!isValidId(nodeId)) {
+      return res.status(400).json({ error: "Invalid node id." });
+    }
+    try {
+      const node = await store.getNode(buildingId, nodeId);
+      if (!node) return res.status(404).json({ error: "Node not found." });
+      res.json(node);
+    } catch (error) {
+      console.error("Registry Get Error:", error);
+      res.status(500).json({ error: "Failed to read spatial registry." });
+    }
+  });
+
+  // Clients that queue pins offline send their own id, so a retried upload
+  // returns the node stored the first time instead of creating a duplicate.
+  // New pins wait in the review queue; the golden path is earned through confirmations.
+  router.post("/", async (req, res) => {
+    const { buildingId } = req.params as { buildingId: string };
+    const clientId = req.body?.id;
+    if (clientId !== undefined && !isValidId(clientId)) {
+      return res.status(400).json({ error: "Invalid node id." });
+    }
+    const parsed = parseNodeInput(buildingId, req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    let snapshot: NewNodeSnapshot | null = null;
+    if (req.body.snapshot !== undefined) {
+      const parsedSnapshot = parseSnapshotInput(req.body.snapshot);
+      if ("error" in parsedSnapshot) {
+        return res.status(400).json({ error: parsedSnapshot.error });
+      }
+      snapshot = parsedSnapshot.value;
+    }
+    try {
+      if (clientId) {
+        const existing = await store.getNode(buildingId, clientId);
+        if (existing) return res.json(existing);
+      }
+      const floorError = await checkFloor(buildingId, parsed.value.floor);
+      if (floorError) return res.status(400).json({ error: floorError });
+      const userId = currentUserId(res);
+      const node = { ...parsed.value, isGoldenPath: false, status: "pending" as const, createdBy: userId };
+      const id = await store.saveNewPath(node, clientId);
+      if (snapshot) await saveSnapshot(buildingId, id, snapshot);
+      await awardPin(userId, id);
+      res.status(201).json({ id, ...node });
+    } catch (error) {
+      console.error("Registry Save Error:", error);
+      res.status(500).json({ error: "Failed to save location to spatial registry." });
+    }
+  });
+
+  router.patch("/:nodeId", requireUserOrAdmin, async (req, res) => {
+    const { buildingId, nodeId } = req.params as { buildingId: string; nodeId: string };
+    if (!isValidId(nodeId)) {
+      return res.status(400).json({ error: "Invalid node id." });
+    }
+    const parsed = parseNodePatch(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    try {
+      const existing = await store.getNode(buildingId, nodeId);
+      if (!existing) return res.status(404).json({ error: "Node not found." });
+      if (!mayChangeNode(res, existing)) return res.status(403).json({ error: "Only the pin's author can change it." });
+      const patch = checkNodePatch(existing, parsed.value);
+      if ("error" in patch) return res.status(400).json({ error: patch.error });
+      if (patch.value.floor !== undefined) {
+        const floorError = await checkFloor(buildingId, patch.value.floor);
+        if (floorError) return res.status(400).json({ error: floorError });
+      }
+      // Earlier confirmations were of the old pin, so an author's edit is reviewed afresh
+      const rereview = !isAdmin(res) && existing.status !== "pending";
+      const node = await store.updateNode(
+        buildingId,
+        nodeId,
+        rereview ? { ...patch.value, status: "pending", isGoldenPath: false } : patch.value
+      );
+      if (!node) return res.status(404).json({ error: "Node not found." });
+      if (rereview) await store.deleteReviews(buildingId, nodeId);
+      res.json(node);
+    } catch (error) {
+      console.error("Registry Update Error:", error);
+      res.status(500).json({ error: "Failed to update spatial registry." });
+    }
+  });
+
+  router.delete("/:nodeId", requireUserOrAdmin, async (req, res) => {
+    const { buildingId, nodeId } = req.params as { buildingId: string; nodeId: string };
+    if (!isValidId(nodeId)) {
+      return res.status(400).json({ error: "Invalid node id." });
+    }
+    try {
+      const existing = await store.getNode(buildingId, nodeId);
+      if (!existing) return res.status(404).json({ error: "Node not found." });
+      if (!mayChangeNode(res, existing)) return res.status(403).json({ error: "Only the pin's author can delete it." });
+      const deleted = await store.deleteNode(buildingId, nodeId);
+      if (!deleted) return res.status(404).json({ error: "Node not found." });
+      await snapshots.delete(buildingId, nodeId);
+      if (existing.createdBy) await revokePin(existing.createdBy, nodeId);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Registry Delete Error:", error);
+      res.status(500).json({ error: "Failed to delete from spatial registry." });
+    }
+  });
+
+  return router;
+}
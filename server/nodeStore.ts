@@ -0,0 +1,105 @@
+import type { SpatialNode, SpatialRegistry } from "../src/services/registry";
+import type { NewSpatialEdge, SpatialEdge } from "../src/services/navigation";
+import type { Building, Floor } from "../src/services/buildings";
+import type { PointsEntry } from "../src/services/account";
+import type { NodeReview } from "../src/services/moderation";
+
+/** A validated node ready to store: expiry and createdAt are already resolved. */
+export type SpatialNodeInput = Omit<SpatialNode, "id">;
+export type SpatialNodePatch = Partial<Omit<SpatialNode, "id" | "buildingId" | "createdAt" | "createdBy">>;
+
+/**
+ * Server-side storage for spatial nodes. Extends the client-facing SpatialRegistry
+ * with the CRUD operations behind the /api/buildings/:id/nodes routes.
+ * searchRegistry and fetchGoldenPath skip expired and rejected nodes, and fetchGoldenPath lists only
+ * verified landmarks besides hazards; listNodes and getNode do not filter.
+ * saveNewPath generates an id unless the caller supplies one.
+ */
+export interface SpatialNodeStore extends SpatialRegistry {
+  saveNewPath(node: SpatialNodeInput, id?: string): Promise<string>;
+  listNodes(buildingId: string): Promise<SpatialNode[]>;
+  getNode(buildingId: string, id: string): Promise<SpatialNode | null>;
+  updateNode(buildingId: string, id: string, patch: SpatialNodePatch): Promise<SpatialNode | null>;
+  deleteNode(buildingId: string, id: string): Promise<boolean>;
+}
+
+/** Walkable connections between nodes, used by the route planner. */
+export interface SpatialEdgeStore {
+  listEdges(buildingId: string): Promise<SpatialEdge[]>;
+  saveEdge(edge: NewSpatialEdge): Promise<string>;
+  deleteEdge(buildingId: string, id: string): Promise<boolean>;
+}
+
+/** Buildings and their floors. Nodes reference a building id and a floor level. */
+export interface BuildingStore {
+  listBuildings(): Promise<Building[]>;
+  getBuilding(id: string): Promise<Building | null>;
+  saveBuilding(building: Building): Promise<void>;
+  saveFloor(buildingId: string, floor: Floor): Promise<void>;
+}
+
+export interface UserAccount {
+  id: string;
+  /** ISO 8601 timestamp. */
+  createdAt: string;
+}
+
+/** A ledger entry before the store assigns its id. */
+export type NewPointsEntry = Omit<PointsEntry, "id">;
+
+/** Device accounts and the Buddy Points ledger. Balances are the sum of a user's entries. */
+export interface AccountStore {
+  createUser(): Promise<UserAccount>;
+  getUser(id: string): Promise<UserAccount | null>;
+  addPoints(entry: NewPointsEntry): Promise<PointsEntry>;
+  /** Newest first. `since` is an ISO 8601 lower bound on createdAt. */
+  listPoints(userId: string, options?: { since?: string; limit?: number }): Promise<PointsEntry[]>;
+  pointsBalance(userId: string): Promise<number>;
+}
+
+/** A review before the store assigns its id. */
+export type NewNodeReview = Omit<NodeReview, "id">;
+
+/**
+ * Confirmations and disputes of community pins. Each user has at most one review
+ * per node; saving again replaces their earlier verdict.
+ */
+export interface ModerationStore {
+  saveReview(review: NewNodeReview): Promise<NodeReview>;
+  /** Oldest first. Without a node id, every review in the building. */
+  listReviews(buildingId: string, nodeId?: string): Promise<NodeReview[]>;
+  /** Newest first. */
+  listUserReviews(userId: string, limit?: number): Promise<NodeReview[]>;
+  /** Drops a node's reviews, e.g. once its author edited what they were about. */
+  deleteReviews(buildingId: string, nodeId: string): Promise<void>;
+}
+
+/** Everything a registry backend provides. Deleting a node also deletes its edges and reviews. */
+export type RegistryStore = SpatialNodeStore & SpatialEdgeStore & BuildingStore & AccountStore & ModerationStore;
+
+/** Seeded on first start so a fresh registry has somewhere to pin. */
+export const DEFAULT_BUILDING: Building = {
+  id: "utm_campus_main",
+  name: "UTM Campus Building",
+  floors: [{ level: 0, name: "Ground Floor" }]
+};
+
+export function generateEdgeId(): string {
+  return `edge_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export function generateUserId(): string {
+  return `user_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+export function generatePointsId(): string {
+  return `pts_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export function generateReviewId(): string {
+  return `review_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export function generateNodeId(): string {
+  return `node_${Math.random().toString(36).slice(2, 11)}`;
+}
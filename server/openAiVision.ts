@@ -0,0 +1,71 @@
+import { parseSceneAnalysis, type DescribeSceneRequest, type SceneAnalysis } from "../src/services/sceneAnalysis";
+import { SCENE_JSON_SHAPE, buildScenePrompt } from "./scenePrompt";
+import type { DescribeOptions, VisionProvider } from "./visionProvider";
+
+/**
+ * Any endpoint speaking the OpenAI chat completions API with image inputs:
+ * OpenAI itself, Ollama (`http://localhost:11434/v1`), vLLM, LM Studio and similar.
+ */
+export class OpenAiCompatibleVisionProvider implements VisionProvider {
+  readonly name = "openai";
+
+  constructor(private baseUrl: string, readonly model: string, private apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  async describeScene(request: DescribeSceneRequest, options: DescribeOptions = {}): Promise<SceneAnalysis> {
+    const { systemInstruction, prompt } = buildScenePrompt(request);
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      signal: options.signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { "Authorization": `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        stream: true,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: `${systemInstruction}\n\n${SCENE_JSON_SHAPE}` },
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              { type: "image_url", image_url: { url: `data:image/jpeg;base64,${request.image}` } }
+            ]
+          }
+        ]
+      })
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Vision endpoint returned ${response.status}: ${await response.text().catch(() => "")}`);
+    }
+
+    // Server-sent events: one `data: {json}` line per delta, closed by `data: [DONE]`
+    let text = "";
+    let buffered = "";
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split("\n");
+      buffered = done ? "" : lines.pop() || "";
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+        const piece: string = JSON.parse(data).choices?.[0]?.delta?.content || "";
+        if (!piece) continue;
+        text += piece;
+        options.onChunk?.(piece);
+      }
+      if (done) break;
+    }
+
+    const parsed = parseSceneAnalysis(text);
+    if ("error" in parsed) throw new Error(parsed.error);
+    return parsed.value;
+  }
+}
@@ -0,0 +1,150 @@
+import type { SpatialNode } from "../src/services/registry";
+import type { LocalizeQuery, LocalizeResponse, LocationEstimate } from "../src/services/placeRecognition";
+import type { NodeSnapshot } from "../src/services/snapshots";
+import { isNodeActive } from "../src/services/hazards";
+import { cosineSimilarity, type Embedder } from "./embeddings";
+import type { RegistryStore } from "./nodeStore";
+import type { DiskSnapshotStore } from "./snapshotStore";
+
+export interface LocalizeThresholds {
+  match: number;
+  suggest: number;
+  /** A match must beat the runner-up at another node by this much; look-alike corridors only earn a suggestion. */
+  margin: number;
+}
+
+// The frame carries most of the evidence; a shared sign is strong but not always in view
+const WEIGHTS = { visual: 0.6, signs: 0.3, description: 0.1 };
+
+const MAX_CACHED_SNAPSHOTS = 1000;
+const MAX_CACHED_EMBEDDINGS = 2000;
+// The snapshot is written just after its node, so "no snapshot" is only believed for a while
+const MISSING_SNAPSHOT_TTL_MS = 5 * 60 * 1000;
+
+/** A Map holding at most `limit` entries; the least recently used one goes first. */
+class LruCache<K, V> {
+  private entries = new Map<K, V>();
+
+  constructor(private limit: number) {}
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: K, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.limit) this.entries.delete(this.entries.keys().next().value as K);
+  }
+}
+
+interface CachedSnapshot {
+  snapshot: NodeSnapshot | null;
+  readAt: number;
+}
+
+function normalizeSign(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+// Share of the signs in view that the snapshot also read; partial reads ("LIBRAR") count when one contains the other
+function signScore(query: string[], stored: string[]): number | null {
+  const seen = query.map(normalizeSign).filter(Boolean);
+  const known = stored.map(normalizeSign).filter(Boolean);
+  if (seen.length === 0 || known.length === 0) return null;
+  const matches = seen.filter(sign =>
+    known.some(other => other === sign || (Math.min(other.length, sign.length) >= 3 && (other.includes(sign) || sign.includes(other))))
+  );
+  return matches.length / seen.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Estimates where the device is by comparing what it sees with the snapshots
+ * stored with pins: the frame's PlaceDescriptor against each snapshot's, the
+ * signs in view against the signs the pinning device read, and the scene
+ * description by embedding similarity. Only active, non-rejected landmarks
+ * that have a snapshot are candidates. Snapshots never change after the pin is
+ * saved, so they are cached once read, as are pins found to have none; both
+ * caches are bounded.
+ */
+export class PlaceRecognizer {
+  private snapshotCache = new LruCache<string, CachedSnapshot>(MAX_CACHED_SNAPSHOTS);
+  private embeddingCache = new LruCache<string, number[]>(MAX_CACHED_EMBEDDINGS);
+
+  constructor(
+    private store: RegistryStore,
+    private snapshots: DiskSnapshotStore,
+    private embedder: Embedder,
+    private thresholds: LocalizeThresholds = { match: 0.7, suggest: 0.5, margin: 0.05 }
+  ) {}
+
+  private async snapshotFor(node: SpatialNode): Promise<NodeSnapshot | null> {
+    const key = `${node.buildingId}/${node.id}`;
+    const now = Date.now();
+    const cached = this.snapshotCache.get(key);
+    if (cached && (cached.snapshot || now - cached.readAt < MISSING_SNAPSHOT_TTL_MS)) return cached.snapshot;
+    const snapshot = await this.snapshots.get(node.buildingId, node.id);
+    this.snapshotCache.set(key, { snapshot, readAt: now });
+    return snapshot;
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    const key = (text: string) => `${this.embedder.name}:${text}`;
+    // Collected here rather than read back from the cache, which may evict some of a large batch
+    const vectors = new Map(texts.map(text => [text, this.embeddingCache.get(key(text))]));
+    const missing = [...vectors].filter(([, vector]) => !vector).map(([text]) => text);
+    if (missing.length > 0) {
+      const embedded = await this.embedder.embed(missing);
+      missing.forEach((text, i) => {
+        vectors.set(text, embedded[i]);
+        this.embeddingCache.set(key(text), embedded[i]);
+      });
+    }
+    return texts.map(text => vectors.get(text)!);
+  }
+
+  async localize(buildingId: string, query: LocalizeQuery, limit: number = 3): Promise<LocalizeResponse> {
+    const nodes = (await this.store.listNodes(buildingId))
+      .filter(node => node.kind !== "hazard" && node.status !== "rejected" && isNodeActive(node));
+    const candidates = (await Promise.all(nodes.map(async node => ({ node, snapshot: await this.snapshotFor(node) }))))
+      .filter((candidate): candidate is { node: SpatialNode; snapshot: NodeSnapshot } => candidate.snapshot !== null);
+
+    let descriptionScores: number[] = candidates.map(() => 0);
+    if (query.description && candidates.length > 0) {
+      const [queryVector, ...vectors] = await this.embed([query.description, ...candidates.map(c => c.snapshot.analysis.description)]);
+      descriptionScores = vectors.map(vector => Math.max(0, cosineSimilarity(queryVector, vector)));
+    }
+
+    const scored: LocationEstimate[] = [];
+    candidates.forEach(({ node, snapshot }, i) => {
+      const visual = snapshot.descriptor ? Math.max(0, cosineSimilarity(query.descriptor, snapshot.descriptor)) : null;
+      const signs = signScore(query.signText, snapshot.signText);
+      // A description alone says "a corridor", which fits half the building
+      if (visual === null && signs === null) return;
+      let total = 0;
+      let weight = 0;
+      if (visual !== null) { total += WEIGHTS.visual * visual; weight += WEIGHTS.visual; }
+      if (signs !== null) { total += WEIGHTS.signs * signs; weight += WEIGHTS.signs; }
+      if (query.description) { total += WEIGHTS.description * descriptionScores[i]; weight += WEIGHTS.description; }
+      scored.push({ node, score: round(total / weight), visual: round(visual ?? 0), signs: signs === null ? null : round(signs) });
+    });
+
+    const results = scored.sort((a, b) => b.score - a.score).slice(0, limit);
+    const [best, runnerUp] = results;
+    const bestScore = best?.score ?? 0;
+    const ambiguous = runnerUp !== undefined && bestScore - runnerUp.score < this.thresholds.margin;
+    const confidence = bestScore >= this.thresholds.match && !ambiguous
+      ? "match"
+      : bestScore >= this.thresholds.suggest ? "suggest" : "none";
+    return { confidence, matchThreshold: this.thresholds.match, results };
+  }
+}
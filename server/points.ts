@@ -0,0 +1,87 @@
+import type { PointsEntry, PointsReason, PointsSummary } from "../src/services/account";
+import type { AccountStore } from "./nodeStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Reasons that pay; "pin_removed" only ever reverses a "pin". */
+export type PaidReason = Exclude<PointsReason, "pin_removed">;
+
+export interface PointsRule {
+  amount: number;
+  /** Minimum time between two paid events of this kind for one user. */
+  cooldownMs: number;
+  /** Paid events of this kind per user in any 24 hours. */
+  dailyLimit: number;
+}
+
+/**
+ * What each contribution earns. Scans are cheap to repeat (walk mode sends one
+ * every few seconds), so they pay little, at most twice a minute, and stop
+ * paying after 100 a day. Pins have no cooldown, since pins queued offline
+ * upload in a burst, but stop paying after 20 a day.
+ */
+export const POINTS_RULES: Record<PaidReason, PointsRule> = {
+  scan: { amount: 0.005, cooldownMs: 30_000, dailyLimit: 100 },
+  pin: { amount: 0.05, cooldownMs: 0, dailyLimit: 20 }
+};
+
+function roundPoints(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Credits Buddy Points through the ledger, applying POINTS_RULES. Awards for one
+ * user run one at a time, so parallel requests cannot both slip under a limit.
+ */
+export class PointsService {
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private store: AccountStore, private rules: Record<PaidReason, PointsRule> = POINTS_RULES) {}
+
+  /** The new ledger entry, or null when a rule says this event earns nothing. */
+  award(userId: string, reason: PaidReason, nodeId: string | null = null): Promise<PointsEntry | null> {
+    return this.serialize(userId, async () => {
+      const rule = this.rules[reason];
+      const now = new Date();
+      const recent = (await this.store.listPoints(userId, { since: new Date(now.getTime() - DAY_MS).toISOString() }))
+        .filter(entry => entry.reason === reason);
+      if (recent.length >= rule.dailyLimit) return null;
+      if (recent.length > 0 && now.getTime() - Date.parse(recent[0].createdAt) < rule.cooldownMs) return null;
+
+      return this.store.addPoints({ userId, amount: rule.amount, reason, nodeId, createdAt: now.toISOString() });
+    });
+  }
+
+  /**
+   * Takes back what a pin earned, so pinning, deleting and pinning again does not
+   * pay twice. The removed pin still counts toward the day's pin limit.
+   * The reversing entry, or null when the pin earned nothing.
+   */
+  revokePin(userId: string, nodeId: string): Promise<PointsEntry | null> {
+    return this.serialize(userId, async () => {
+      const earned = roundPoints((await this.store.listPoints(userId))
+        .filter(entry => entry.nodeId === nodeId && (entry.reason === "pin" || entry.reason === "pin_removed"))
+        .reduce((sum, entry) => sum + entry.amount, 0));
+      if (earned <= 0) return null;
+      return this.store.addPoints({ userId, amount: -earned, reason: "pin_removed", nodeId, createdAt: new Date().toISOString() });
+    });
+  }
+
+  async summary(userId: string, limit: number = 20): Promise<PointsSummary> {
+    const [balance, entries] = await Promise.all([
+      this.store.pointsBalance(userId),
+      this.store.listPoints(userId, { limit })
+    ]);
+    return { userId, balance: roundPoints(balance), entries };
+  }
+
+  private serialize<T>(userId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(userId) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.queues.set(userId, run);
+    run.finally(() => {
+      if (this.queues.get(userId) === run) this.queues.delete(userId);
+    }).catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,59 @@
+import type { Request, RequestHandler } from "express";
+
+/** Header the client sends with a random per-tab id so limits follow the session, not the network. */
+export const SESSION_HEADER = "x-session-id";
+
+const SESSION_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export interface RateLimitOptions {
+  /** Label used in the 429 message and logs. */
+  name: string;
+  windowMs: number;
+  /** Requests allowed per session in one window. */
+  maxPerSession: number;
+  /** Requests allowed per client IP, so rotating session ids does not lift the limit. */
+  maxPerIp: number;
+}
+
+function sessionKey(req: Request): string | null {
+  const session = req.header(SESSION_HEADER);
+  return session && SESSION_PATTERN.test(session) ? session : null;
+}
+
+/**
+ * In-memory sliding-window limiter. Good enough for a single server process;
+ * counts reset on restart.
+ */
+export function createRateLimiter(options: RateLimitOptions): RequestHandler {
+  const hits = new Map<string, number[]>();
+
+  const take = (key: string, max: number, now: number): number | null => {
+    const recent = (hits.get(key) || []).filter(t => now - t < options.windowMs);
+    if (recent.length >= max) {
+      hits.set(key, recent);
+      return recent[0] + options.windowMs - now;
+    }
+    recent.push(now);
+    hits.set(key, recent);
+    return null;
+  };
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, times] of hits) {
+      if (times.every(t => now - t >= options.windowMs)) hits.delete(key);
+    }
+  }, options.windowMs);
+  sweep.unref();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const session = sessionKey(req);
+    const waitMs = take(`ip:${req.ip}`, options.maxPerIp, now) ??
+      (session ? take(`session:${session}`, options.maxPerSession, now) : null);
+    if (waitMs === null) return next();
+
+    res.setHeader("Retry-After", String(Math.ceil(waitMs / 1000)));
+    res.status(429).json({ error: `Too many ${options.name} requests. Try again shortly.` });
+  };
+}
@@ -0,0 +1,127 @@
+import type { SpatialNode } from "../src/services/registry";
+import type { RouteOptions, RoutePlan, RouteStep, SpatialEdge, TurnDirection } from "../src/services/navigation";
+import { isNodeActive } from "../src/services/hazards";
+
+interface Neighbor {
+  nodeId: string;
+  edge: SpatialEdge;
+}
+
+function buildAdjacency(edges: SpatialEdge[], options: RouteOptions): Map<string, Neighbor[]> {
+  const adjacency = new Map<string, Neighbor[]>();
+  const link = (from: string, to: string, edge: SpatialEdge) => {
+    if (!adjacency.has(from)) adjacency.set(from, []);
+    adjacency.get(from)!.push({ nodeId: to, edge });
+  };
+
+  for (const edge of edges) {
+    if (options.avoidStairs && edge.hasStairs) continue;
+    link(edge.fromNodeId, edge.toNodeId, edge);
+    if (edge.bidirectional) link(edge.toNodeId, edge.fromNodeId, edge);
+  }
+  return adjacency;
+}
+
+// Floor-plan coordinates: x grows to the east, y to the north, so a positive angle is a left turn
+function turnBetween(prev: SpatialNode, current: SpatialNode, next: SpatialNode): TurnDirection {
+  const headingIn = Math.atan2(current.coordinates.y - prev.coordinates.y, current.coordinates.x - prev.coordinates.x);
+  const headingOut = Math.atan2(next.coordinates.y - current.coordinates.y, next.coordinates.x - current.coordinates.x);
+  let degrees = ((headingOut - headingIn) * 180) / Math.PI;
+  if (degrees > 180) degrees -= 360;
+  if (degrees < -180) degrees += 360;
+
+  const magnitude = Math.abs(degrees);
+  if (magnitude < 20) return "straight";
+  const side = degrees > 0 ? "left" : "right";
+  if (magnitude < 60) return `slight_${side}`;
+  if (magnitude < 135) return side;
+  return `sharp_${side}`;
+}
+
+/**
+ * Dijkstra over the registry graph. Rejected pins are left out entirely, active hazard
+ * nodes are never used as waypoints (they may still be the start or the destination),
+ * and stairs edges are skipped when options.avoidStairs is set. Edges between nodes
+ * on different floors are the floor transitions. Steps are structured (turn, distance, target, floor) and the
+ * client words them in the user's language. Returns null when no route exists.
+ */
+export function planRoute(
+  nodes: SpatialNode[],
+  edges: SpatialEdge[],
+  fromNodeId: string,
+  toNodeId: string,
+  options: RouteOptions = {}
+): RoutePlan | null {
+  // Rejected pins were reported as wrong, so routes neither use nor lead to them
+  const nodesById = new Map(nodes.filter(n => n.status !== "rejected").map(n => [n.id, n]));
+  if (!nodesById.has(fromNodeId) || !nodesById.has(toNodeId)) return null;
+
+  const now = new Date();
+  const blocked = new Set(
+    nodes
+      .filter(n => n.kind === "hazard" && isNodeActive(n, now) && n.id !== fromNodeId && n.id !== toNodeId)
+      .map(n => n.id)
+  );
+
+  const adjacency = buildAdjacency(edges, options);
+  const distances = new Map<string, number>([[fromNodeId, 0]]);
+  const previous = new Map<string, Neighbor & { from: string }>();
+  const visited = new Set<string>();
+
+  while (true) {
+    // The registry graph is small (one building), so a linear scan beats maintaining a heap
+    let current: string | null = null;
+    for (const [id, distance] of distances) {
+      if (!visited.has(id) && (current === null || distance < distances.get(current)!)) current = id;
+    }
+    if (current === null || current === toNodeId) break;
+    visited.add(current);
+
+    for (const neighbor of adjacency.get(current) || []) {
+      if (blocked.has(neighbor.nodeId) || !nodesById.has(neighbor.nodeId)) continue;
+      const candidate = distances.get(current)! + neighbor.edge.distanceMeters;
+      if (candidate < (distances.get(neighbor.nodeId) ?? Infinity)) {
+        distances.set(neighbor.nodeId, candidate);
+        previous.set(neighbor.nodeId, { ...neighbor, from: current });
+      }
+    }
+  }
+
+  if (!distances.has(toNodeId)) return null;
+
+  const hops: (Neighbor & { from: string })[] = [];
+  for (let id = toNodeId; id !== fromNodeId; id = previous.get(id)!.from) {
+    hops.unshift(previous.get(id)!);
+  }
+
+  const steps: RouteStep[] = hops.map((hop, i) => {
+    const from = nodesById.get(hop.from)!;
+    const to = nodesById.get(hop.nodeId)!;
+    const prev = i === 0 ? null : nodesById.get(hops[i - 1].from)!;
+    // Headings only compare within one floor; the first step after a floor change starts fresh
+    const turn: TurnDirection = !prev || prev.floor !== from.floor || from.floor !== to.floor
+      ? "start"
+      : turnBetween(prev, from, to);
+    const via = hop.edge.hasElevator ? "elevator" : hop.edge.hasStairs ? "stairs" : hop.edge.hasRamp ? "ramp" : "walk";
+    return {
+      fromNodeId: from.id,
+      toNodeId: to.id,
+      toDescription: to.description,
+      toFloor: to.floor,
+      toCoordinates: to.coordinates,
+      distanceMeters: hop.edge.distanceMeters,
+      turn,
+      via
+    };
+  });
+
+  const start = nodesById.get(fromNodeId)!;
+  return {
+    fromNodeId,
+    toNodeId,
+    fromCoordinates: start.coordinates,
+    fromFloor: start.floor,
+    totalDistanceMeters: distances.get(toNodeId)!,
+    steps
+  };
+}
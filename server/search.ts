@@ -0,0 +1,145 @@
+import type { ScoredNode, SearchResponse, SpatialNode } from "../src/services/registry";
+import { isNodeActive } from "../src/services/hazards";
+import { cosineSimilarity, type Embedder } from "./embeddings";
+
+// Words in one group name the same kind of place; the first word is the canonical form
+const SYNONYM_GROUPS: string[][] = [
+  ["restroom", "washroom", "toilet", "bathroom", "lavatory", "wc", "loo", "restrooms", "washrooms", "toilets", "bathrooms"],
+  ["exit", "way out", "emergency exit", "egress"],
+  ["entrance", "entry", "way in", "doors", "door", "lobby"],
+  ["elevator", "lift", "elevators", "lifts"],
+  ["stairs", "staircase", "stairwell", "steps", "stair"],
+  ["cafeteria", "canteen", "food court", "cafe", "coffee", "dining hall"],
+  ["library", "books", "reading room"],
+  ["information", "info desk", "help desk", "reception", "front desk", "information desk"],
+  ["classroom", "lecture hall", "room", "class"],
+  ["water fountain", "drinking fountain", "water"],
+  ["parking", "car park", "garage"],
+  ["ramp", "accessible entrance", "wheelchair ramp"]
+];
+
+const LEADING_PHRASES = [
+  "can you tell me where", "could you tell me where", "can you help me find", "help me find", "how do i get to",
+  "how do i find", "take me to the", "take me to", "guide me to", "navigate to", "go to", "i'm looking for",
+  "im looking for", "i am looking for", "looking for", "i need to find", "i need", "i want to go to", "where is",
+  "where's", "wheres", "where are", "is there", "show me", "find me", "find"
+];
+
+const FILLER_WORDS = new Set(["the", "a", "an", "nearest", "closest", "some", "any", "please", "located", "here", "around", "me"]);
+
+function canonicalize(text: string): string {
+  let result = ` ${text.toLowerCase()} `;
+  for (const group of SYNONYM_GROUPS) {
+    for (const synonym of [...group].sort((a, b) => b.length - a.length)) {
+      result = result.replace(new RegExp(`(?<=[^\\p{L}\\p{N}])${synonym}(?=[^\\p{L}\\p{N}])`, "gu"), group[0]);
+    }
+  }
+  return result.trim();
+}
+
+function tokens(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(t => t && !FILLER_WORDS.has(t));
+}
+
+/** Pulls the place out of a spoken request: "where is the washroom?" -> "washroom". */
+export function extractTargetPhrase(utterance: string): string {
+  let phrase = utterance.toLowerCase().replace(/[?!.,¿¡]/g, " ").replace(/\s+/g, " ").trim();
+  for (const lead of LEADING_PHRASES) {
+    const index = phrase.indexOf(lead);
+    if (index !== -1) {
+      phrase = phrase.slice(index + lead.length).trim();
+      break;
+    }
+  }
+  const remaining = tokens(phrase);
+  return remaining.length > 0 ? remaining.join(" ") : utterance.trim().toLowerCase();
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// 1 for an exact word (ignoring plural "s"), 0.7 for a likely misspelling or mis-transcription
+function wordMatch(word: string, candidates: Set<string>): number {
+  if (candidates.has(word)) return 1;
+  if (word.length < 4) return 0;
+  const allowed = word.length >= 7 ? 2 : 1;
+  for (const candidate of candidates) {
+    if (Math.abs(candidate.length - word.length) <= allowed && editDistance(word, candidate) <= allowed) return 0.7;
+  }
+  return 0;
+}
+
+// Share of target words found in the description after synonym folding
+function lexicalScore(targetTokens: string[], description: string): number {
+  if (targetTokens.length === 0) return 0;
+  const descriptionTokens = new Set(tokens(canonicalize(description)).map(t => t.replace(/s$/, "")));
+  const hits = targetTokens.reduce((sum, t) => sum + wordMatch(t.replace(/s$/, ""), descriptionTokens), 0);
+  return hits / targetTokens.length;
+}
+
+export interface SearchThresholds {
+  match: number;
+  suggest: number;
+}
+
+/**
+ * Ranks a building's active nodes against a spoken request by combining synonym-aware
+ * word overlap with embedding similarity. Expired and rejected nodes are never returned;
+ * equal scores keep the order the nodes were passed in. Node embeddings are cached by description.
+ */
+export class NodeSearchService {
+  private cache = new Map<string, number[]>();
+
+  constructor(
+    private embedder: Embedder,
+    private thresholds: SearchThresholds = { match: 0.6, suggest: 0.3 }
+  ) {}
+
+  private async embedDescriptions(descriptions: string[]): Promise<number[][]> {
+    const key = (d: string) => `${this.embedder.name}:${d}`;
+    const missing = [...new Set(descriptions.filter(d => !this.cache.has(key(d))))];
+    if (missing.length > 0) {
+      const vectors = await this.embedder.embed(missing.map(canonicalize));
+      missing.forEach((d, i) => this.cache.set(key(d), vectors[i]));
+    }
+    return descriptions.map(d => this.cache.get(key(d))!);
+  }
+
+  async search(query: string, nodes: SpatialNode[], limit: number = 5): Promise<SearchResponse> {
+    const target = extractTargetPhrase(query);
+    const candidates = nodes.filter(n => n.status !== "rejected" && isNodeActive(n));
+    const base = { query, target, matchThreshold: this.thresholds.match };
+    if (candidates.length === 0) {
+      return { ...base, confidence: "none", results: [] };
+    }
+
+    const canonicalTarget = canonicalize(target);
+    const targetTokens = tokens(canonicalTarget);
+    const [targetVector] = await this.embedder.embed([canonicalTarget]);
+    const nodeVectors = await this.embedDescriptions(candidates.map(n => n.description));
+
+    const results: ScoredNode[] = candidates
+      .map((node, i) => {
+        const semantic = Math.max(0, cosineSimilarity(targetVector, nodeVectors[i]));
+        const score = 0.6 * lexicalScore(targetTokens, node.description) + 0.4 * semantic;
+        return { node, score: Math.round(score * 1000) / 1000 };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    const best = results[0]?.score ?? 0;
+    const confidence = best >= this.thresholds.match ? "match" : best >= this.thresholds.suggest ? "suggest" : "none";
+    return { ...base, confidence, results };
+  }
+}
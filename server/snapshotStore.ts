@@ -0,0 +1,50 @@
+import { existsSync, mkdirSync } from "fs";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { NodeSnapshot } from "../src/services/snapshots";
+
+/**
+ * Pin snapshots on disk: `<directory>/<buildingId>/<nodeId>.jpg` for the thumbnail
+ * and `<nodeId>.json` for the NodeSnapshot. Ids are validated by the routes,
+ * so they are safe to use as path segments.
+ */
+export class DiskSnapshotStore {
+  constructor(private directory: string) {
+    if (!existsSync(directory)) mkdirSync(directory, { recursive: true });
+  }
+
+  private file(buildingId: string, nodeId: string, extension: "jpg" | "json"): string {
+    return path.join(this.directory, buildingId, `${nodeId}.${extension}`);
+  }
+
+  async put(snapshot: NodeSnapshot, image: Buffer): Promise<void> {
+    const { buildingId, nodeId } = snapshot;
+    await mkdir(path.join(this.directory, buildingId), { recursive: true });
+    await writeFile(this.file(buildingId, nodeId, "jpg"), image);
+    // Metadata last: a snapshot counts as stored once its JSON exists
+    await writeFile(this.file(buildingId, nodeId, "json"), JSON.stringify(snapshot));
+  }
+
+  async get(buildingId: string, nodeId: string): Promise<NodeSnapshot | null> {
+    try {
+      return JSON.parse(await readFile(this.file(buildingId, nodeId, "json"), "utf8"));
+    } catch {
+      return null;
+    }
+  }
+
+  async getImage(buildingId: string, nodeId: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.file(buildingId, nodeId, "jpg"));
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(buildingId: string, nodeId: string): Promise<void> {
+    await Promise.all([
+      rm(this.file(buildingId, nodeId, "json"), { force: true }),
+      rm(this.file(buildingId, nodeId, "jpg"), { force: true })
+    ]);
+  }
+}
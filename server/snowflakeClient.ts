@@ -0,0 +1,142 @@
+export interface SnowflakeResponse {
+  status: number;
+  data: any;
+}
+
+export type SnowflakeBinding = string | number | boolean | null;
+
+// Per-query request logging, for diagnosing connection setup; off by default
+const DEBUG = process.env.SNOWFLAKE_DEBUG === "true";
+
+function bindingType(value: SnowflakeBinding): string {
+  // FIXED keeps integers (floors, limits, counts) exact; REAL is only for fractions
+  if (typeof value === "number") return Number.isInteger(value) ? "FIXED" : "REAL";
+  return typeof value === "boolean" ? "BOOLEAN" : "TEXT";
+}
+
+function toSnowflakeBindings(values: SnowflakeBinding[]) {
+  const bindings: Record<string, { type: string; value: string | null }> = {};
+  values.forEach((value, i) => {
+    const type = bindingType(value);
+    bindings[String(i + 1)] = { type, value: value === null ? null : String(value) };
+  });
+  return bindings;
+}
+
+/**
+ * Runs one statement through the Snowflake SQL API. Positional `?` placeholders are
+ * filled from `bindings`, so callers never splice user input into SQL text.
+ * Error responses carry `error` and `hint` fields explaining common setup mistakes.
+ */
+export async function executeSnowflakeStatement(sql: string, bindings: SnowflakeBinding[] = []): Promise<SnowflakeResponse> {
+  let account = process.env.SNOWFLAKE_ACCOUNT || "";
+  const token = process.env.SNOWFLAKE_TOKEN;
+  const database = process.env.SNOWFLAKE_DATABASE;
+  const schema = process.env.SNOWFLAKE_SCHEMA;
+  const warehouse = process.env.SNOWFLAKE_WAREHOUSE;
+  const role = process.env.SNOWFLAKE_ROLE;
+
+  // Sanitize account: Remove https:// and .snowflakecomputing.com if present
+  account = account.replace(/^https?:\/\//, "").replace(/\.snowflakecomputing\.com\/?$/, "");
+
+  if (!account || !token) {
+    return { status: 500, data: { error: "Snowflake credentials missing in environment." } };
+  }
+
+  // Detect token type: JWTs usually start with 'ey'
+  const isJwt = token.startsWith("ey");
+  // Only send the header if it's a JWT. For other tokens, Snowflake can usually infer it.
+  // If it's an OAuth token and fails, the user may need to explicitly set this.
+  const tokenType = isJwt ? "JWT" : null;
+
+  const snowflakeUrl = `https://${account}.snowflakecomputing.com/api/v2/statements`;
+  if (DEBUG) console.log(`Executing Snowflake SQL on: ${snowflakeUrl} using ${tokenType}`);
+
+  // Check for common locator-only mistake
+  if (account.length === 7 && !account.includes(".") && !account.includes("-")) {
+    console.warn("WARNING: Your SNOWFLAKE_ACCOUNT looks like a locator (e.g., UF75979) without a region. This will likely fail with a 404.");
+  }
+
+  const headers: Record<string, string> = {
+    "Authorization": `Bearer ${token}`,
+    "Content-Type": "application/json",
+    "Accept": "application/json",
+  };
+
+  const body: any = {
+    statement: sql,
+    timeout: 60
+  };
+
+  if (bindings.length > 0) body.bindings = toSnowflakeBindings(bindings);
+  if (database) body.database = database;
+  if (schema) body.schema = schema;
+  if (warehouse) body.warehouse = warehouse;
+  if (role) body.role = role;
+
+  try {
+    const response = await fetch(snowflakeUrl, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body)
+    });
+
+    const contentType = response.headers.get("content-type");
+    if (contentType && contentType.includes("application/json")) {
+      const data = await response.json();
+      if (DEBUG) console.log("Snowflake Response Status:", response.status);
+      if (response.status >= 400) {
+        console.error("Snowflake API Error Detail:", JSON.stringify(data, null, 2));
+        // Extract the actual message from Snowflake if available
+        const errorMsg = data.message || data.error || "Snowflake API Error";
+        let hint = response.status === 400 ? "\n\nHint: This often means the SQL is invalid or the table doesn't exist yet. If you haven't pinned any locations, this is normal." : "";
+
+        if (errorMsg.includes("warehouse")) {
+          hint = "\n\nHint: Your Snowflake request failed because no warehouse was specified or the specified warehouse is invalid. Please check your SNOWFLAKE_WAREHOUSE environment variable.";
+        } else if (errorMsg.includes("database") || errorMsg.includes("schema")) {
+          hint = "\n\nHint: Your Snowflake request failed because the database or schema was not found. Please check your SNOWFLAKE_DATABASE and SNOWFLAKE_SCHEMA environment variables.";
+        } else if (errorMsg.includes("X-Snowflake-Authorization-Token-Type")) {
+          hint = "\n\nHint: Snowflake rejected the authorization header type. This can happen with some OAuth providers. The app will try to adapt, but you may need to check your token type.";
+        }
+
+        return {
+          status: response.status,
+          data: {
+            ...data,
+            error: errorMsg,
+            hint: hint + (data.hint || "")
+          }
+        };
+      }
+      return { status: response.status, data };
+    }
+
+    const text = await response.text();
+    console.error(`Snowflake Non-JSON Error (${response.status}):`, text.substring(0, 1000));
+
+    let hint = "Snowflake returned a non-JSON response. Check your SNOWFLAKE_ACCOUNT and SNOWFLAKE_TOKEN.";
+    if (response.status === 401) {
+      hint = "Authentication failed (401). Your SNOWFLAKE_TOKEN is invalid or expired.";
+    } else if (response.status === 403) {
+      hint = "Forbidden (403). Your token might not have permission to use the SQL API, or your IP might be blocked by Snowflake Network Policies.";
+    } else if (response.status === 404) {
+      hint = `Snowflake returned a 404. The account identifier "${account}" might be incorrect.`;
+    }
+    if (text.includes("ErrorContainer")) hint = "Snowflake returned a branded error page. This usually means the URL is valid but the request was rejected (e.g., IP blocking or invalid credentials).";
+
+    if (DEBUG) console.log(`DEBUG: Failed URL was ${snowflakeUrl}`);
+
+    return {
+      status: response.status,
+      data: {
+        error: "Snowflake returned an HTML error page instead of JSON.",
+        status: response.status,
+        hint,
+        detail: text.substring(0, 200)
+      }
+    };
+  } catch (error) {
+    console.error("Snowflake API Error:", error);
+    return { status: 500, data: { error: "Failed to communicate with Snowflake." } };
+  }
+}
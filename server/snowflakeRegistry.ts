@@ -0,0 +1,404 @@
+import type { SpatialNode } from "../src/services/registry";
+import type { NewSpatialEdge, SpatialEdge } from "../src/services/navigation";
+import type { Building, Floor } from "../src/services/buildings";
+import type { PointsEntry } from "../src/services/account";
+import type { NodeReview } from "../src/services/moderation";
+import {
+  DEFAULT_BUILDING,
+  generateEdgeId,
+  generateNodeId,
+  generatePointsId,
+  generateReviewId,
+  generateUserId,
+  type NewNodeReview,
+  type NewPointsEntry,
+  type RegistryStore,
+  type SpatialNodeInput,
+  type SpatialNodePatch,
+  type UserAccount
+} from "./nodeStore";
+import { executeSnowflakeStatement, type SnowflakeBinding } from "./snowflakeClient";
+
+const NODE_COLUMNS = "ID, BUILDING_ID, COORDINATES, DESCRIPTION, IS_GOLDEN_PATH, KIND, SEVERITY, CATEGORY, CREATED_AT, EXPIRES_AT, FLOOR, STATUS, CREATED_BY";
+
+const EDGE_COLUMNS = "ID, BUILDING_ID, FROM_NODE_ID, TO_NODE_ID, DISTANCE_M, BIDIRECTIONAL, HAS_STAIRS, HAS_RAMP, HAS_ELEVATOR, WHEELCHAIR_ACCESSIBLE, TACTILE_PAVING";
+
+const POINTS_COLUMNS = "ID, USER_ID, AMOUNT, REASON, NODE_ID, CREATED_AT";
+
+const REVIEW_COLUMNS = "ID, BUILDING_ID, NODE_ID, USER_ID, VERDICT, WEIGHT, NOTE, CREATED_AT";
+
+const ACTIVE = "(EXPIRES_AT IS NULL OR EXPIRES_AT > ?) AND STATUS <> 'rejected'";
+
+// Creates the tables added after SPATIAL_REGISTRY and brings older SPATIAL_REGISTRY layouts up to date
+const MIGRATIONS = [
+  `CREATE TABLE IF NOT EXISTS SPATIAL_EDGES (
+    ID STRING,
+    BUILDING_ID STRING,
+    FROM_NODE_ID STRING,
+    TO_NODE_ID STRING,
+    DISTANCE_M FLOAT,
+    BIDIRECTIONAL BOOLEAN,
+    HAS_STAIRS BOOLEAN,
+    HAS_RAMP BOOLEAN,
+    HAS_ELEVATOR BOOLEAN,
+    WHEELCHAIR_ACCESSIBLE BOOLEAN,
+    TACTILE_PAVING BOOLEAN
+  )`,
+  "CREATE TABLE IF NOT EXISTS BUILDINGS (ID STRING, NAME STRING)",
+  "CREATE TABLE IF NOT EXISTS BUILDING_FLOORS (BUILDING_ID STRING, LEVEL INTEGER, NAME STRING)",
+  "CREATE TABLE IF NOT EXISTS USERS (ID STRING, CREATED_AT STRING)",
+  "CREATE TABLE IF NOT EXISTS POINTS_LEDGER (ID STRING, USER_ID STRING, AMOUNT FLOAT, REASON STRING, NODE_ID STRING, CREATED_AT STRING)",
+  "CREATE TABLE IF NOT EXISTS NODE_REVIEWS (ID STRING, BUILDING_ID STRING, NODE_ID STRING, USER_ID STRING, VERDICT STRING, WEIGHT FLOAT, NOTE STRING, CREATED_AT STRING)",
+  "ALTER TABLE SPATIAL_REGISTRY ADD COLUMN IF NOT EXISTS KIND STRING",
+  "ALTER TABLE SPATIAL_REGISTRY ADD COLUMN IF NOT EXISTS SEVERITY STRING",
+  "ALTER TABLE SPATIAL_REGISTRY ADD COLUMN IF NOT EXISTS CATEGORY STRING",
+  "ALTER TABLE SPATIAL_REGISTRY ADD COLUMN IF NOT EXISTS CREATED_AT STRING",
+  "ALTER TABLE SPATIAL_REGISTRY ADD COLUMN IF NOT EXISTS EXPIRES_AT STRING",
+  "ALTER TABLE SPATIAL_REGISTRY ADD COLUMN IF NOT EXISTS FLOOR INTEGER DEFAULT 0",
+  "ALTER TABLE SPATIAL_REGISTRY ADD COLUMN IF NOT EXISTS STATUS STRING",
+  "ALTER TABLE SPATIAL_REGISTRY ADD COLUMN IF NOT EXISTS CREATED_BY STRING",
+  "UPDATE SPATIAL_REGISTRY SET KIND = 'hazard', CATEGORY = 'other', SEVERITY = 'medium' WHERE KIND IS NULL AND LOWER(DESCRIPTION) LIKE 'hazard:%'",
+  "UPDATE SPATIAL_REGISTRY SET KIND = 'landmark' WHERE KIND IS NULL",
+  "UPDATE SPATIAL_REGISTRY SET CREATED_AT = TO_VARCHAR(SYSDATE(), 'YYYY-MM-DD\"T\"HH24:MI:SS.FF3\"Z\"') WHERE CREATED_AT IS NULL",
+  // Nodes from before moderation were curated by hand, so they count as verified
+  "UPDATE SPATIAL_REGISTRY SET STATUS = 'verified' WHERE STATUS IS NULL"
+];
+
+function toBoolean(value: unknown): boolean {
+  return value === true || String(value).toLowerCase() === "true";
+}
+
+function rowToEdge(row: any[]): SpatialEdge {
+  return {
+    id: row[0],
+    buildingId: row[1],
+    fromNodeId: row[2],
+    toNodeId: row[3],
+    distanceMeters: Number(row[4]),
+    bidirectional: toBoolean(row[5]),
+    hasStairs: toBoolean(row[6]),
+    hasRamp: toBoolean(row[7]),
+    hasElevator: toBoolean(row[8]),
+    wheelchairAccessible: toBoolean(row[9]),
+    tactilePaving: toBoolean(row[10])
+  };
+}
+
+function rowToPoints(row: any[]): PointsEntry {
+  return {
+    id: row[0],
+    userId: row[1],
+    amount: Number(row[2]),
+    reason: row[3],
+    nodeId: row[4] || null,
+    createdAt: row[5]
+  };
+}
+
+function rowToReview(row: any[]): NodeReview {
+  return {
+    id: row[0],
+    buildingId: row[1],
+    nodeId: row[2],
+    userId: row[3],
+    verdict: row[4],
+    weight: Number(row[5]),
+    note: row[6] || null,
+    createdAt: row[7]
+  };
+}
+
+function rowToNode(row: any[]): SpatialNode {
+  return {
+    id: row[0],
+    buildingId: row[1],
+    coordinates: JSON.parse(row[2]),
+    floor: Number(row[10] || 0),
+    description: row[3],
+    isGoldenPath: toBoolean(row[4]),
+    kind: row[5] || "landmark",
+    severity: row[6] || null,
+    category: row[7] || null,
+    createdAt: row[8],
+    expiresAt: row[9] || null,
+    status: row[11] || "verified",
+    createdBy: row[12] || null
+  };
+}
+
+/**
+ * Snowflake Spatial Registry
+ * Server-side access to SPATIAL_REGISTRY through the SQL API, using bound parameters only.
+ */
+export class SnowflakeSpatialRegistry implements RegistryStore {
+  private tableReady: Promise<void> | null = null;
+
+  private async query(sql: string, bindings: SnowflakeBinding[] = []): Promise<any> {
+    await this.ensureTable();
+    return this.run(sql, bindings);
+  }
+
+  private async run(sql: string, bindings: SnowflakeBinding[]): Promise<any> {
+    const { status, data } = await executeSnowflakeStatement(sql, bindings);
+    if (status >= 400) {
+      const hint = data.hint ? `\nHint: ${data.hint}` : "";
+      throw new Error(`Snowflake Error ${status}: ${data.error || data.message || "Unknown Snowflake error"}${hint}`);
+    }
+    return data;
+  }
+
+  // Ensure table exists first (Ghostwriter auto-setup)
+  private ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.run(`CREATE TABLE IF NOT EXISTS SPATIAL_REGISTRY (
+        ID STRING,
+        BUILDING_ID STRING,
+        COORDINATES STRING,
+        DESCRIPTION STRING,
+        IS_GOLDEN_PATH BOOLEAN,
+        KIND STRING,
+        SEVERITY STRING,
+        CATEGORY STRING,
+        CREATED_AT STRING,
+        EXPIRES_AT STRING,
+        FLOOR INTEGER DEFAULT 0,
+        STATUS STRING,
+        CREATED_BY STRING
+      )`, []).then(async () => {
+        for (const statement of MIGRATIONS) {
+          await this.run(statement, []);
+        }
+        const count = await this.run("SELECT COUNT(*) FROM BUILDINGS", []);
+        if (Number(count.data?.[0]?.[0] || 0) === 0) {
+          await this.upsertBuilding(DEFAULT_BUILDING);
+        }
+      }).catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+    return this.tableReady;
+  }
+
+  // Uses run() rather than query() because it is called from inside ensureTable
+  private async upsertBuilding(building: Building): Promise<void> {
+    await this.run(
+      `MERGE INTO BUILDINGS t USING (SELECT ? AS ID, ? AS NAME) s ON t.ID = s.ID
+       WHEN MATCHED THEN UPDATE SET NAME = s.NAME
+       WHEN NOT MATCHED THEN INSERT (ID, NAME) VALUES (s.ID, s.NAME)`,
+      [building.id, building.name]
+    );
+    for (const floor of building.floors) {
+      await this.upsertFloor(building.id, floor);
+    }
+  }
+
+  private async upsertFloor(buildingId: string, floor: Floor): Promise<void> {
+    await this.run(
+      `MERGE INTO BUILDING_FLOORS t USING (SELECT ? AS BUILDING_ID, ? AS LEVEL, ? AS NAME) s
+       ON t.BUILDING_ID = s.BUILDING_ID AND t.LEVEL = s.LEVEL
+       WHEN MATCHED THEN UPDATE SET NAME = s.NAME
+       WHEN NOT MATCHED THEN INSERT (BUILDING_ID, LEVEL, NAME) VALUES (s.BUILDING_ID, s.LEVEL, s.NAME)`,
+      [buildingId, floor.level, floor.name]
+    );
+  }
+
+  async searchRegistry(query: string, buildingId: string): Promise<SpatialNode[]> {
+    const data = await this.query(
+      `SELECT ${NODE_COLUMNS} FROM SPATIAL_REGISTRY WHERE BUILDING_ID = ? AND CONTAINS(LOWER(DESCRIPTION), ?) AND ${ACTIVE}`,
+      [buildingId, query.toLowerCase(), new Date().toISOString()]
+    );
+    return (data.data || []).map(rowToNode);
+  }
+
+  async fetchGoldenPath(buildingId: string): Promise<SpatialNode[]> {
+    const data = await this.query(
+      `SELECT ${NODE_COLUMNS} FROM SPATIAL_REGISTRY
+       WHERE BUILDING_ID = ? AND ((IS_GOLDEN_PATH = TRUE AND STATUS = 'verified') OR KIND = 'hazard') AND ${ACTIVE}`,
+      [buildingId, new Date().toISOString()]
+    );
+    return (data.data || []).map(rowToNode);
+  }
+
+  async saveNewPath(node: SpatialNodeInput, id: string = generateNodeId()): Promise<string> {
+    await this.query(
+      `INSERT INTO SPATIAL_REGISTRY (${NODE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id, node.buildingId, JSON.stringify(node.coordinates), node.description, node.isGoldenPath,
+        node.kind, node.severity, node.category, node.createdAt, node.expiresAt, node.floor, node.status, node.createdBy
+      ]
+    );
+    return id;
+  }
+
+  async listNodes(buildingId: string): Promise<SpatialNode[]> {
+    const data = await this.query(`SELECT ${NODE_COLUMNS} FROM SPATIAL_REGISTRY WHERE BUILDING_ID = ?`, [buildingId]);
+    return (data.data || []).map(rowToNode);
+  }
+
+  async getNode(buildingId: string, id: string): Promise<SpatialNode | null> {
+    const data = await this.query(
+      `SELECT ${NODE_COLUMNS} FROM SPATIAL_REGISTRY WHERE BUILDING_ID = ? AND ID = ?`,
+      [buildingId, id]
+    );
+    const row = (data.data || [])[0];
+    return row ? rowToNode(row) : null;
+  }
+
+  async updateNode(buildingId: string, id: string, patch: SpatialNodePatch): Promise<SpatialNode | null> {
+    const existing = await this.getNode(buildingId, id);
+    if (!existing) return null;
+
+    const updated: SpatialNode = { ...existing, ...patch };
+    await this.query(
+      `UPDATE SPATIAL_REGISTRY
+       SET COORDINATES = ?, DESCRIPTION = ?, IS_GOLDEN_PATH = ?, KIND = ?, SEVERITY = ?, CATEGORY = ?, EXPIRES_AT = ?, FLOOR = ?, STATUS = ?
+       WHERE BUILDING_ID = ? AND ID = ?`,
+      [
+        JSON.stringify(updated.coordinates), updated.description, updated.isGoldenPath,
+        updated.kind, updated.severity, updated.category, updated.expiresAt, updated.floor, updated.status, buildingId, id
+      ]
+    );
+    return updated;
+  }
+
+  async deleteNode(buildingId: string, id: string): Promise<boolean> {
+    await this.query(
+      `DELETE FROM SPATIAL_EDGES WHERE BUILDING_ID = ? AND (FROM_NODE_ID = ? OR TO_NODE_ID = ?)`,
+      [buildingId, id, id]
+    );
+    await this.query(`DELETE FROM NODE_REVIEWS WHERE BUILDING_ID = ? AND NODE_ID = ?`, [buildingId, id]);
+    const data = await this.query(`DELETE FROM SPATIAL_REGISTRY WHERE BUILDING_ID = ? AND ID = ?`, [buildingId, id]);
+    return Number(data.stats?.numRowsDeleted || 0) > 0;
+  }
+
+  async listEdges(buildingId: string): Promise<SpatialEdge[]> {
+    const data = await this.query(`SELECT ${EDGE_COLUMNS} FROM SPATIAL_EDGES WHERE BUILDING_ID = ?`, [buildingId]);
+    return (data.data || []).map(rowToEdge);
+  }
+
+  async saveEdge(edge: NewSpatialEdge): Promise<string> {
+    const id = generateEdgeId();
+    await this.query(
+      `INSERT INTO SPATIAL_EDGES (${EDGE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id, edge.buildingId, edge.fromNodeId, edge.toNodeId, edge.distanceMeters,
+        edge.bidirectional, edge.hasStairs, edge.hasRamp, edge.hasElevator, edge.wheelchairAccessible, edge.tactilePaving
+      ]
+    );
+    return id;
+  }
+
+  async deleteEdge(buildingId: string, id: string): Promise<boolean> {
+    const data = await this.query(`DELETE FROM SPATIAL_EDGES WHERE BUILDING_ID = ? AND ID = ?`, [buildingId, id]);
+    return Number(data.stats?.numRowsDeleted || 0) > 0;
+  }
+
+  async listBuildings(): Promise<Building[]> {
+    const buildings = await this.query("SELECT ID, NAME FROM BUILDINGS ORDER BY NAME");
+    const floors = await this.query("SELECT BUILDING_ID, LEVEL, NAME FROM BUILDING_FLOORS ORDER BY LEVEL");
+    return (buildings.data || []).map((b: any[]) => ({
+      id: b[0],
+      name: b[1],
+      floors: (floors.data || []).filter((f: any[]) => f[0] === b[0]).map((f: any[]) => ({ level: Number(f[1]), name: f[2] }))
+    }));
+  }
+
+  async getBuilding(id: string): Promise<Building | null> {
+    const buildings = await this.query("SELECT ID, NAME FROM BUILDINGS WHERE ID = ?", [id]);
+    const row = (buildings.data || [])[0];
+    if (!row) return null;
+    const floors = await this.query("SELECT LEVEL, NAME FROM BUILDING_FLOORS WHERE BUILDING_ID = ? ORDER BY LEVEL", [id]);
+    return { id: row[0], name: row[1], floors: (floors.data || []).map((f: any[]) => ({ level: Number(f[0]), name: f[1] })) };
+  }
+
+  async saveBuilding(building: Building): Promise<void> {
+    await this.ensureTable();
+    await this.upsertBuilding(building);
+  }
+
+  async saveFloor(buildingId: string, floor: Floor): Promise<void> {
+    await this.ensureTable();
+    await this.upsertFloor(buildingId, floor);
+  }
+
+  async createUser(): Promise<UserAccount> {
+    const user = { id: generateUserId(), createdAt: new Date().toISOString() };
+    await this.query("INSERT INTO USERS (ID, CREATED_AT) VALUES (?, ?)", [user.id, user.createdAt]);
+    return user;
+  }
+
+  async getUser(id: string): Promise<UserAccount | null> {
+    const data = await this.query("SELECT ID, CREATED_AT FROM USERS WHERE ID = ?", [id]);
+    const row = (data.data || [])[0];
+    return row ? { id: row[0], createdAt: row[1] } : null;
+  }
+
+  async addPoints(entry: NewPointsEntry): Promise<PointsEntry> {
+    const saved = { id: generatePointsId(), ...entry };
+    await this.query(
+      `INSERT INTO POINTS_LEDGER (${POINTS_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?)`,
+      [saved.id, saved.userId, saved.amount, saved.reason, saved.nodeId, saved.createdAt]
+    );
+    return saved;
+  }
+
+  async listPoints(userId: string, options: { since?: string; limit?: number } = {}): Promise<PointsEntry[]> {
+    // Bindings are not accepted in LIMIT, so the (numeric) limit is inlined
+    const limit = options.limit ? ` LIMIT ${Math.floor(options.limit)}` : "";
+    const data = await this.query(
+      `SELECT ${POINTS_COLUMNS} FROM POINTS_LEDGER WHERE USER_ID = ? AND CREATED_AT >= ? ORDER BY CREATED_AT DESC${limit}`,
+      [userId, options.since ?? ""]
+    );
+    return (data.data || []).map(rowToPoints);
+  }
+
+  async pointsBalance(userId: string): Promise<number> {
+    const data = await this.query("SELECT COALESCE(SUM(AMOUNT), 0) FROM POINTS_LEDGER WHERE USER_ID = ?", [userId]);
+    return Number(data.data?.[0]?.[0] || 0);
+  }
+
+  async saveReview(review: NewNodeReview): Promise<NodeReview> {
+    await this.query(
+      `MERGE INTO NODE_REVIEWS t
+       USING (SELECT ? AS ID, ? AS BUILDING_ID, ? AS NODE_ID, ? AS USER_ID, ? AS VERDICT, ? AS WEIGHT, ? AS NOTE, ? AS CREATED_AT) s
+       ON t.BUILDING_ID = s.BUILDING_ID AND t.NODE_ID = s.NODE_ID AND t.USER_ID = s.USER_ID
+       WHEN MATCHED THEN UPDATE SET VERDICT = s.VERDICT, WEIGHT = s.WEIGHT, NOTE = s.NOTE, CREATED_AT = s.CREATED_AT
+       WHEN NOT MATCHED THEN INSERT (${REVIEW_COLUMNS})
+         VALUES (s.ID, s.BUILDING_ID, s.NODE_ID, s.USER_ID, s.VERDICT, s.WEIGHT, s.NOTE, s.CREATED_AT)`,
+      [
+        generateReviewId(), review.buildingId, review.nodeId, review.userId, review.verdict,
+        review.weight, review.note, review.createdAt
+      ]
+    );
+    const data = await this.query(
+      `SELECT ${REVIEW_COLUMNS} FROM NODE_REVIEWS WHERE BUILDING_ID = ? AND NODE_ID = ? AND USER_ID = ?`,
+      [review.buildingId, review.nodeId, review.userId]
+    );
+    return rowToReview(data.data[0]);
+  }
+
+  async listReviews(buildingId: string, nodeId?: string): Promise<NodeReview[]> {
+    const data = nodeId === undefined
+      ? await this.query(`SELECT ${REVIEW_COLUMNS} FROM NODE_REVIEWS WHERE BUILDING_ID = ? ORDER BY CREATED_AT`, [buildingId])
+      : await this.query(
+        `SELECT ${REVIEW_COLUMNS} FROM NODE_REVIEWS WHERE BUILDING_ID = ? AND NODE_ID = ? ORDER BY CREATED_AT`,
+        [buildingId, nodeId]
+      );
+    return (data.data || []).map(rowToReview);
+  }
+
+  async listUserReviews(userId: string, limit?: number): Promise<NodeReview[]> {
+    // Bindings are not accepted in LIMIT, so the (numeric) limit is inlined
+    const limitClause = limit ? ` LIMIT ${Math.floor(limit)}` : "";
+    const data = await this.query(
+      `SELECT ${REVIEW_COLUMNS} FROM NODE_REVIEWS WHERE USER_ID = ? ORDER BY CREATED_AT DESC${limitClause}`,
+      [userId]
+    );
+    return (data.data || []).map(rowToReview);
+  }
+
+  async deleteReviews(buildingId: string, nodeId: string): Promise<void> {
+    await this.query(`DELETE FROM NODE_REVIEWS WHERE BUILDING_ID = ? AND NODE_ID = ?`, [buildingId, nodeId]);
+  }
+}
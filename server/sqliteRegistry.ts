@@ -0,0 +1,478 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import type { SpatialNode } from "../src/services/registry";
+import type { NewSpatialEdge, SpatialEdge } from "../src/services/navigation";
+import type { Building, Floor } from "../src/services/buildings";
+import type { PointsEntry } from "../src/services/account";
+import type { NodeReview } from "../src/services/moderation";
+import {
+  DEFAULT_BUILDING,
+  generateEdgeId,
+  generateNodeId,
+  generatePointsId,
+  generateReviewId,
+  generateUserId,
+  type NewNodeReview,
+  type NewPointsEntry,
+  type RegistryStore,
+  type SpatialNodeInput,
+  type SpatialNodePatch,
+  type UserAccount
+} from "./nodeStore";
+
+interface SpatialRegistryRow {
+  ID: string;
+  BUILDING_ID: string;
+  COORDINATES: string;
+  DESCRIPTION: string;
+  IS_GOLDEN_PATH: number;
+  KIND: string;
+  SEVERITY: string | null;
+  CATEGORY: string | null;
+  CREATED_AT: string;
+  EXPIRES_AT: string | null;
+  FLOOR: number;
+  STATUS: string;
+  CREATED_BY: string | null;
+}
+
+interface SpatialEdgeRow {
+  ID: string;
+  BUILDING_ID: string;
+  FROM_NODE_ID: string;
+  TO_NODE_ID: string;
+  DISTANCE_M: number;
+  BIDIRECTIONAL: number;
+  HAS_STAIRS: number;
+  HAS_RAMP: number;
+  HAS_ELEVATOR: number;
+  WHEELCHAIR_ACCESSIBLE: number;
+  TACTILE_PAVING: number;
+}
+
+interface PointsLedgerRow {
+  ID: string;
+  USER_ID: string;
+  AMOUNT: number;
+  REASON: string;
+  NODE_ID: string | null;
+  CREATED_AT: string;
+}
+
+interface NodeReviewRow {
+  ID: string;
+  BUILDING_ID: string;
+  NODE_ID: string;
+  USER_ID: string;
+  VERDICT: string;
+  WEIGHT: number;
+  NOTE: string | null;
+  CREATED_AT: string;
+}
+
+const REVIEW_COLUMNS = "ID, BUILDING_ID, NODE_ID, USER_ID, VERDICT, WEIGHT, NOTE, CREATED_AT";
+
+const POINTS_COLUMNS = "ID, USER_ID, AMOUNT, REASON, NODE_ID, CREATED_AT";
+
+const EDGE_COLUMNS = "ID, BUILDING_ID, FROM_NODE_ID, TO_NODE_ID, DISTANCE_M, BIDIRECTIONAL, HAS_STAIRS, HAS_RAMP, HAS_ELEVATOR, WHEELCHAIR_ACCESSIBLE, TACTILE_PAVING";
+
+const NODE_COLUMNS = "ID, BUILDING_ID, COORDINATES, DESCRIPTION, IS_GOLDEN_PATH, KIND, SEVERITY, CATEGORY, CREATED_AT, EXPIRES_AT, FLOOR, STATUS, CREATED_BY";
+
+// Columns added after the original five; older database files are migrated in place
+const ADDED_COLUMNS: [string, string][] = [
+  ["KIND", "TEXT NOT NULL DEFAULT 'landmark'"],
+  ["SEVERITY", "TEXT"],
+  ["CATEGORY", "TEXT"],
+  ["CREATED_AT", "TEXT"],
+  ["EXPIRES_AT", "TEXT"],
+  ["FLOOR", "INTEGER NOT NULL DEFAULT 0"],
+  // Nodes from before moderation were curated by hand, so they count as verified
+  ["STATUS", "TEXT NOT NULL DEFAULT 'verified'"],
+  ["CREATED_BY", "TEXT"]
+];
+
+const ACTIVE = "(EXPIRES_AT IS NULL OR EXPIRES_AT > ?) AND STATUS <> 'rejected'";
+
+function rowToNode(row: SpatialRegistryRow): SpatialNode {
+  return {
+    id: row.ID,
+    buildingId: row.BUILDING_ID,
+    coordinates: JSON.parse(row.COORDINATES),
+    floor: row.FLOOR,
+    description: row.DESCRIPTION,
+    isGoldenPath: row.IS_GOLDEN_PATH === 1,
+    kind: row.KIND as SpatialNode["kind"],
+    severity: row.SEVERITY as SpatialNode["severity"],
+    category: row.CATEGORY as SpatialNode["category"],
+    createdAt: row.CREATED_AT,
+    expiresAt: row.EXPIRES_AT,
+    status: row.STATUS as SpatialNode["status"],
+    createdBy: row.CREATED_BY
+  };
+}
+
+function rowToReview(row: NodeReviewRow): NodeReview {
+  return {
+    id: row.ID,
+    buildingId: row.BUILDING_ID,
+    nodeId: row.NODE_ID,
+    userId: row.USER_ID,
+    verdict: row.VERDICT as NodeReview["verdict"],
+    weight: row.WEIGHT,
+    note: row.NOTE,
+    createdAt: row.CREATED_AT
+  };
+}
+
+function rowToPoints(row: PointsLedgerRow): PointsEntry {
+  return {
+    id: row.ID,
+    userId: row.USER_ID,
+    amount: row.AMOUNT,
+    reason: row.REASON as PointsEntry["reason"],
+    nodeId: row.NODE_ID,
+    createdAt: row.CREATED_AT
+  };
+}
+
+function rowToEdge(row: SpatialEdgeRow): SpatialEdge {
+  return {
+    id: row.ID,
+    buildingId: row.BUILDING_ID,
+    fromNodeId: row.FROM_NODE_ID,
+    toNodeId: row.TO_NODE_ID,
+    distanceMeters: row.DISTANCE_M,
+    bidirectional: row.BIDIRECTIONAL === 1,
+    hasStairs: row.HAS_STAIRS === 1,
+    hasRamp: row.HAS_RAMP === 1,
+    hasElevator: row.HAS_ELEVATOR === 1,
+    wheelchairAccessible: row.WHEELCHAIR_ACCESSIBLE === 1,
+    tactilePaving: row.TACTILE_PAVING === 1
+  };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Local Spatial Registry
+ * Same table layout as the Snowflake SPATIAL_REGISTRY, stored in a SQLite file for dev and offline CI.
+ */
+export class SqliteSpatialRegistry implements RegistryStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ":memory:") {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`CREATE TABLE IF NOT EXISTS SPATIAL_REGISTRY (
+      ID TEXT PRIMARY KEY,
+      BUILDING_ID TEXT NOT NULL,
+      COORDINATES TEXT NOT NULL,
+      DESCRIPTION TEXT NOT NULL,
+      IS_GOLDEN_PATH INTEGER NOT NULL DEFAULT 0,
+      KIND TEXT NOT NULL DEFAULT 'landmark',
+      SEVERITY TEXT,
+      CATEGORY TEXT,
+      CREATED_AT TEXT,
+      EXPIRES_AT TEXT,
+      FLOOR INTEGER NOT NULL DEFAULT 0,
+      STATUS TEXT NOT NULL DEFAULT 'verified',
+      CREATED_BY TEXT
+    )`);
+    this.db.exec(`CREATE TABLE IF NOT EXISTS SPATIAL_EDGES (
+      ID TEXT PRIMARY KEY,
+      BUILDING_ID TEXT NOT NULL,
+      FROM_NODE_ID TEXT NOT NULL,
+      TO_NODE_ID TEXT NOT NULL,
+      DISTANCE_M REAL NOT NULL,
+      BIDIRECTIONAL INTEGER NOT NULL DEFAULT 1,
+      HAS_STAIRS INTEGER NOT NULL DEFAULT 0,
+      HAS_RAMP INTEGER NOT NULL DEFAULT 0,
+      HAS_ELEVATOR INTEGER NOT NULL DEFAULT 0,
+      WHEELCHAIR_ACCESSIBLE INTEGER NOT NULL DEFAULT 1,
+      TACTILE_PAVING INTEGER NOT NULL DEFAULT 0
+    )`);
+    this.db.exec(`CREATE TABLE IF NOT EXISTS BUILDINGS (
+      ID TEXT PRIMARY KEY,
+      NAME TEXT NOT NULL
+    )`);
+    this.db.exec(`CREATE TABLE IF NOT EXISTS BUILDING_FLOORS (
+      BUILDING_ID TEXT NOT NULL,
+      LEVEL INTEGER NOT NULL,
+      NAME TEXT NOT NULL,
+      PRIMARY KEY (BUILDING_ID, LEVEL)
+    )`);
+    this.db.exec(`CREATE TABLE IF NOT EXISTS USERS (
+      ID TEXT PRIMARY KEY,
+      CREATED_AT TEXT NOT NULL
+    )`);
+    this.db.exec(`CREATE TABLE IF NOT EXISTS POINTS_LEDGER (
+      ID TEXT PRIMARY KEY,
+      USER_ID TEXT NOT NULL,
+      AMOUNT REAL NOT NULL,
+      REASON TEXT NOT NULL,
+      NODE_ID TEXT,
+      CREATED_AT TEXT NOT NULL
+    )`);
+    this.db.exec("CREATE INDEX IF NOT EXISTS POINTS_LEDGER_USER ON POINTS_LEDGER (USER_ID, CREATED_AT)");
+    this.db.exec(`CREATE TABLE IF NOT EXISTS NODE_REVIEWS (
+      ID TEXT PRIMARY KEY,
+      BUILDING_ID TEXT NOT NULL,
+      NODE_ID TEXT NOT NULL,
+      USER_ID TEXT NOT NULL,
+      VERDICT TEXT NOT NULL,
+      WEIGHT REAL NOT NULL,
+      NOTE TEXT,
+      CREATED_AT TEXT NOT NULL,
+      UNIQUE (BUILDING_ID, NODE_ID, USER_ID)
+    )`);
+    this.db.exec("CREATE INDEX IF NOT EXISTS NODE_REVIEWS_USER ON NODE_REVIEWS (USER_ID, CREATED_AT)");
+    this.migrate();
+    this.seedDefaultBuilding();
+  }
+
+  private seedDefaultBuilding() {
+    const { count } = this.db.prepare("SELECT COUNT(*) AS count FROM BUILDINGS").get() as { count: number };
+    if (count === 0) {
+      this.insertBuilding(DEFAULT_BUILDING);
+    }
+  }
+
+  private insertBuilding(building: Building) {
+    this.db.transaction(() => {
+      this.db
+        .prepare("INSERT INTO BUILDINGS (ID, NAME) VALUES (?, ?) ON CONFLICT(ID) DO UPDATE SET NAME = excluded.NAME")
+        .run(building.id, building.name);
+      for (const floor of building.floors) {
+        this.upsertFloor(building.id, floor);
+      }
+    })();
+  }
+
+  private upsertFloor(buildingId: string, floor: Floor) {
+    this.db
+      .prepare(`INSERT INTO BUILDING_FLOORS (BUILDING_ID, LEVEL, NAME) VALUES (?, ?, ?)
+                ON CONFLICT(BUILDING_ID, LEVEL) DO UPDATE SET NAME = excluded.NAME`)
+      .run(buildingId, floor.level, floor.name);
+  }
+
+  private migrate() {
+    const existing = new Set(
+      (this.db.prepare("PRAGMA table_info(SPATIAL_REGISTRY)").all() as { name: string }[]).map(c => c.name)
+    );
+    const missing = ADDED_COLUMNS.filter(([name]) => !existing.has(name));
+    if (missing.length === 0) return;
+
+    this.db.transaction(() => {
+      for (const [name, definition] of missing) {
+        this.db.exec(`ALTER TABLE SPATIAL_REGISTRY ADD COLUMN ${name} ${definition}`);
+      }
+      this.db.exec(`UPDATE SPATIAL_REGISTRY SET CREATED_AT = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE CREATED_AT IS NULL`);
+      // Pins made before hazards had their own kind were marked with a "Hazard:" prefix
+      if (missing.some(([name]) => name === "KIND")) {
+        this.db.exec(`UPDATE SPATIAL_REGISTRY SET KIND = 'hazard', CATEGORY = 'other', SEVERITY = 'medium'
+                      WHERE LOWER(DESCRIPTION) LIKE 'hazard:%'`);
+      }
+    })();
+  }
+
+  async searchRegistry(query: string, buildingId: string): Promise<SpatialNode[]> {
+    const rows = this.db
+      .prepare(`SELECT ${NODE_COLUMNS} FROM SPATIAL_REGISTRY
+                WHERE BUILDING_ID = ? AND LOWER(DESCRIPTION) LIKE ? ESCAPE '\\' AND ${ACTIVE}`)
+      .all(buildingId, `%${escapeLike(query.toLowerCase())}%`, new Date().toISOString()) as SpatialRegistryRow[];
+    return rows.map(rowToNode);
+  }
+
+  async fetchGoldenPath(buildingId: string): Promise<SpatialNode[]> {
+    const rows = this.db
+      .prepare(`SELECT ${NODE_COLUMNS} FROM SPATIAL_REGISTRY
+                WHERE BUILDING_ID = ? AND ((IS_GOLDEN_PATH = 1 AND STATUS = 'verified') OR KIND = 'hazard') AND ${ACTIVE}`)
+      .all(buildingId, new Date().toISOString()) as SpatialRegistryRow[];
+    return rows.map(rowToNode);
+  }
+
+  async saveNewPath(node: SpatialNodeInput, id: string = generateNodeId()): Promise<string> {
+    this.db
+      .prepare(`INSERT INTO SPATIAL_REGISTRY (${NODE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        id, node.buildingId, JSON.stringify(node.coordinates), node.description, node.isGoldenPath ? 1 : 0,
+        node.kind, node.severity, node.category, node.createdAt, node.expiresAt, node.floor, node.status, node.createdBy
+      );
+    return id;
+  }
+
+  async listNodes(buildingId: string): Promise<SpatialNode[]> {
+    const rows = this.db
+      .prepare(`SELECT ${NODE_COLUMNS} FROM SPATIAL_REGISTRY WHERE BUILDING_ID = ?`)
+      .all(buildingId) as SpatialRegistryRow[];
+    return rows.map(rowToNode);
+  }
+
+  async getNode(buildingId: string, id: string): Promise<SpatialNode | null> {
+    const row = this.db
+      .prepare(`SELECT ${NODE_COLUMNS} FROM SPATIAL_REGISTRY WHERE BUILDING_ID = ? AND ID = ?`)
+      .get(buildingId, id) as SpatialRegistryRow | undefined;
+    return row ? rowToNode(row) : null;
+  }
+
+  async updateNode(buildingId: string, id: string, patch: SpatialNodePatch): Promise<SpatialNode | null> {
+    const existing = await this.getNode(buildingId, id);
+    if (!existing) return null;
+
+    const updated: SpatialNode = { ...existing, ...patch };
+    this.db
+      .prepare(`UPDATE SPATIAL_REGISTRY
+                SET COORDINATES = ?, DESCRIPTION = ?, IS_GOLDEN_PATH = ?, KIND = ?, SEVERITY = ?, CATEGORY = ?, EXPIRES_AT = ?, FLOOR = ?, STATUS = ?
+                WHERE BUILDING_ID = ? AND ID = ?`)
+      .run(
+        JSON.stringify(updated.coordinates), updated.description, updated.isGoldenPath ? 1 : 0,
+        updated.kind, updated.severity, updated.category, updated.expiresAt, updated.floor, updated.status, buildingId, id
+      );
+    return updated;
+  }
+
+  async deleteNode(buildingId: string, id: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      this.db
+        .prepare(`DELETE FROM SPATIAL_EDGES WHERE BUILDING_ID = ? AND (FROM_NODE_ID = ? OR TO_NODE_ID = ?)`)
+        .run(buildingId, id, id);
+      this.db
+        .prepare(`DELETE FROM NODE_REVIEWS WHERE BUILDING_ID = ? AND NODE_ID = ?`)
+        .run(buildingId, id);
+      const result = this.db
+        .prepare(`DELETE FROM SPATIAL_REGISTRY WHERE BUILDING_ID = ? AND ID = ?`)
+        .run(buildingId, id);
+      return result.changes > 0;
+    })();
+  }
+
+  async listEdges(buildingId: string): Promise<SpatialEdge[]> {
+    const rows = this.db
+      .prepare(`SELECT ${EDGE_COLUMNS} FROM SPATIAL_EDGES WHERE BUILDING_ID = ?`)
+      .all(buildingId) as SpatialEdgeRow[];
+    return rows.map(rowToEdge);
+  }
+
+  async saveEdge(edge: NewSpatialEdge): Promise<string> {
+    const id = generateEdgeId();
+    this.db
+      .prepare(`INSERT INTO SPATIAL_EDGES (${EDGE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        id, edge.buildingId, edge.fromNodeId, edge.toNodeId, edge.distanceMeters,
+        edge.bidirectional ? 1 : 0, edge.hasStairs ? 1 : 0, edge.hasRamp ? 1 : 0, edge.hasElevator ? 1 : 0,
+        edge.wheelchairAccessible ? 1 : 0, edge.tactilePaving ? 1 : 0
+      );
+    return id;
+  }
+
+  async deleteEdge(buildingId: string, id: string): Promise<boolean> {
+    const result = this.db
+      .prepare(`DELETE FROM SPATIAL_EDGES WHERE BUILDING_ID = ? AND ID = ?`)
+      .run(buildingId, id);
+    return result.changes > 0;
+  }
+
+  async listBuildings(): Promise<Building[]> {
+    const buildings = this.db.prepare("SELECT ID, NAME FROM BUILDINGS ORDER BY NAME").all() as { ID: string; NAME: string }[];
+    const floors = this.db
+      .prepare("SELECT BUILDING_ID, LEVEL, NAME FROM BUILDING_FLOORS ORDER BY LEVEL")
+      .all() as { BUILDING_ID: string; LEVEL: number; NAME: string }[];
+    return buildings.map(b => ({
+      id: b.ID,
+      name: b.NAME,
+      floors: floors.filter(f => f.BUILDING_ID === b.ID).map(f => ({ level: f.LEVEL, name: f.NAME }))
+    }));
+  }
+
+  async getBuilding(id: string): Promise<Building | null> {
+    const row = this.db.prepare("SELECT ID, NAME FROM BUILDINGS WHERE ID = ?").get(id) as { ID: string; NAME: string } | undefined;
+    if (!row) return null;
+    const floors = this.db
+      .prepare("SELECT LEVEL, NAME FROM BUILDING_FLOORS WHERE BUILDING_ID = ? ORDER BY LEVEL")
+      .all(id) as { LEVEL: number; NAME: string }[];
+    return { id: row.ID, name: row.NAME, floors: floors.map(f => ({ level: f.LEVEL, name: f.NAME })) };
+  }
+
+  async saveBuilding(building: Building): Promise<void> {
+    this.insertBuilding(building);
+  }
+
+  async saveFloor(buildingId: string, floor: Floor): Promise<void> {
+    this.upsertFloor(buildingId, floor);
+  }
+
+  async createUser(): Promise<UserAccount> {
+    const user = { id: generateUserId(), createdAt: new Date().toISOString() };
+    this.db.prepare("INSERT INTO USERS (ID, CREATED_AT) VALUES (?, ?)").run(user.id, user.createdAt);
+    return user;
+  }
+
+  async getUser(id: string): Promise<UserAccount | null> {
+    const row = this.db.prepare("SELECT ID, CREATED_AT FROM USERS WHERE ID = ?").get(id) as { ID: string; CREATED_AT: string } | undefined;
+    return row ? { id: row.ID, createdAt: row.CREATED_AT } : null;
+  }
+
+  async addPoints(entry: NewPointsEntry): Promise<PointsEntry> {
+    const saved = { id: generatePointsId(), ...entry };
+    this.db
+      .prepare(`INSERT INTO POINTS_LEDGER (${POINTS_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?)`)
+      .run(saved.id, saved.userId, saved.amount, saved.reason, saved.nodeId, saved.createdAt);
+    return saved;
+  }
+
+  async listPoints(userId: string, options: { since?: string; limit?: number } = {}): Promise<PointsEntry[]> {
+    const rows = this.db
+      .prepare(`SELECT ${POINTS_COLUMNS} FROM POINTS_LEDGER WHERE USER_ID = ? AND CREATED_AT >= ?
+                ORDER BY CREATED_AT DESC LIMIT ?`)
+      .all(userId, options.since ?? "", options.limit ?? -1) as PointsLedgerRow[];
+    return rows.map(rowToPoints);
+  }
+
+  async pointsBalance(userId: string): Promise<number> {
+    const { total } = this.db
+      .prepare("SELECT COALESCE(SUM(AMOUNT), 0) AS total FROM POINTS_LEDGER WHERE USER_ID = ?")
+      .get(userId) as { total: number };
+    return total;
+  }
+
+  async saveReview(review: NewNodeReview): Promise<NodeReview> {
+    const row = this.db
+      .prepare(`INSERT INTO NODE_REVIEWS (${REVIEW_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT(BUILDING_ID, NODE_ID, USER_ID) DO UPDATE SET
+                  VERDICT = excluded.VERDICT, WEIGHT = excluded.WEIGHT, NOTE = excluded.NOTE, CREATED_AT = excluded.CREATED_AT
+                RETURNING ${REVIEW_COLUMNS}`)
+      .get(
+        generateReviewId(), review.buildingId, review.nodeId, review.userId, review.verdict,
+        review.weight, review.note, review.createdAt
+      ) as NodeReviewRow;
+    return rowToReview(row);
+  }
+
+  async listReviews(buildingId: string, nodeId?: string): Promise<NodeReview[]> {
+    const rows = nodeId === undefined
+      ? this.db
+        .prepare(`SELECT ${REVIEW_COLUMNS} FROM NODE_REVIEWS WHERE BUILDING_ID = ? ORDER BY CREATED_AT`)
+        .all(buildingId)
+      : this.db
+        .prepare(`SELECT ${REVIEW_COLUMNS} FROM NODE_REVIEWS WHERE BUILDING_ID = ? AND NODE_ID = ? ORDER BY CREATED_AT`)
+        .all(buildingId, nodeId);
+    return (rows as NodeReviewRow[]).map(rowToReview);
+  }
+
+  async listUserReviews(userId: string, limit: number = -1): Promise<NodeReview[]> {
+    const rows = this.db
+      .prepare(`SELECT ${REVIEW_COLUMNS} FROM NODE_REVIEWS WHERE USER_ID = ? ORDER BY CREATED_AT DESC LIMIT ?`)
+      .all(userId, limit) as NodeReviewRow[];
+    return rows.map(rowToReview);
+  }
+
+  async deleteReviews(buildingId: string, nodeId: string): Promise<void> {
+    this.db.prepare(`DELETE FROM NODE_REVIEWS WHERE BUILDING_ID = ? AND NODE_ID = ?`).run(buildingId, nodeId);
+  }
+}
@@ -0,0 +1,78 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readdirSync, statSync } from "fs";
+import { readFile, unlink, utimes, writeFile } from "fs/promises";
+import path from "path";
+
+interface CacheEntry {
+  size: number;
+  lastUsed: number;
+}
+
+export function ttsCacheKey(text: string, voiceId: string, lang: string | null): string {
+  return createHash("sha256").update(`${voiceId}\n${lang || ""}\n${text}`).digest("hex");
+}
+
+/**
+ * Synthesized system phrases on disk, one file per key, evicted least-recently-used once
+ * the directory grows past `maxBytes`. File mtimes double as the access time,
+ * so recency survives restarts.
+ */
+export class DiskTtsCache {
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+
+  constructor(private directory: string, private maxBytes: number) {
+    if (!existsSync(directory)) mkdirSync(directory, { recursive: true });
+    for (const file of readdirSync(directory)) {
+      if (!file.endsWith(".mp3")) continue;
+      const stats = statSync(path.join(directory, file));
+      this.entries.set(file.slice(0, -4), { size: stats.size, lastUsed: stats.mtimeMs });
+      this.totalBytes += stats.size;
+    }
+  }
+
+  private file(key: string): string {
+    return path.join(this.directory, `${key}.mp3`);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    try {
+      const audio = await readFile(this.file(key));
+      entry.lastUsed = Date.now();
+      const now = new Date();
+      utimes(this.file(key), now, now).catch(() => {});
+      return audio;
+    } catch {
+      this.forget(key);
+      return null;
+    }
+  }
+
+  async put(key: string, audio: Buffer): Promise<void> {
+    if (audio.length === 0 || audio.length > this.maxBytes) return;
+    await writeFile(this.file(key), audio);
+    this.forget(key);
+    this.entries.set(key, { size: audio.length, lastUsed: Date.now() });
+    this.totalBytes += audio.length;
+    await this.evict();
+  }
+
+  private forget(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.totalBytes -= entry.size;
+    this.entries.delete(key);
+  }
+
+  private async evict() {
+    if (this.totalBytes <= this.maxBytes) return;
+    const oldestFirst = [...this.entries].sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    for (const [key] of oldestFirst) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.forget(key);
+      await unlink(this.file(key)).catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { Router, type RequestHandler } from "express";
+import { Readable } from "stream";
+import type { ReadableStream } from "stream/web";
+import { elevenLabsVoiceId, isElevenLabsConfigured, streamElevenLabsSpeech } from "./elevenLabsClient";
+import { createRateLimiter } from "./rateLimit";
+import { spawnLocalSpeech } from "./localTts";
+import { type DiskTtsCache, ttsCacheKey } from "./ttsCache";
+import { parseLocalTtsRequest, parseTtsRequest, type TtsRequest } from "./validation";
+
+/**
+ * Text-to-speech proxy, mounted at /api/tts.
+ * POST / streams ElevenLabs audio/mpeg back as it is synthesized. Requests flagged
+ * `cache` (fixed system phrases) are served from and stored in the disk cache; other
+ * text is never written to disk. Cache hits count against the rate limit too.
+ * POST /local streams audio/wav from the server's own command-line engine.
+ */
+export function createTtsRouter(cache: DiskTtsCache | null): Router {
+  const router = Router();
+
+  const limiter = createRateLimiter({
+    name: "speech",
+    windowMs: 60_000,
+    maxPerSession: Number(process.env.TTS_RATE_LIMIT_PER_MINUTE) || 40,
+    maxPerIp: (Number(process.env.TTS_RATE_LIMIT_PER_MINUTE) || 40) * 3
+  });
+
+  const validate: RequestHandler = (req, res, next) => {
+    if (!isElevenLabsConfigured()) {
+      return res.status(503).json({ error: "Speech is not configured. Set ELEVENLABS_API_KEY on the server." });
+    }
+    const parsed = parseTtsRequest(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    res.locals.tts = parsed.value;
+    res.setHeader("X-Voice-Id", elevenLabsVoiceId());
+    next();
+  };
+
+  const serveCached: RequestHandler = async (_req, res, next) => {
+    const { text, lang, cache: cacheable }: TtsRequest = res.locals.tts;
+    const audio = cacheable ? await cache?.get(ttsCacheKey(text, elevenLabsVoiceId(), lang)) : null;
+    if (!audio) return next();
+    res.setHeader("Content-Type", "audio/mpeg");
+    res.setHeader("X-Tts-Cache", "hit");
+    res.send(audio);
+  };
+
+  router.post("/", validate, limiter, serveCached, async (_req, res) => {
+    const { text, lang, cache: cacheable }: TtsRequest = res.locals.tts;
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const upstream = await streamElevenLabsSpeech(text, controller.signal);
+      if (!upstream.ok || !upstream.body) {
+        console.error("ElevenLabs API Error:", upstream.status, await upstream.text().catch(() => ""));
+        return res.status(502).json({ error: "Speech synthesis failed." });
+      }
+      res.setHeader("Content-Type", upstream.headers.get("content-type") || "audio/mpeg");
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("X-Tts-Cache", "miss");
+
+      // Stream to the client and, for fixed phrases, keep a copy for the cache once synthesis completes
+      const chunks: Buffer[] = [];
+      Readable.fromWeb(upstream.body as ReadableStream)
+        .on("data", (chunk: Buffer) => {
+          if (cacheable) chunks.push(chunk);
+        })
+        .on("end", () => {
+          if (!cacheable) return;
+          cache?.put(ttsCacheKey(text, elevenLabsVoiceId(), lang), Buffer.concat(chunks))
+            .catch(error => console.error("TTS Cache Error:", error));
+        })
+        .on("error", error => {
+          if (!controller.signal.aborted) console.error("TTS Stream Error:", error);
+          res.destroy();
+        })
+        .pipe(res);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("TTS Proxy Error:", error);
+      res.status(502).json({ error: "Speech synthesis failed." });
+    }
+  });
+
+  router.post("/local", limiter, (req, res) => {
+    const parsed = parseLocalTtsRequest(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { text, lang, rate, pitch } = parsed.value;
+
+    const engine = spawnLocalSpeech(text, lang, rate, pitch);
+    res.on("close", () => {
+      if (engine.exitCode === null) engine.kill();
+    });
+    engine.on("error", (error: NodeJS.ErrnoException) => {
+      if (res.headersSent) return res.destroy();
+      if (error.code === "ENOENT") {
+        return res.status(503).json({ error: "No local speech engine installed. Set LOCAL_TTS_COMMAND or install espeak-ng." });
+      }
+      console.error("Local TTS Error:", error);
+      res.status(500).json({ error: "Local speech synthesis failed." });
+    });
+    // Headers wait for the first audio bytes so a missing or failing engine can still answer with JSON
+    engine.stdout.once("data", (chunk: Buffer) => {
+      res.setHeader("Content-Type", "audio/wav");
+      res.setHeader("Cache-Control", "no-store");
+      res.write(chunk);
+      engine.stdout.pipe(res);
+    });
+    engine.on("close", code => {
+      if (res.headersSent) return;
+      console.error("Local TTS Error: engine exited with code", code);
+      res.status(500).json({ error: "Local speech synthesis failed." });
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,499 @@
+import {
+  HAZARD_CATEGORIES,
+  HAZARD_SEVERITIES,
+  NODE_KINDS,
+  type HazardCategory,
+  type HazardSeverity,
+  type NodeKind,
+  type SpatialNode
+} from "../src/services/registry";
+import { defaultHazardExpiry } from "../src/services/hazards";
+import type { RequestHandler } from "express";
+import type { NewSpatialEdge } from "../src/services/navigation";
+import type { Building, Floor } from "../src/services/buildings";
+import { parseSceneAnalysis, type DescribeSceneRequest } from "../src/services/sceneAnalysis";
+import { MAX_SNAPSHOT_BASE64_LENGTH, type NewNodeSnapshot } from "../src/services/snapshots";
+import { LANGUAGES, type Locale } from "../src/services/i18n";
+import { REVIEW_VERDICTS, type ReviewVerdict } from "../src/services/moderation";
+import { PLACE_DESCRIPTOR_LENGTH, type LocalizeQuery, type PlaceDescriptor } from "../src/services/placeRecognition";
+import type { SpatialNodeInput, SpatialNodePatch } from "./nodeStore";
+
+export type ValidationResult<T> = { value: T } | { error: string };
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isValidId(id: unknown): id is string {
+  return typeof id === "string" && ID_PATTERN.test(id);
+}
+
+/** Rejects requests whose :buildingId route parameter is not a valid id. */
+export const validateBuildingId: RequestHandler = (req, res, next) => {
+  if (!isValidId(req.params.buildingId)) {
+    res.status(400).json({ error: "Invalid building id." });
+    return;
+  }
+  next();
+};
+
+function parseCoordinates(value: unknown): ValidationResult<{ x: number; y: number }> {
+  if (!isPlainObject(value) || !Number.isFinite(value.x) || !Number.isFinite(value.y)) {
+    return { error: "coordinates must be an object with finite numeric x and y." };
+  }
+  return { value: { x: value.x as number, y: value.y as number } };
+}
+
+function parseFloorLevel(value: unknown): ValidationResult<number> {
+  if (!Number.isInteger(value) || Math.abs(value as number) > 200) {
+    return { error: "floor must be an integer level." };
+  }
+  return { value: value as number };
+}
+
+function parseName(field: string, value: unknown): ValidationResult<string> {
+  if (typeof value !== "string" || value.trim().length === 0 || value.length > 120) {
+    return { error: `${field} must be a non-empty string of at most 120 characters.` };
+  }
+  return { value: value.trim() };
+}
+
+export function parseFloor(level: unknown, body: unknown): ValidationResult<Floor> {
+  const parsedLevel = parseFloorLevel(typeof level === "string" ? Number(level) : level);
+  if ("error" in parsedLevel) return parsedLevel;
+  if (!isPlainObject(body)) {
+    return { error: "Request body must be a JSON object." };
+  }
+  const name = parseName("name", body.name);
+  if ("error" in name) return name;
+  return { value: { level: parsedLevel.value, name: name.value } };
+}
+
+export function parseBuildingInput(body: unknown): ValidationResult<Building> {
+  if (!isPlainObject(body)) {
+    return { error: "Request body must be a JSON object." };
+  }
+  if (!isValidId(body.id)) {
+    return { error: "id must be 1-64 letters, digits, underscores or dashes." };
+  }
+  const name = parseName("name", body.name);
+  if ("error" in name) return name;
+
+  const rawFloors = body.floors === undefined ? [{ level: 0, name: "Ground Floor" }] : body.floors;
+  if (!Array.isArray(rawFloors) || rawFloors.length === 0) {
+    return { error: "floors must be a non-empty array." };
+  }
+  const floors: Floor[] = [];
+  for (const raw of rawFloors) {
+    const floor = parseFloor(isPlainObject(raw) ? raw.level : undefined, raw);
+    if ("error" in floor) return floor;
+    if (floors.some(f => f.level === floor.value.level)) {
+      return { error: `Floor level ${floor.value.level} is listed twice.` };
+    }
+    floors.push(floor.value);
+  }
+  return { value: { id: body.id, name: name.value, floors } };
+}
+
+function parseDescription(value: unknown): ValidationResult<string> {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    return { error: "description must be a non-empty string." };
+  }
+  if (value.length > MAX_DESCRIPTION_LENGTH) {
+    return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters.` };
+  }
+  return { value: value.trim() };
+}
+
+function parseEnum<T extends string>(field: string, allowed: readonly T[], value: unknown): ValidationResult<T> {
+  if (typeof value !== "string" || !allowed.includes(value as T)) {
+    return { error: `${field} must be one of: ${allowed.join(", ")}.` };
+  }
+  return { value: value as T };
+}
+
+function parseExpiresAt(value: unknown): ValidationResult<string | null> {
+  if (value === null) return { value: null };
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    return { error: "expiresAt must be an ISO 8601 timestamp or null." };
+  }
+  return { value: new Date(value).toISOString() };
+}
+
+/** A node as posted by a client; the route adds its moderation status, author and golden path flag. */
+export type SpatialNodeDraft = Omit<SpatialNodeInput, "status" | "createdBy" | "isGoldenPath">;
+
+export function parseNodeInput(buildingId: string, body: unknown): ValidationResult<SpatialNodeDraft> {
+  if (!isPlainObject(body)) {
+    return { error: "Request body must be a JSON object." };
+  }
+  const coordinates = parseCoordinates(body.coordinates);
+  if ("error" in coordinates) return coordinates;
+  const description = parseDescription(body.description);
+  if ("error" in description) return description;
+  const floor = parseFloorLevel(body.floor ?? 0);
+  if ("error" in floor) return floor;
+  // Only community review puts a node on the golden path; clients may at most say it is not on it
+  if (body.isGoldenPath !== undefined && body.isGoldenPath !== false) {
+    return { error: "isGoldenPath is set by community review and cannot be chosen." };
+  }
+
+  let kind: NodeKind = "landmark";
+  if (body.kind !== undefined) {
+    const parsedKind = parseEnum("kind", NODE_KINDS, body.kind);
+    if ("error" in parsedKind) return parsedKind;
+    kind = parsedKind.value;
+  }
+
+  let severity: HazardSeverity | null = null;
+  let category: HazardCategory | null = null;
+  if (kind === "hazard") {
+    const parsedSeverity = parseEnum("severity", HAZARD_SEVERITIES, body.severity ?? "medium");
+    if ("error" in parsedSeverity) return parsedSeverity;
+    const parsedCategory = parseEnum("category", HAZARD_CATEGORIES, body.category ?? "other");
+    if ("error" in parsedCategory) return parsedCategory;
+    severity = parsedSeverity.value;
+    category = parsedCategory.value;
+  } else if (body.severity != null || body.category != null) {
+    return { error: "severity and category are only allowed on hazard nodes." };
+  }
+
+  const createdAt = new Date();
+  let expiresAt: string | null = category ? defaultHazardExpiry(category, createdAt) : null;
+  if (body.expiresAt !== undefined) {
+    const parsedExpiry = parseExpiresAt(body.expiresAt);
+    if ("error" in parsedExpiry) return parsedExpiry;
+    expiresAt = parsedExpiry.value;
+  }
+
+  return {
+    value: {
+      buildingId,
+      coordinates: coordinates.value,
+      floor: floor.value,
+      description: description.value,
+      kind,
+      severity,
+      category,
+      createdAt: createdAt.toISOString(),
+      expiresAt
+    }
+  };
+}
+
+export function parseNodePatch(body: unknown): ValidationResult<SpatialNodePatch> {
+  if (!isPlainObject(body)) {
+    return { error: "Request body must be a JSON object." };
+  }
+
+  // Status and the golden path flag are written by moderation only
+  const allowed = ["coordinates", "floor", "description", "kind", "severity", "category", "expiresAt"];
+  const unknownField = Object.keys(body).find(key => !allowed.includes(key));
+  if (unknownField) {
+    return { error: `Field "${unknownField}" cannot be updated.` };
+  }
+
+  const patch: SpatialNodePatch = {};
+  if (body.coordinates !== undefined) {
+    const coordinates = parseCoordinates(body.coordinates);
+    if ("error" in coordinates) return coordinates;
+    patch.coordinates = coordinates.value;
+  }
+  if (body.floor !== undefined) {
+    const floor = parseFloorLevel(body.floor);
+    if ("error" in floor) return floor;
+    patch.floor = floor.value;
+  }
+  if (body.description !== undefined) {
+    const description = parseDescription(body.description);
+    if ("error" in description) return description;
+    patch.description = description.value;
+  }
+
+  if (body.kind !== undefined) {
+    const kind = parseEnum("kind", NODE_KINDS, body.kind);
+    if ("error" in kind) return kind;
+    patch.kind = kind.value;
+  }
+  if (body.severity !== undefined) {
+    if (body.severity === null) {
+      patch.severity = null;
+    } else {
+      const severity = parseEnum("severity", HAZARD_SEVERITIES, body.severity);
+      if ("error" in severity) return severity;
+      patch.severity = severity.value;
+    }
+  }
+  if (body.category !== undefined) {
+    if (body.category === null) {
+      patch.category = null;
+    } else {
+      const category = parseEnum("category", HAZARD_CATEGORIES, body.category);
+      if ("error" in category) return category;
+      patch.category = category.value;
+    }
+  }
+  if (body.expiresAt !== undefined) {
+    const expiresAt = parseExpiresAt(body.expiresAt);
+    if ("error" in expiresAt) return expiresAt;
+    patch.expiresAt = expiresAt.value;
+  }
+
+  if (Object.keys(patch).length === 0) {
+    return { error: "Request body must contain at least one field to update." };
+  }
+  return { value: patch };
+}
+
+/**
+ * Applies parseNodeInput's kind rules to a patch of `node`: only hazards carry a
+ * severity and category. A node that becomes a hazard gets the same defaults a new
+ * hazard would; one that stops being a hazard loses them and its expiry.
+ */
+export function checkNodePatch(node: SpatialNode, patch: SpatialNodePatch): ValidationResult<SpatialNodePatch> {
+  const kind = patch.kind ?? node.kind;
+  if (kind !== "hazard") {
+    if (patch.severity != null || patch.category != null) {
+      return { error: "severity and category are only allowed on hazard nodes." };
+    }
+    if (node.kind !== "hazard") return { value: patch };
+    return { value: { severity: null, category: null, expiresAt: null, ...patch } };
+  }
+
+  if (patch.severity === null || patch.category === null) {
+    return { error: "Hazard nodes need a severity and a category." };
+  }
+  if (node.kind === "hazard") return { value: patch };
+  const category = patch.category ?? node.category ?? "other";
+  return {
+    value: {
+      severity: node.severity ?? "medium",
+      category,
+      expiresAt: defaultHazardExpiry(category, new Date()),
+      ...patch
+    }
+  };
+}
+
+/** The optional `snapshot` of a new pin: a JPEG thumbnail, the scene analysis, and its locale. */
+function parseDescriptor(field: string, value: unknown): ValidationResult<PlaceDescriptor> {
+  // Each block is unit length, so no component can exceed 1 in magnitude
+  if (!Array.isArray(value) || value.length !== PLACE_DESCRIPTOR_LENGTH ||
+    value.some(v => typeof v !== "number" || !Number.isFinite(v) || Math.abs(v) > 1)) {
+    return { error: `${field} must be an array of ${PLACE_DESCRIPTOR_LENGTH} numbers between -1 and 1.` };
+  }
+  return { value: value as PlaceDescriptor };
+}
+
+export function parseSnapshotInput(value: unknown): ValidationResult<NewNodeSnapshot> {
+  if (!isPlainObject(value)) {
+    return { error: "snapshot must be an object." };
+  }
+  if (typeof value.image !== "string" || value.image.length === 0 || value.image.length > MAX_SNAPSHOT_BASE64_LENGTH) {
+    return { error: `snapshot.image must be a base64 JPEG of at most ${MAX_SNAPSHOT_BASE64_LENGTH} characters.` };
+  }
+  // "/9j/" is the base64 form of the JPEG start-of-image marker
+  if (!/^[A-Za-z0-9+/]+=*$/.test(value.image) || !value.image.startsWith("/9j/")) {
+    return { error: "snapshot.image must be base64 JPEG without a data: prefix." };
+  }
+  if (!LANGUAGES.some(language => language.locale === value.language)) {
+    return { error: `snapshot.language must be one of: ${LANGUAGES.map(language => language.locale).join(", ")}.` };
+  }
+  const analysis = parseSceneAnalysis(JSON.stringify(value.analysis ?? null));
+  if ("error" in analysis) {
+    return { error: `snapshot.analysis is invalid: ${analysis.error}.` };
+  }
+  let descriptor: PlaceDescriptor | undefined;
+  if (value.descriptor !== undefined) {
+    const parsed = parseDescriptor("snapshot.descriptor", value.descriptor);
+    if ("error" in parsed) return parsed;
+    descriptor = parsed.value;
+  }
+  return { value: { image: value.image, analysis: analysis.value, language: value.language as Locale, descriptor } };
+}
+
+const MAX_LOCALIZE_SIGNS = 20;
+
+export function parseLocalizeQuery(body: unknown): ValidationResult<LocalizeQuery> {
+  if (!isPlainObject(body)) {
+    return { error: "Request body must be a JSON object." };
+  }
+  const descriptor = parseDescriptor("descriptor", body.descriptor);
+  if ("error" in descriptor) return descriptor;
+  const signText = body.signText ?? [];
+  if (!Array.isArray(signText) || signText.length > MAX_LOCALIZE_SIGNS ||
+    signText.some(sign => typeof sign !== "string" || sign.length > MAX_DESCRIPTION_LENGTH)) {
+    return { error: `signText must be at most ${MAX_LOCALIZE_SIGNS} strings.` };
+  }
+  if (body.description !== undefined && body.description !== null &&
+    (typeof body.description !== "string" || body.description.length > MAX_DESCRIPTION_LENGTH)) {
+    return { error: `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters.` };
+  }
+  return {
+    value: {
+      descriptor: descriptor.value,
+      signText: (signText as string[]).map(sign => sign.trim()).filter(Boolean),
+      description: (body.description as string | undefined)?.trim() || null
+    }
+  };
+}
+
+const MAX_REVIEW_NOTE_LENGTH = 280;
+
+export interface ReviewInput {
+  verdict: ReviewVerdict;
+  note: string | null;
+}
+
+export function parseReviewInput(body: unknown): ValidationResult<ReviewInput> {
+  if (!isPlainObject(body)) {
+    return { error: "Request body must be a JSON object." };
+  }
+  const verdict = parseEnum("verdict", REVIEW_VERDICTS, body.verdict);
+  if ("error" in verdict) return verdict;
+  if (body.note !== undefined && body.note !== null &&
+    (typeof body.note !== "string" || body.note.length > MAX_REVIEW_NOTE_LENGTH)) {
+    return { error: `note must be a string of at most ${MAX_REVIEW_NOTE_LENGTH} characters.` };
+  }
+  return { value: { verdict: verdict.value, note: (body.note as string | undefined)?.trim() || null } };
+}
+
+/** An edge as posted by a client; distanceMeters may be left out and derived from node coordinates. */
+export type SpatialEdgeDraft = Omit<NewSpatialEdge, "distanceMeters"> & { distanceMeters: number | null };
+
+export function parseEdgeInput(buildingId: string, body: unknown): ValidationResult<SpatialEdgeDraft> {
+  if (!isPlainObject(body)) {
+    return { error: "Request body must be a JSON object." };
+  }
+  if (!isValidId(body.fromNodeId) || !isValidId(body.toNodeId)) {
+    return { error: "fromNodeId and toNodeId must be valid node ids." };
+  }
+  if (body.fromNodeId === body.toNodeId) {
+    return { error: "An edge must connect two different nodes." };
+  }
+  if (body.distanceMeters !== undefined && (!Number.isFinite(body.distanceMeters) || (body.distanceMeters as number) <= 0)) {
+    return { error: "distanceMeters must be a positive number." };
+  }
+
+  const flags = ["bidirectional", "hasStairs", "hasRamp", "hasElevator", "wheelchairAccessible", "tactilePaving"] as const;
+  const invalidFlag = flags.find(flag => body[flag] !== undefined && typeof body[flag] !== "boolean");
+  if (invalidFlag) {
+    return { error: `${invalidFlag} must be a boolean.` };
+  }
+
+  const hasStairs = body.hasStairs === true;
+  return {
+    value: {
+      buildingId,
+      fromNodeId: body.fromNodeId,
+      toNodeId: body.toNodeId,
+      distanceMeters: (body.distanceMeters as number | undefined) ?? null,
+      bidirectional: body.bidirectional !== false,
+      hasStairs,
+      hasRamp: body.hasRamp === true,
+      hasElevator: body.hasElevator === true,
+      wheelchairAccessible: (body.wheelchairAccessible as boolean | undefined) ?? !hasStairs,
+      tactilePaving: body.tactilePaving === true
+    }
+  };
+}
+
+const MAX_IMAGE_BASE64_LENGTH = 8 * 1024 * 1024;
+const MAX_PROMPT_FIELD_LENGTH = 500;
+const MAX_ROUTE_STEPS = 50;
+const MAX_TTS_TEXT_LENGTH = 1000;
+
+export function parseDescribeRequest(body: unknown): ValidationResult<DescribeSceneRequest> {
+  if (!isPlainObject(body)) {
+    return { error: "Request body must be a JSON object." };
+  }
+  if (typeof body.image !== "string" || body.image.length === 0 || body.image.length > MAX_IMAGE_BASE64_LENGTH) {
+    return { error: "image must be a base64 JPEG under 8 MB." };
+  }
+  if (!/^[A-Za-z0-9+/]+=*$/.test(body.image)) {
+    return { error: "image must be base64 without a data: prefix." };
+  }
+  const optionalText = ["question", "navigationTarget", "targetLanguage", "routeProgress"] as const;
+  const invalidText = optionalText.find(field =>
+    body[field] !== undefined && body[field] !== null &&
+    (typeof body[field] !== "string" || (body[field] as string).length > MAX_PROMPT_FIELD_LENGTH)
+  );
+  if (invalidText) {
+    return { error: `${invalidText} must be a string of at most ${MAX_PROMPT_FIELD_LENGTH} characters.` };
+  }
+  const steps = body.routeSteps;
+  if (steps !== undefined && steps !== null && (
+    !Array.isArray(steps) || steps.length > MAX_ROUTE_STEPS ||
+    steps.some(step => typeof step !== "string" || step.length > MAX_PROMPT_FIELD_LENGTH)
+  )) {
+    return { error: `routeSteps must be at most ${MAX_ROUTE_STEPS} strings.` };
+  }
+
+  return {
+    value: {
+      image: body.image,
+      question: (body.question as string | undefined) || undefined,
+      navigationTarget: (body.navigationTarget as string | undefined) || undefined,
+      targetLanguage: (body.targetLanguage as string | undefined) || "English",
+      routeSteps: (steps as string[] | undefined) || undefined,
+      routeProgress: (body.routeProgress as string | undefined) || undefined
+    }
+  };
+}
+
+export function parseTtsText(body: unknown): ValidationResult<string> {
+  if (!isPlainObject(body) || typeof body.text !== "string" || body.text.trim().length === 0) {
+    return { error: "text must be a non-empty string." };
+  }
+  if (body.text.length > MAX_TTS_TEXT_LENGTH) {
+    return { error: `text must be at most ${MAX_TTS_TEXT_LENGTH} characters.` };
+  }
+  return { value: body.text.trim() };
+}
+
+const LANG_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/;
+
+export interface TtsRequest {
+  text: string;
+  /** Part of the cache key; ElevenLabs itself detects the language from the text. */
+  lang: string | null;
+  /** Set by the client for fixed system phrases; only those are read from and written to the cache. */
+  cache: boolean;
+}
+
+export function parseTtsRequest(body: unknown): ValidationResult<TtsRequest> {
+  const text = parseTtsText(body);
+  if ("error" in text) return text;
+  const { lang, cache } = body as Record<string, unknown>;
+  if (lang !== undefined && lang !== null && (typeof lang !== "string" || !LANG_PATTERN.test(lang))) {
+    return { error: "lang must be a language tag such as en-US." };
+  }
+  if (cache !== undefined && typeof cache !== "boolean") {
+    return { error: "cache must be a boolean." };
+  }
+  return { value: { text: text.value, lang: (lang as string | undefined) || null, cache: cache === true } };
+}
+
+export interface LocalTtsRequest {
+  text: string;
+  lang: string;
+  rate: number;
+  pitch: number;
+}
+
+export function parseLocalTtsRequest(body: unknown): ValidationResult<LocalTtsRequest> {
+  const text = parseTtsText(body);
+  if ("error" in text) return text;
+  const { lang, rate, pitch } = body as Record<string, unknown>;
+  if (typeof lang !== "string" || !LANG_PATTERN.test(lang)) {
+    return { error: "lang must be a language tag such as en-US." };
+  }
+  const inRange = (value: unknown) => value === undefined || (typeof value === "number" && value >= 0.5 && value <= 2);
+  if (!inRange(rate) || !inRange(pitch)) {
+    return { error: "rate and pitch must be between 0.5 and 2." };
+  }
+  return { value: { text: text.value, lang, rate: (rate as number | undefined) ?? 1, pitch: (pitch as number | undefined) ?? 1 } };
+}
@@ -0,0 +1,42 @@
+import type { DescribeSceneRequest, SceneAnalysis } from "../src/services/sceneAnalysis";
+import { GeminiVisionProvider } from "./geminiVision";
+import { OpenAiCompatibleVisionProvider } from "./openAiVision";
+import { FixtureVisionProvider } from "./fixtureVision";
+
+export interface DescribeOptions {
+  signal?: AbortSignal;
+  /** Receives raw model text as it streams in. */
+  onChunk?: (text: string) => void;
+}
+
+/** A vision model that turns a camera frame into a validated SceneAnalysis. */
+export interface VisionProvider {
+  readonly name: string;
+  readonly model: string;
+  describeScene(request: DescribeSceneRequest, options?: DescribeOptions): Promise<SceneAnalysis>;
+}
+
+/**
+ * Picks the provider from VISION_PROVIDER ("gemini" by default, "openai" or "fixture")
+ * and VISION_MODEL. Returns null when the chosen provider is missing its credentials.
+ */
+export function createVisionProvider(): VisionProvider | null {
+  const choice = process.env.VISION_PROVIDER || "gemini";
+  const model = process.env.VISION_MODEL || undefined;
+
+  if (choice === "fixture") {
+    return new FixtureVisionProvider(process.env.VISION_FIXTURES_DIR || "fixtures/vision");
+  }
+  if (choice === "openai") {
+    const baseUrl = process.env.VISION_BASE_URL || "http://localhost:11434/v1";
+    if (!model) {
+      console.warn("VISION_PROVIDER=openai needs VISION_MODEL (e.g. llava or gpt-4o-mini). Vision is disabled.");
+      return null;
+    }
+    return new OpenAiCompatibleVisionProvider(baseUrl, model, process.env.VISION_API_KEY || undefined);
+  }
+  if (choice !== "gemini") {
+    console.warn(`Unknown VISION_PROVIDER "${choice}". Using Gemini.`);
+  }
+  return process.env.GEMINI_API_KEY ? new GeminiVisionProvider(process.env.GEMINI_API_KEY, model) : null;
+}
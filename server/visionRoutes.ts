@@ -0,0 +1,67 @@
+import express, { Router } from "express";
+import type { VisionStreamEvent } from "../src/services/sceneAnalysis";
+import { SceneStreamParser } from "../src/services/sceneStream";
+import type { VisionProvider } from "./visionProvider";
+import { createRateLimiter } from "./rateLimit";
+import { currentUserId } from "./accounts";
+import type { PointsService } from "./points";
+import { parseDescribeRequest } from "./validation";
+
+/**
+ * Vision proxy, mounted at /api/vision.
+ * POST /describe answers with newline-delimited VisionStreamEvent JSON: hazards and
+ * narration sentences as the model writes them, then one "result" (or "error") line.
+ * A successful scan by a signed-in device earns scan points.
+ */
+export function createVisionRouter(vision: VisionProvider | null, points: PointsService): Router {
+  const router = Router();
+  // Camera frames are far larger than the app-wide JSON limit
+  router.use(express.json({ limit: "10mb" }));
+
+  const limiter = createRateLimiter({
+    name: "vision",
+    windowMs: 60_000,
+    maxPerSession: Number(process.env.VISION_RATE_LIMIT_PER_MINUTE) || 20,
+    maxPerIp: (Number(process.env.VISION_RATE_LIMIT_PER_MINUTE) || 20) * 3
+  });
+
+  router.post("/describe", limiter, async (req, res) => {
+    if (!vision) {
+      return res.status(503).json({ error: "Vision is not configured. Check VISION_PROVIDER and its credentials on the server." });
+    }
+    const parsed = parseDescribeRequest(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    // Stop paying for the model call once the client has gone away
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+    res.setHeader("Cache-Control", "no-store");
+    const send = (event: VisionStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+    const narration = new SceneStreamParser(send);
+
+    try {
+      const analysis = await vision.describeScene(parsed.value, {
+        signal: controller.signal,
+        onChunk: text => narration.push(text)
+      });
+      send({ type: "result", analysis });
+      const userId = currentUserId(res);
+      if (userId) {
+        await points.award(userId, "scan").catch(error => console.error("Points Award Error:", error));
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Vision Describe Error:", error);
+      send({ type: "error", error: "Failed to analyze the scene." });
+    }
+    res.end();
+  });
+
+  return router;
+}
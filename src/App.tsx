@@ -3,7 +3,6 @@ import {
   Eye, 
   Mic, 
   Map as MapIcon, 
-  ShieldCheck, 
   Zap, 
   Coins, 
   ChevronRight,
@@ -12,12 +11,41 @@ import {
   AlertCircle,
   AlertTriangle,
   MapPin,
-  HelpCircle
+  HelpCircle,
+  Footprints,
+  Ear,
+  Cloud,
+  CloudOff,
+  RefreshCw,
+  ClipboardCheck,
+  Camera
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GeminiService } from './services/gemini';
+import { VisionService, captureFrame, type VisionResult } from './services/vision';
+import { GuidanceDirection, NarrationEvent, SceneAnalysis, SceneHazard, isAtLeastSeverity, selectWarnings } from './services/sceneAnalysis';
 import { ElevenLabsService } from './services/elevenlabs';
-import { SnowflakeService, SpatialNode } from './services/snowflake';
+import { NativeSpeechService } from './services/nativeSpeech';
+import { LocalServerSpeechService } from './services/localSpeech';
+import { SpeechManager, SpeechPriority, VoiceSettings } from './services/speechManager';
+import { IndexedDbTtsCache } from './services/ttsCache';
+import { fetchServiceStatus } from './services/session';
+import { AccountService } from './services/account';
+import { HazardSeverity, NewSpatialNode, NodeStatus, SpatialNode } from './services/registry';
+import { ModeratedNode, ModerationService, ReviewVerdict } from './services/moderation';
+import { NewNodeSnapshot, createThumbnail, fetchSnapshot, snapshotImageUrl } from './services/snapshots';
+import { LocalizeResponse, PlaceDescriptor, PlaceRecognitionService, computePlaceDescriptor } from './services/placeRecognition';
+import { MotionTracker, PositionEstimate, RouteProgress, routeProgress } from './services/deadReckoning';
+import { OfflineRegistry, SyncResult, SyncState, SyncStatus } from './services/offlineRegistry';
+import { classifyHazard } from './services/hazards';
+import { NavigationService, RoutePlan, TurnDirection, describeRouteStep } from './services/navigation';
+import { Building, BuildingService, floorName } from './services/buildings';
+import { HazardDeduper, WalkModeScanner, computeFrameSignature } from './services/walkMode';
+import { HeuristicHazardDetector, LOCAL_CUE_REPEAT_MS, LocalHazard, localHazardKey, readFrame } from './services/hazardDetector';
+import { DEFAULT_LOCALE, LANGUAGES, Locale, MessageKey, MessageParams, getLanguage, t } from './services/i18n';
+import { matchWakePhrase, parseIntent } from './services/intents';
+import { ListenerState, VoiceListener } from './services/voiceListener';
+import { EarconPlayer } from './services/earcons';
+import { CUE_MODES, CueMode, HapticCue, HapticPlayer, directionCue } from './services/haptics';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -25,175 +53,241 @@ function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// Question sent for "read this"; the answer still comes back in the user's language
+const READ_TEXT_QUESTION = "Read out every sign and piece of text you can see, word for word.";
+
+const HANDS_FREE_STORAGE_KEY = "visionbuddy_hands_free";
+const CUE_MODE_STORAGE_KEY = "visionbuddy_cue_mode";
+
+// Signs read this recently are assumed to still be in view when asking "where am I?"
+const RECENT_SCENE_MS = 15_000;
+// A recognized position older than this no longer places new pins
+const POSITION_MAX_AGE_MS = 2 * 60_000;
+// Step counting is rarely closer than this, so within it the route counts as walked
+const ARRIVAL_RADIUS_METERS = 2;
+
+const NODE_STATUS_LABELS: Record<NodeStatus, MessageKey> = {
+  pending: "places.pending",
+  verified: "places.verified",
+  rejected: "places.rejected",
+  stale: "places.stale"
+};
+
+const SYNC_LABELS: Record<SyncState, MessageKey> = {
+  checking: "sync.checking",
+  online: "sync.online",
+  offline: "sync.offline",
+  syncing: "sync.syncing"
+};
+
+const CUE_MODE_LABELS: Record<CueMode, MessageKey> = {
+  audio: "cues.audio",
+  haptic: "cues.haptic",
+  both: "cues.both"
+};
+
+const HAPTIC_CUE_LABELS: Record<HapticCue, MessageKey> = {
+  turn_left: "cues.turn_left",
+  turn_right: "cues.turn_right",
+  on_course: "cues.on_course",
+  arrived: "cues.arrived",
+  hazard_low: "cues.hazard_low",
+  hazard_medium: "cues.hazard_medium",
+  hazard_high: "cues.hazard_high"
+};
+
 export default function App() {
   const [isScanning, setIsScanning] = useState(false);
-  const [isListening, setIsListening] = useState(false);
+  const [listenerState, setListenerState] = useState<ListenerState>("off");
+  const [isHandsFree, setIsHandsFree] = useState(false);
+  const [cueMode, setCueMode] = useState<CueMode>("audio");
+  const cueModeRef = useRef<CueMode>("audio");
   const [lastDescription, setLastDescription] = useState<string>("");
   const [lastSceneDescription, setLastSceneDescription] = useState<string>("");
   const [lastHazard, setLastHazard] = useState<string | null>(null);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [lastAnalysis, setLastAnalysis] = useState<SceneAnalysis | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [solanaBalance, setSolanaBalance] = useState(1.245);
-  const [currentBuilding, setCurrentBuilding] = useState("UTM Campus Building");
-  const currentBuildingId = "utm_campus_main";
+  // Buddy Points balance from the server ledger; null until it has loaded
+  const [pointsBalance, setPointsBalance] = useState<number | null>(null);
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [showReviewQueue, setShowReviewQueue] = useState(false);
+  const [reviewQueue, setReviewQueue] = useState<ModeratedNode[]>([]);
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [reviewingNodeId, setReviewingNodeId] = useState<string | null>(null);
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [currentBuildingId, setCurrentBuildingId] = useState("utm_campus_main");
+  const [currentFloor, setCurrentFloor] = useState(0);
+  const currentBuilding = buildings.find(b => b.id === currentBuildingId);
   const [goldenPath, setGoldenPath] = useState<SpatialNode[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
+  const [speechEngine, setSpeechEngine] = useState<string | null>(null);
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const [nativeVoices, setNativeVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [navigationTarget, setNavigationTarget] = useState<string | null>(null);
-  const [isSnowflakeConnected, setIsSnowflakeConnected] = useState<boolean | null>(null);
-  const [currentLanguage, setCurrentLanguage] = useState<string>("English");
-  const currentLanguageRef = useRef<string>("English");
+  const [activeRoute, setActiveRoute] = useState<RoutePlan | null>(null);
+  const [routeProgressState, setRouteProgressState] = useState<RouteProgress | null>(null);
+  const [avoidStairs, setAvoidStairs] = useState(false);
+  const [isWalkMode, setIsWalkMode] = useState(false);
+  const [isSetupRequired, setIsSetupRequired] = useState(false);
+  const [currentLocale, setCurrentLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const currentLocaleRef = useRef<Locale>(DEFAULT_LOCALE);
+  const lastAnalysisRef = useRef<SceneAnalysis | null>(null);
+  const lastSnapshotRef = useRef<NewNodeSnapshot | null>(null);
+  const lastSceneAtRef = useRef(0);
+  // Last registry node the user is known to be at (set when they pin a place or it is recognized)
+  const currentNodeIdRef = useRef<string | null>(null);
+  // Where place recognition last confidently put the user
+  const recognizedPositionRef = useRef<{ node: SpatialNode; at: number } | null>(null);
+  const activeRouteRef = useRef<RoutePlan | null>(null);
+  const routeProgressRef = useRef<RouteProgress | null>(null);
+  // Set once the arrival has been announced, so it is not repeated on every step
+  const arrivedRef = useRef(false);
+  const avoidStairsRef = useRef(false);
+  const buildingsRef = useRef<Building[]>([]);
+  const currentBuildingIdRef = useRef("utm_campus_main");
+  const currentFloorRef = useRef(0);
+  // Weak search match waiting for the user to confirm "did you mean…"
+  const pendingSuggestionRef = useRef<SpatialNode | null>(null);
   const hazardAudioRef = useRef<HTMLAudioElement | null>(null);
+  const navigationTargetRef = useRef<string | null>(null);
+  const goldenPathRef = useRef<SpatialNode[]>([]);
+  // Last thing said aloud, for "repeat that"
+  const lastSpokenRef = useRef<string | null>(null);
+  const walkScannerRef = useRef<WalkModeScanner | null>(null);
+  const hazardDeduperRef = useRef(new HazardDeduper());
+  const signatureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Local cues repeat sooner than Gemini warnings since they are only a tone and a word
+  const localCueDeduperRef = useRef(new HazardDeduper(LOCAL_CUE_REPEAT_MS));
+  const detectorCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const thumbnailCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const placeCanvasRef = useRef<HTMLCanvasElement | null>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const recognitionRef = useRef<any>(null);
+  // The listener outlives renders, so commands go through the latest handler
+  const commandHandlerRef = useRef<(utterance: string) => void>(() => {});
+  const handleSyncedRef = useRef<(result: SyncResult) => void>(() => {});
+  const handlePositionRef = useRef<(estimate: PositionEstimate) => void>(() => {});
 
   // Initialize Services
-  const gemini = new GeminiService(process.env.GEMINI_API_KEY || "");
-  const elevenLabs = new ElevenLabsService(
-    process.env.ELEVENLABS_API_KEY || "", 
-    process.env.ELEVENLABS_VOICE_ID || "pMs7uS297jtjz4kyM997" // Default to Serena UUID
-  );
-  const snowflake = new SnowflakeService();
+  const vision = new VisionService();
+  // Speech keeps its queue across renders, so it is created once
+  const [nativeSpeech] = useState(() => new NativeSpeechService());
+  const [speech] = useState(() => new SpeechManager([new ElevenLabsService(new IndexedDbTtsCache()), nativeSpeech, new LocalServerSpeechService()]));
+  const [earcons] = useState(() => new EarconPlayer());
+  const [haptics] = useState(() => new HapticPlayer());
+  // Holds the sync queue and its status, so it is created once like speech
+  const [registry] = useState(() => new OfflineRegistry());
+  const [account] = useState(() => new AccountService());
+  const [moderation] = useState(() => new ModerationService());
+  const [placeRecognition] = useState(() => new PlaceRecognitionService());
+  const [motionTracker] = useState(() => new MotionTracker(estimate => handlePositionRef.current(estimate)));
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: "checking", pending: 0, lastSyncedAt: null });
+  const [listener] = useState(() => {
+    let previous: ListenerState = "off";
+    return new VoiceListener({
+      onCommand: utterance => commandHandlerRef.current(utterance),
+      matchWake: transcript => matchWakePhrase(transcript, currentLocaleRef.current),
+      onStateChange: state => {
+        // Pausing for the app's own speech is not the end of a command
+        if (state === "command" && previous !== "command") earcons.listeningStarted();
+        else if (previous === "command" && state !== "paused") earcons.listeningStopped();
+        previous = state;
+        setListenerState(state);
+      },
+      onError: error => {
+        console.error("Voice listener stopped:", error);
+        setIsHandsFree(false);
+        playSystemMessage("speech.mic_blocked");
+      }
+    });
+  });
+  const navigation = new NavigationService();
+  const buildingService = new BuildingService();
+  const hazardDetector = new HeuristicHazardDetector();
 
   useEffect(() => {
     startCamera();
+    loadBuildings();
     loadSpatialData();
-    setupSpeechRecognition();
+    refreshPoints();
+    const unsubscribeSync = registry.subscribe(setSyncStatus);
+    const stopSync = registry.start(result => handleSyncedRef.current(result));
+    listener.setLanguage(getLanguage(currentLocaleRef.current).speechTag);
+    if (localStorage.getItem(HANDS_FREE_STORAGE_KEY) === "true") {
+      listener.setHandsFree(true);
+      setIsHandsFree(true);
+    }
+    const savedCueMode = localStorage.getItem(CUE_MODE_STORAGE_KEY) as CueMode | null;
+    if (savedCueMode && CUE_MODES.includes(savedCueMode)) {
+      cueModeRef.current = savedCueMode;
+      setCueMode(savedCueMode);
+    }
+    fetchServiceStatus()
+      .then(status => {
+        setIsSetupRequired(!status.vision || !status.tts);
+        if (status.tts) prewarmSystemMessages(currentLocaleRef.current);
+      })
+      .catch(err => console.error("Service status check failed:", err));
+    return () => {
+      walkScannerRef.current?.stop();
+      motionTracker.stop();
+      listener.stop();
+      unsubscribeSync();
+      stopSync();
+    };
   }, []);
 
-  const languageKeywords: Record<string, string> = {
-    "Spanish": "es-ES",
-    "French": "fr-FR",
-    "German": "de-DE",
-    "Chinese": "zh-CN",
-    "Japanese": "ja-JP",
-    "Hindi": "hi-IN",
-    "English": "en-US",
-    "Portuguese": "pt-BR",
-    "Italian": "it-IT"
-  };
-
-  const handleLanguageChange = (langName: string) => {
-    setCurrentLanguage(langName);
-    currentLanguageRef.current = langName;
-    setupSpeechRecognition(languageKeywords[langName]);
-    
-    // Localized confirmations
-    const confirmations: Record<string, string> = {
-      "Spanish": "Idioma cambiado a español.",
-      "French": "Langue réglée sur le français.",
-      "German": "Sprache auf Deutsch eingestellt.",
-      "Chinese": "语言已设置为中文。",
-      "Japanese": "言語が日本語に設定されました。",
-      "Hindi": "भाषा हिंदी में सेट की गई है।",
-      "English": "Language set to English.",
-      "Portuguese": "Idioma definido para português.",
-      "Italian": "Lingua impostata su italiano."
-    };
-    
-    playMessage(confirmations[langName] || `Language set to ${langName}.`);
+  useEffect(() => {
+    navigationTargetRef.current = navigationTarget;
+  }, [navigationTarget]);
+
+  useEffect(() => {
+    goldenPathRef.current = goldenPath;
+  }, [goldenPath]);
+
+  const handleLanguageChange = (locale: Locale) => {
+    const { speechTag } = getLanguage(locale);
+    setCurrentLocale(locale);
+    currentLocaleRef.current = locale;
+    listener.setLanguage(speechTag);
+    setNativeVoices(nativeSpeech.voicesFor(speechTag));
+    playSystemMessage("speech.language_set");
+    prewarmSystemMessages(locale);
   };
 
-  const getSystemMessage = (key: string, param?: string) => {
-    const messages: Record<string, Record<string, string>> = {
-      "English": {
-        "navigating": `Navigating to ${param}. I will guide you.`,
-        "sign_hunting": `I'll look for signs for ${param}. Let's go.`,
-        "pinned": "Location pinned to spatial registry. Awaiting audit.",
-        "pin_failed": "Failed to save location to registry."
-      },
-      "Spanish": {
-        "navigating": `Navegando hacia ${param}. Te guiaré.`,
-        "sign_hunting": `Buscaré señales para ${param}. Vamos.`,
-        "pinned": "Ubicación fijada en el registro espacial. Esperando auditoría.",
-        "pin_failed": "Error al guardar la ubicación en el registro."
-      },
-      "French": {
-        "navigating": `Navigation vers ${param}. Je vais vous guider.`,
-        "sign_hunting": `Je vais chercher des panneaux pour ${param}. Allons-y.`,
-        "pinned": "Emplacement épinglé dans le registre spatial. En attente d'audit.",
-        "pin_failed": "Échec de l'enregistrement de l'emplacement."
-      },
-      "German": {
-        "navigating": `Navigiere zu ${param}. Ich werde dich führen.`,
-        "sign_hunting": `Ich werde nach Schildern für ${param} suchen. Los geht's.`,
-        "pinned": "Standort im räumlichen Register markiert. Audit ausstehend.",
-        "pin_failed": "Standort konnte nicht im Register gespeichert werden."
-      },
-      "Hindi": {
-        "navigating": `${param} की ओर जा रहे हैं। मैं आपका मार्गदर्शन करूँगा।`,
-        "sign_hunting": `मैं ${param} के लिए संकेतों की तलाश करूँगा। चलिए।`,
-        "pinned": "स्थान स्थानिक रजिस्ट्री में पिन किया गया। ऑडिट की प्रतीक्षा है।",
-        "pin_failed": "रजिस्ट्री में स्थान सहेजने में विफल।"
-      }
-      // Add more as needed
-    };
+  // Fixed phrases (no parameters) worth having synthesized before they are needed
+  const PREWARMED_MESSAGES: MessageKey[] = ["speech.pinned", "speech.pin_failed", "speech.walk_on", "speech.walk_off", "speech.local_stairs", "speech.local_drop_off"];
 
-    const langMessages = messages[currentLanguage] || messages["English"];
-    return langMessages[key] || messages["English"][key];
+  const prewarmSystemMessages = (locale: Locale) => {
+    const texts = PREWARMED_MESSAGES.map(key => t(locale, key));
+    speech.prewarm(texts, getLanguage(locale).speechTag);
   };
 
-  const playMessage = async (text: string) => {
-    console.log("Attempting to play message:", text);
-    setIsAudioPlaying(true);
-    try {
-      // Stop any current speech synthesis
-      window.speechSynthesis.cancel();
+  // Spoken text reads the ref so callbacks created before a language change still use the new one
+  const message = (key: MessageKey, params?: MessageParams) => t(currentLocaleRef.current, key, params);
+  const text = (key: MessageKey, params?: MessageParams) => t(currentLocale, key, params);
 
-      // Try ElevenLabs first
-      const voiceUrl = await elevenLabs.speak(text);
-      console.log("ElevenLabs voice URL:", voiceUrl ? "Generated" : "FAILED (Falling back to native)");
-      
-      if (voiceUrl) {
-        setAudioUrl(voiceUrl);
-        if (audioRef.current) {
-          // Stop current audio if it's playing
-          audioRef.current.pause();
-          audioRef.current.currentTime = 0;
-          
-          audioRef.current.src = voiceUrl;
-          audioRef.current.load();
-          
-          // Handle the play promise to catch interruptions
-          try {
-            await audioRef.current.play();
-            console.log("Audio playback started successfully");
-          } catch (playErr: any) {
-            if (playErr.name !== 'AbortError') {
-              console.error("Audio play failed:", playErr);
-              // Fallback if play() fails
-              const utterance = new SpeechSynthesisUtterance(text);
-              utterance.onend = () => setIsAudioPlaying(false);
-              window.speechSynthesis.speak(utterance);
-            } else {
-              setIsAudioPlaying(false);
-            }
-          }
-        }
-      } else {
-        // Fallback to Native TTS
-        const utterance = new SpeechSynthesisUtterance(text);
-        utterance.lang = languageKeywords[currentLanguageRef.current] || 'en-US';
-        utterance.rate = 0.9;
-        utterance.pitch = 1.0;
-        utterance.onend = () => setIsAudioPlaying(false);
-        window.speechSynthesis.speak(utterance);
-        console.log(`Native TTS started in ${utterance.lang}`);
-      }
-    } catch (err) {
-      console.error("Audio playback failed:", err);
-      // Last resort fallback
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = languageKeywords[currentLanguageRef.current] || 'en-US';
-      utterance.onend = () => setIsAudioPlaying(false);
-      window.speechSynthesis.speak(utterance);
-    }
+  const currentSpeechLang = () => getLanguage(currentLocaleRef.current).speechTag;
+
+  // Queued through the speech manager: a hazard cuts off a description, equal priorities wait their turn
+  const playMessage = (text: string, priority: SpeechPriority = "info") => {
+    lastSpokenRef.current = text;
+    return speech.speak(text, { priority, lang: currentSpeechLang() });
+  };
+
+  // Parameterless messages read the same every time, so their audio may be cached
+  const playSystemMessage = (key: MessageKey, priority: SpeechPriority = "info") => {
+    const text = message(key);
+    lastSpokenRef.current = text;
+    return speech.speak(text, { priority, lang: currentSpeechLang(), cache: true });
   };
 
-  const playHazardAlert = () => {
+  // Tones and vibration follow the cue mode; spoken warnings play in every mode
+  const playHazardAlert = (severity: HazardSeverity) => {
+    if (cueModeRef.current !== "audio") haptics.hazard(severity);
+    if (cueModeRef.current === "haptic") return Promise.resolve();
     return new Promise<void>((resolve) => {
       if (!hazardAudioRef.current) {
         hazardAudioRef.current = new Audio("https://assets.mixkit.co/active_storage/sfx/2869/2869-preview.mp3");
@@ -207,136 +301,394 @@ export default function App() {
     });
   };
 
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (audio) {
-      const handleEnd = () => setIsAudioPlaying(false);
-      audio.addEventListener('ended', handleEnd);
-      return () => audio.removeEventListener('ended', handleEnd);
-    }
-  }, []);
+  // Immediate on-device warning, spoken with the browser voice so it does not
+  // wait on the network like playMessage does
+  const playLocalCue = (hazard: LocalHazard) => {
+    if (!localCueDeduperRef.current.shouldAnnounce(localHazardKey(hazard))) return;
 
-  const setupSpeechRecognition = (lang: string = 'en-US') => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (SpeechRecognition) {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-      recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.continuous = false;
-      recognitionRef.current.interimResults = false;
-      recognitionRef.current.lang = lang;
+    cueHazard(hazard.type === "drop_off" ? "high" : "medium");
+    const cue = message(`speech.local_${hazard.type}`, { bearing: hazard.bearing ?? "" });
+    speech.speak(cue, { priority: "hazard", lang: currentSpeechLang(), offline: true });
+  };
 
-      recognitionRef.current.onresult = (event: any) => {
-        const transcript = event.results[0][0].transcript;
-        handleUserQuestion(transcript);
-      };
+  const cueHazard = (severity: HazardSeverity) => {
+    if (cueModeRef.current !== "audio") haptics.hazard(severity);
+    if (cueModeRef.current !== "haptic") earcons.hazard(severity === "high");
+  };
+
+  // Guidance a vibration can carry. In haptic mode the vibration replaces the words
+  // whenever there is a cue for the direction; `text` is null when it was already spoken.
+  const cueNavigation = async (text: string | null, direction: GuidanceDirection | TurnDirection | null) => {
+    const cue = direction ? directionCue(direction) : null;
+    if (cue && cueModeRef.current !== "audio") haptics.play(cue);
+    if (text && (cueModeRef.current !== "haptic" || !cue)) await playMessage(text, "navigation");
+  };
 
-      recognitionRef.current.onend = () => {
-        setIsListening(false);
-      };
+  const updateCueMode = (mode: CueMode) => {
+    cueModeRef.current = mode;
+    setCueMode(mode);
+    try {
+      localStorage.setItem(CUE_MODE_STORAGE_KEY, mode);
+    } catch (error) {
+      console.warn("Could not persist cue mode:", error);
+    }
+  };
 
-      recognitionRef.current.onerror = (event: any) => {
-        console.error("Speech recognition error", event.error);
-        setIsListening(false);
-      };
+  const runLocalHazardCheck = async () => {
+    const video = videoRef.current;
+    if (!video || video.readyState < 2) return;
+    if (!detectorCanvasRef.current) detectorCanvasRef.current = document.createElement('canvas');
+    const frame = readFrame(video, detectorCanvasRef.current);
+    if (!frame) return;
+    try {
+      const [top] = await hazardDetector.detect(frame);
+      if (top) playLocalCue(top);
+    } catch (err) {
+      console.error("Local hazard check failed:", err);
     }
   };
 
+  useEffect(() => {
+    const unsubscribe = speech.subscribe(state => {
+      setIsAudioPlaying(state.isSpeaking);
+      setSpeechEngine(state.engine);
+      // Stop listening while talking so the app does not answer itself
+      if (state.isSpeaking) listener.pause();
+      else listener.resume();
+    });
+    // Browsers load voices asynchronously
+    const loadVoices = () => setNativeVoices(nativeSpeech.voicesFor(currentSpeechLang()));
+    loadVoices();
+    window.speechSynthesis?.addEventListener('voiceschanged', loadVoices);
+    return () => {
+      unsubscribe();
+      speech.stop();
+      window.speechSynthesis?.removeEventListener('voiceschanged', loadVoices);
+    };
+  }, []);
+
+  const currentLanguage = getLanguage(currentLocale);
+  const voiceSettings = speech.getVoiceSettings(currentLanguage.speechTag);
+
+  const updateVoiceSettings = (patch: Partial<VoiceSettings>) => {
+    speech.setVoiceSettings(currentLanguage.speechTag, patch);
+    setNativeVoices(nativeSpeech.voicesFor(currentLanguage.speechTag));
+  };
+
   const toggleListening = () => {
-    if (isListening) {
-      recognitionRef.current?.stop();
-    } else {
-      setIsListening(true);
-      recognitionRef.current?.start();
+    if (listener.state === "command") {
+      listener.cancelCommand();
+      return;
     }
+    // Tapping the mic interrupts whatever is being said
+    speech.stop();
+    listener.listenOnce();
   };
 
-  const handleUserQuestion = async (question: string) => {
-    if (!videoRef.current || !canvasRef.current || isLoading) return;
-    
-    setIsLoading(true);
-    setLastDescription(`Listening: "${question}"`);
-
-    const lowerQuestion = question.toLowerCase();
-
-    // Language Detection Logic
-    for (const [langName, langCode] of Object.entries(languageKeywords)) {
-      const l = langName.toLowerCase();
-      // More restrictive matching to avoid accidental switches
-      if (
-        lowerQuestion.includes(`speak in ${l}`) || 
-        lowerQuestion.includes(`switch to ${l}`) ||
-        lowerQuestion.includes(`talk in ${l}`) ||
-        lowerQuestion.includes(`change language to ${l}`)
-      ) {
-        handleLanguageChange(langName);
-        setIsLoading(false);
-        return;
-      }
+  const toggleHandsFree = () => {
+    const enabled = !listener.isHandsFree;
+    listener.setHandsFree(enabled);
+    setIsHandsFree(enabled);
+    try {
+      localStorage.setItem(HANDS_FREE_STORAGE_KEY, String(enabled));
+    } catch (error) {
+      console.warn("Could not persist hands-free setting:", error);
     }
+    playMessage(message(enabled ? "speech.hands_free_on" : "speech.hands_free_off"));
+  };
 
-    // Detect pin intent
-    const pinKeywords = ["pin this", "save this", "remember this", "pin location", "save location", "pin", "save"];
-    const isPinIntent = pinKeywords.some(k => lowerQuestion.includes(k));
+  const handleUserQuestion = async (utterance: string) => {
+    if (!videoRef.current || !canvasRef.current || isLoading) return;
 
-    if (isPinIntent) {
-      await pinLocation();
+    const { intent } = parseIntent(utterance, currentLocaleRef.current);
+    setIsLoading(true);
+    setLastDescription(message("scene.listening", { question: utterance }));
+
+    // Answer to a pending "did you mean…" question
+    const suggestion = pendingSuggestionRef.current;
+    pendingSuggestionRef.current = null;
+    if (suggestion && (intent.type === "confirm" || intent.type === "decline")) {
+      if (intent.type === "confirm") await navigateToNode(suggestion);
       setIsLoading(false);
       return;
     }
 
-    // Detect navigation intent
-    const navKeywords = ["where is", "find", "navigate to", "go to", "looking for", "washroom", "toilet", "exit", "elevator", "restroom"];
-    const isNavIntent = navKeywords.some(k => lowerQuestion.includes(k));
+    try {
+      switch (intent.type) {
+        case "switch_language":
+          handleLanguageChange(intent.locale);
+          return;
+        case "pin":
+          setIsLoading(false);
+          await pinLocation(intent.label || undefined);
+          return;
+        case "cancel_navigation":
+          cancelNavigation();
+          await playSystemMessage("speech.navigation_cancelled");
+          return;
+        case "repeat":
+          await playMessage(lastSpokenRef.current || message("speech.nothing_to_repeat"));
+          return;
+        case "where_am_i":
+          await playMessage(await whereAmI());
+          return;
+        case "navigate":
+          // Wait for the answer to "did you mean…" before looking at the scene
+          if (!(await findDestination(intent.target))) return;
+          break;
+      }
 
-    let targetLangForThisRequest = currentLanguageRef.current;
-    for (const langName of Object.keys(languageKeywords)) {
-      if (lowerQuestion.includes(`translate to ${langName.toLowerCase()}`)) {
-        targetLangForThisRequest = langName;
-        break;
+      // Everything else, and navigation requests once a target is set, goes to the vision model
+      const question = intent.type === "describe" ? undefined
+        : intent.type === "read_text" ? READ_TEXT_QUESTION
+        : utterance;
+      const language = "language" in intent && intent.language ? intent.language : currentLocaleRef.current;
+      await askVision(question, getLanguage(language).name);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  commandHandlerRef.current = handleUserQuestion;
+
+  // Search the registry for a spoken destination; fall back to hunting for signs.
+  // Resolves false when the user was asked to confirm a weak match instead.
+  const findDestination = async (query: string): Promise<boolean> => {
+    const search = await registry.search(query, currentBuildingIdRef.current);
+    const locations = search.results.filter(r => r.score >= search.matchThreshold).map(r => r.node);
+    if (search.confidence === "suggest") {
+      pendingSuggestionRef.current = search.results[0].node;
+      await playMessage(message("speech.did_you_mean", { place: search.results[0].node.description }));
+      return false;
+    }
+    if (locations.length > 0) {
+      // Say which floor each match is on, and prefer one on the user's current floor
+      if (new Set(locations.map(n => n.floor)).size > 1) {
+        const building = buildingsRef.current.find(b => b.id === currentBuildingIdRef.current);
+        const summary = locations.map(n => `${n.description}, ${floorName(building, n.floor, currentLocaleRef.current)}`).join("; ");
+        await playMessage(message("speech.found_on_floors", { count: locations.length, places: summary }));
       }
+      await navigateToNode(locations.find(n => n.floor === currentFloorRef.current) || locations[0]);
+    } else {
+      setNavigationTarget(search.target);
+      navigationTargetRef.current = search.target;
+      updateActiveRoute(null);
+      await playMessage(message("speech.sign_hunting", { place: search.target }));
     }
+    return true;
+  };
+
+  // Keeps what the camera just saw, so a pin made now can carry it as its snapshot,
+  // and checks it against other pins' snapshots to keep the known position current
+  const rememberScene = (analysis: VisionResult, frame: HTMLCanvasElement) => {
+    setLastDescription(analysis.description);
+    setLastSceneDescription(analysis.description);
+    setLastHazard(analysis.hazard);
+    setLastAnalysis(analysis);
+    // A failed request says nothing about this place: forget the last scene rather than pin or match the error
+    if (analysis.isFallback) {
+      lastSnapshotRef.current = null;
+      lastAnalysisRef.current = null;
+      return;
+    }
+    if (!thumbnailCanvasRef.current) thumbnailCanvasRef.current = document.createElement('canvas');
+    if (!placeCanvasRef.current) placeCanvasRef.current = document.createElement('canvas');
+    const image = createThumbnail(frame, thumbnailCanvasRef.current);
+    const descriptor = computePlaceDescriptor(frame, placeCanvasRef.current) || undefined;
+    lastSnapshotRef.current = image ? { image, analysis, language: currentLocaleRef.current, descriptor } : null;
+    lastAnalysisRef.current = analysis;
+    lastSceneAtRef.current = Date.now();
+    if (descriptor) locate(descriptor, analysis);
+  };
 
-    // Capture current frame for context (High Quality)
+  // Spoken questions get the whole answer read out, streamed where possible
+  const askVision = async (question: string | undefined, languageName: string) => {
     const canvas = canvasRef.current;
     const video = videoRef.current;
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    canvas.getContext('2d')?.drawImage(video, 0, 0);
-    const base64Image = canvas.toDataURL('image/jpeg', 1.0).split(',')[1];
+    if (!canvas || !video) return;
+    const base64Image = captureFrame(video, canvas);
+
+    // In haptic mode guidance waits for the direction, which arrives after the words
+    const narrator = createNarrator({ description: true, navigation: cueModeRef.current !== "haptic" });
+    const analysis = await vision.describeScene({
+      image: base64Image,
+      question,
+      navigationTarget: navigationTargetRef.current || undefined,
+      targetLanguage: languageName,
+      routeSteps: routeInstructions(),
+      routeProgress: describeRouteProgress()
+    }, { onNarration: narrator.onNarration });
+    rememberScene(analysis, canvas);
+
+    if (!narrator.spoken.description) {
+      await playMessage(analysis.description);
+    }
+    await cueNavigation(narrator.spoken.navigation ? null : analysis.navigation, analysis.direction);
+  };
 
+  // "What this place looked like" to whoever pinned it
+  const describeSnapshot = async (node: SpatialNode) => {
     try {
-      if (isNavIntent) {
-        // Search Snowflake for relevant locations
-        const locations = await snowflake.searchRegistry(question, currentBuildingId);
-        if (locations.length > 0) {
-          const target = locations[0].description;
-          setNavigationTarget(target);
-          await playMessage(getSystemMessage("navigating", target));
-        } else {
-          // If not in registry, let Gemini try to find it in the scene (Sign Hunting)
-          setNavigationTarget(question);
-          await playMessage(getSystemMessage("sign_hunting", question));
-        }
+      const snapshot = await fetchSnapshot(node.buildingId, node.id);
+      if (!snapshot) {
+        await playSystemMessage("speech.no_snapshot");
+        return;
       }
+      const date = new Date(snapshot.capturedAt).toLocaleDateString(currentSpeechLang(), { month: "long", day: "numeric" });
+      await playMessage(message("speech.snapshot", { date, description: snapshot.analysis.description }));
+      if (snapshot.signText.length > 0) {
+        await playMessage(message("speech.snapshot_signs", { signs: snapshot.signText.join(", ") }));
+      }
+    } catch (err) {
+      console.error("Snapshot fetch failed:", err);
+      await playSystemMessage("speech.no_snapshot");
+    }
+  };
 
-      // Ask Gemini with context
-      const analysis = await gemini.describeScene(base64Image, question, navigationTarget || undefined, targetLangForThisRequest);
-      setLastDescription(analysis.description);
-      setLastSceneDescription(analysis.description);
-      setLastHazard(analysis.hazard);
-
-      // Speak full response for mic questions
-      await playMessage(analysis.description);
-      
-      if (analysis.navigation) {
-        await playMessage(analysis.navigation);
+  // Matches a frame against pin snapshots; a confident match becomes the known position and floor
+  const locate = async (descriptor: PlaceDescriptor, analysis: SceneAnalysis | null): Promise<LocalizeResponse | null> => {
+    const buildingId = currentBuildingIdRef.current;
+    try {
+      const response = await placeRecognition.localize(buildingId, {
+        descriptor,
+        signText: analysis?.signs.map(sign => sign.text) ?? [],
+        description: analysis?.description ?? null
+      });
+      const best = response.results[0];
+      // The user may have switched buildings while the request was out
+      if (response.confidence === "match" && best && buildingId === currentBuildingIdRef.current) {
+        currentNodeIdRef.current = best.node.id;
+        recognizedPositionRef.current = { node: best.node, at: Date.now() };
+        if (best.node.floor !== currentFloorRef.current) handleFloorChange(best.node.floor);
+        // A recognized landmark cancels the drift step counting has built up
+        motionTracker.fix({ ...best.node.coordinates, floor: best.node.floor });
       }
+      return response;
     } catch (err) {
-      console.error(err);
-    } finally {
-      setIsLoading(false);
+      console.error("Localization failed:", err);
+      return null;
+    }
+  };
+
+  // The node the user is at: a recent recognition, or the place they last pinned or navigated from
+  const knownPosition = (): SpatialNode | null => {
+    const recognized = recognizedPositionRef.current;
+    if (recognized && recognized.node.id === currentNodeIdRef.current && Date.now() - recognized.at < POSITION_MAX_AGE_MS) {
+      return recognized.node;
+    }
+    return goldenPathRef.current.find(n => n.id === currentNodeIdRef.current) || null;
+  };
+
+  // Looks at the current frame first; without a confident match, falls back to the last known position
+  const whereAmI = async () => {
+    const video = videoRef.current;
+    if (!placeCanvasRef.current) placeCanvasRef.current = document.createElement('canvas');
+    const descriptor = video ? computePlaceDescriptor(video, placeCanvasRef.current) : null;
+    const recentScene = Date.now() - lastSceneAtRef.current < RECENT_SCENE_MS ? lastAnalysisRef.current : null;
+    const response = descriptor ? await locate(descriptor, recentScene) : null;
+    return describeLocation(response?.confidence === "suggest" ? response.results[0].node : undefined);
+  };
+
+  const describeLocation = (guess?: SpatialNode) => {
+    const building = buildingsRef.current.find(b => b.id === currentBuildingIdRef.current);
+    const params = { building: building?.name || currentBuildingIdRef.current, floor: floorName(building, currentFloorRef.current, currentLocaleRef.current) };
+    if (guess) {
+      return message("speech.where_am_i_maybe", { ...params, floor: floorName(building, guess.floor, currentLocaleRef.current), place: guess.description });
+    }
+    const node = knownPosition();
+    return node
+      ? message("speech.where_am_i_near", { ...params, place: node.description })
+      : message("speech.where_am_i", params);
+  };
+
+  const updateActiveRoute = (plan: RoutePlan | null) => {
+    activeRouteRef.current = plan;
+    setActiveRoute(plan);
+    updateRouteProgress(null);
+    arrivedRef.current = false;
+    if (plan && !motionTracker.estimate()) {
+      motionTracker.fix({ ...plan.fromCoordinates, floor: plan.fromFloor });
+    }
+    updateMotionTracking(!!plan || !!walkScannerRef.current?.isRunning);
+  };
+
+  const updateRouteProgress = (progress: RouteProgress | null) => {
+    routeProgressRef.current = progress;
+    setRouteProgressState(progress);
+  };
+
+  // Step counting runs while the user is walking somewhere: in walk mode or along a planned route
+  const updateMotionTracking = (active: boolean) => {
+    if (!active) {
+      motionTracker.stop();
+      return;
+    }
+    motionTracker.start()
+      .then(started => { if (!started) console.warn("Motion sensors unavailable; route progress will not be tracked."); });
+  };
+
+  // Every step: follow the estimate along the route, announcing waypoints as they are passed
+  const handlePosition = async (estimate: PositionEstimate) => {
+    const plan = activeRouteRef.current;
+    if (!plan) return;
+    const previous = routeProgressRef.current;
+    const progress = routeProgress(plan, estimate, previous?.stepIndex ?? 0);
+    updateRouteProgress(progress);
+    if (!progress) return;
+
+    if (progress.remainingMeters <= ARRIVAL_RADIUS_METERS) {
+      if (arrivedRef.current) return;
+      arrivedRef.current = true;
+      await cueNavigation(message("speech.arrival_estimate", { place: plan.steps[plan.steps.length - 1].toDescription }), "arrived");
+      return;
+    }
+    if (previous && progress.stepIndex > previous.stepIndex) {
+      const next = plan.steps[progress.stepIndex];
+      await cueNavigation(`${message("speech.waypoint_reached", { place: plan.steps[progress.stepIndex - 1].toDescription })} ${routeInstruction(plan, progress.stepIndex)}`, next.turn);
+    }
+  };
+  handlePositionRef.current = handlePosition;
+
+  // Route steps arrive as data; they are worded here in the user's language
+  const routeInstruction = (plan: RoutePlan, index: number) =>
+    describeRouteStep(plan, index, currentLocaleRef.current, buildingsRef.current.find(b => b.id === currentBuildingIdRef.current));
+
+  const routeInstructions = () => {
+    const plan = activeRouteRef.current;
+    return plan?.steps.map((_, i) => routeInstruction(plan, i));
+  };
+
+  // Step counting gives the vision model a sense of how far along the route the user is
+  const describeRouteProgress = () => {
+    const plan = activeRouteRef.current;
+    const progress = routeProgressRef.current;
+    if (!plan || !progress) return undefined;
+    return `About ${Math.round(progress.walkedMeters)} of ${Math.round(plan.totalDistanceMeters)} meters walked, on step ${progress.stepIndex + 1} of ${plan.steps.length}.`;
+  };
+
+  const toggleAvoidStairs = () => {
+    avoidStairsRef.current = !avoidStairsRef.current;
+    setAvoidStairs(avoidStairsRef.current);
+  };
+
+  const cancelNavigation = () => {
+    setNavigationTarget(null);
+    updateActiveRoute(null);
+  };
+
+  // Plan a route through the registry graph when we know where the user is; otherwise fall back to sign hunting
+  const navigateToNode = async (node: SpatialNode) => {
+    setNavigationTarget(node.description);
+    const fromNodeId = currentNodeIdRef.current;
+    const plan = fromNodeId && fromNodeId !== node.id
+      ? await navigation.planRoute(currentBuildingIdRef.current, fromNodeId, node.id, { avoidStairs: avoidStairsRef.current })
+      : null;
+    updateActiveRoute(plan);
+
+    await playMessage(message("speech.navigating", { place: node.description }));
+    if (plan && plan.steps.length > 0) {
+      await playMessage(routeInstruction(plan, 0), "navigation");
     }
   };
 
@@ -349,73 +701,111 @@ export default function App() {
     }
   };
 
-  const loadSpatialData = async () => {
+  const loadBuildings = async () => {
     try {
-      const path = await snowflake.fetchGoldenPath(currentBuildingId);
-      
-      // If no data in Snowflake, provide some default "Campus Memory" nodes
-      if (path.length === 0) {
-        const defaultNodes: SpatialNode[] = [
-          {
-            id: "def_1",
-            buildingId: currentBuildingId,
-            coordinates: { x: 10, y: 20 },
-            description: "Main Entrance - Automatic Doors",
-            isGoldenPath: true
-          },
-          {
-            id: "def_2",
-            buildingId: currentBuildingId,
-            coordinates: { x: 30, y: 45 },
-            description: "Student Commons - Information Desk",
-            isGoldenPath: true
-          },
-          {
-            id: "def_3",
-            buildingId: currentBuildingId,
-            coordinates: { x: 50, y: 10 },
-            description: "Library Entrance - Quiet Zone",
-            isGoldenPath: true
-          },
-          {
-            id: "def_4",
-            buildingId: currentBuildingId,
-            coordinates: { x: 80, y: 70 },
-            description: "Hazard: Construction Zone near Elevators",
-            isGoldenPath: false
-          }
-        ];
-        setGoldenPath(defaultNodes);
-      } else {
-        setGoldenPath(path);
+      const list = await buildingService.listBuildings();
+      buildingsRef.current = list;
+      setBuildings(list);
+      if (list.length > 0 && !list.some(b => b.id === currentBuildingIdRef.current)) {
+        handleBuildingChange(list[0].id, list);
       }
-      
+    } catch (err) {
+      console.error("Failed to load buildings:", err);
+    }
+  };
+
+  const handleBuildingChange = (buildingId: string, list: Building[] = buildingsRef.current) => {
+    const building = list.find(b => b.id === buildingId);
+    currentBuildingIdRef.current = buildingId;
+    setCurrentBuildingId(buildingId);
+    handleFloorChange(building?.floors[0]?.level ?? 0);
+    // Known position and any route belong to the previous building
+    currentNodeIdRef.current = null;
+    recognizedPositionRef.current = null;
+    motionTracker.reset();
+    cancelNavigation();
+    loadSpatialData(buildingId);
+    if (showReviewQueue) loadReviewQueue(buildingId);
+  };
+
+  const handleFloorChange = (level: number) => {
+    currentFloorRef.current = level;
+    setCurrentFloor(level);
+    motionTracker.changeFloor(level);
+  };
+
+  const loadSpatialData = async (buildingId: string = currentBuildingIdRef.current) => {
+    try {
+      setGoldenPath(await registry.fetchGoldenPath(buildingId));
       setError(null);
-      setIsSnowflakeConnected(true);
     } catch (err: any) {
+      // Unreachable and nothing cached for this building yet
       console.error("Failed to load spatial data:", err);
-      
-      // Fallback to default nodes on error so the UI isn't empty
-      const fallbackNodes: SpatialNode[] = [
-        {
-          id: "fall_1",
-          buildingId: currentBuildingId,
-          coordinates: { x: 10, y: 20 },
-          description: "Main Entrance (Offline Cache)",
-          isGoldenPath: true
-        },
-        {
-          id: "fall_2",
-          buildingId: currentBuildingId,
-          coordinates: { x: 80, y: 70 },
-          description: "Hazard: Heavy Door (Offline Cache)",
-          isGoldenPath: false
-        }
-      ];
-      setGoldenPath(fallbackNodes);
-      
-      // Keep error in console but don't disrupt UI for demo
-      setIsSnowflakeConnected(false);
+      setGoldenPath([]);
+    }
+  };
+
+  const refreshPoints = () => {
+    account.fetchPoints()
+      .then(summary => {
+        setPointsBalance(summary.balance);
+        setAccountId(summary.userId);
+      })
+      .catch(err => console.error("Points refresh failed:", err));
+  };
+
+  // Queued pins reached the registry: show their stored versions and say what happened
+  const handleSynced = (result: SyncResult) => {
+    const saved = result.uploaded + result.duplicates;
+    if (saved > 0) {
+      refreshPoints();
+      playMessage(message("speech.pins_synced", { count: saved }));
+    }
+    if (result.rejected.length > 0) {
+      playMessage(message("speech.pins_rejected", { count: result.rejected.length }));
+    }
+    loadSpatialData();
+  };
+  handleSyncedRef.current = handleSynced;
+
+  const syncNow = async () => {
+    const result = await registry.sync();
+    handleSynced(result);
+  };
+
+  const loadReviewQueue = async (buildingId: string = currentBuildingIdRef.current) => {
+    try {
+      setReviewQueue(await moderation.listQueue(buildingId));
+    } catch (err) {
+      console.error("Failed to load review queue:", err);
+      setReviewQueue([]);
+    }
+  };
+
+  const toggleReviewQueue = () => {
+    if (!showReviewQueue) loadReviewQueue();
+    setShowReviewQueue(v => !v);
+  };
+
+  const submitReview = async (item: ModeratedNode, verdict: ReviewVerdict) => {
+    const { node } = item;
+    setReviewingNodeId(node.id);
+    try {
+      await account.ensureAccount();
+      const updated = await moderation.review(node.buildingId, node.id, verdict, reviewNotes[node.id]);
+      setReviewNotes(prev => ({ ...prev, [node.id]: "" }));
+      // Settled nodes leave the queue; a newly verified one joins the golden path
+      const stillQueued = updated.node.status === "pending" || updated.node.status === "stale";
+      setReviewQueue(prev => stillQueued
+        ? prev.map(q => q.node.id === node.id ? updated : q)
+        : prev.filter(q => q.node.id !== node.id));
+      if (updated.node.status !== node.status) loadSpatialData();
+      await playSystemMessage("speech.review_saved");
+    } catch (err) {
+      console.error("Review failed:", err);
+      await playSystemMessage("speech.review_failed");
+    } finally {
+      setReviewingNodeId(null);
     }
   };
 
@@ -428,73 +818,210 @@ export default function App() {
 
     const canvas = canvasRef.current;
     const video = videoRef.current;
-    
-    // High Quality Capture
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    canvas.getContext('2d')?.drawImage(video, 0, 0);
-    
-    const base64Image = canvas.toDataURL('image/jpeg', 1.0).split(',')[1];
+    const base64Image = captureFrame(video, canvas);
 
     try {
+      // 0. Local pre-filter warns before the network round trip
+      await runLocalHazardCheck();
+
       // 1. Gemini "Sees"
-      const analysis = await gemini.describeScene(base64Image, undefined, navigationTarget || undefined, currentLanguageRef.current);
-      setLastDescription(analysis.description);
-      setLastSceneDescription(analysis.description);
-      setLastHazard(analysis.hazard);
-
-      // 2. Speak Hazards (Priority)
-      if (analysis.hazard) {
-        await playHazardAlert();
-        await playMessage(`Warning: ${analysis.hazard}`);
+      const narrator = createNarrator({ description: false, navigation: !!navigationTarget && cueModeRef.current !== "haptic" });
+      const analysis = await vision.describeScene({
+        image: base64Image,
+        navigationTarget: navigationTarget || undefined,
+        targetLanguage: getLanguage(currentLocaleRef.current).name,
+        routeSteps: routeInstructions(),
+        routeProgress: describeRouteProgress()
+      }, { onNarration: narrator.onNarration });
+      rememberScene(analysis, canvas);
+
+      // 2. Speak Hazards (Priority), unless they were already spoken while streaming
+      const warnings = selectWarnings(analysis);
+      if (narrator.spoken.hazards === 0 && (warnings.length > 0 || analysis.hazard)) {
+        await playHazardAlert(analysis.hazards[0]?.severity ?? "medium");
+        await playMessage(message("speech.warning", { details: warnings.length > 0 ? warnings.map(describeWarning).join(" ") : analysis.hazard }), "hazard");
       }
       
       // 3. Speak Navigation Guidance
-      if (navigationTarget && analysis.navigation) {
-        await playMessage(analysis.navigation);
+      if (navigationTarget) {
+        await cueNavigation(narrator.spoken.navigation ? null : analysis.navigation, analysis.direction);
       }
 
-      // 4. Solana "Rewards" (Simulated PoN)
-      setSolanaBalance(prev => prev + 0.005);
+      // 4. The server credits the scan; show the new balance
+      refreshPoints();
 
     } catch (err) {
       console.error(err);
     } finally {
       setIsLoading(false);
-      setTimeout(() => setIsScanning(false), 2000);
+      setTimeout(() => setIsScanning(!!walkScannerRef.current?.isRunning), 2000);
     }
   };
 
-  const pinLocation = async () => {
+  const describeWarning = (hazard: SceneHazard) => {
+    const position = !hazard.bearing ? ""
+      : hazard.distanceMeters !== null
+        ? ` (${message("speech.hazard_position_distance", { bearing: hazard.bearing, meters: Math.round(hazard.distanceMeters) })})`
+        : ` (${message("speech.hazard_position", { bearing: hazard.bearing })})`;
+    return `${hazard.description.replace(/[.!]$/, "")}${position}.`;
+  };
+
+  // Speaks vision output as it streams in. `spoken` records what was already
+  // said so callers do not repeat it once the full analysis arrives.
+  const createNarrator = (
+    options: { description: boolean; navigation: boolean; minSeverity?: HazardSeverity; dedupe?: boolean },
+    signal?: AbortSignal
+  ) => {
+    const spoken = { hazards: 0, description: false, navigation: false };
+    const onNarration = (event: NarrationEvent) => {
+      if (signal?.aborted) return;
+      if (event.type === "hazard") {
+        const { hazard } = event;
+        if (!isAtLeastSeverity(hazard.severity, options.minSeverity || "low")) return;
+        if (options.dedupe && !hazardDeduperRef.current.shouldAnnounce(hazard.description)) return;
+        // The local tone needs no download, so it does not hold up the warning
+        if (spoken.hazards === 0) cueHazard(hazard.severity);
+        spoken.hazards++;
+        playMessage(message("speech.warning", { details: describeWarning(hazard) }), "hazard");
+      } else if (options[event.field]) {
+        spoken[event.field] = true;
+        playMessage(event.text, event.field === "navigation" ? "navigation" : "info");
+      }
+    };
+    return { onNarration, spoken };
+  };
+
+  // One walk-mode frame: analyzed without taking the isLoading lock so manual
+  // actions stay available, and only new hazards are read aloud.
+  const analyzeWalkFrame = async (signal: AbortSignal) => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    const base64Image = captureFrame(video, canvas);
+    await runLocalHazardCheck();
+
+    const target = navigationTargetRef.current;
+    const narrator = createNarrator({ description: false, navigation: !!target && cueModeRef.current !== "haptic", minSeverity: "medium", dedupe: true }, signal);
+    const analysis = await vision.describeScene({
+      image: base64Image,
+      navigationTarget: target || undefined,
+      targetLanguage: getLanguage(currentLocaleRef.current).name,
+      routeSteps: routeInstructions(),
+      routeProgress: describeRouteProgress()
+    }, { signal, onNarration: narrator.onNarration });
+    if (signal.aborted) return;
+
+    rememberScene(analysis, canvas);
+
+    // While walking, low-severity clutter is shown but not spoken; streamed
+    // warnings are already in the deduper, so this only catches the rest
+    const fresh = selectWarnings(analysis, "medium").filter(h => hazardDeduperRef.current.shouldAnnounce(h.description));
+    if (fresh.length > 0) {
+      await playHazardAlert(fresh[0].severity);
+      await playMessage(message("speech.warning", { details: fresh.map(describeWarning).join(" ") }), "hazard");
+    }
+    if (target && !signal.aborted) {
+      await cueNavigation(narrator.spoken.navigation ? null : analysis.navigation, analysis.direction);
+    }
+  };
+
+  const sampleWalkFrame = () => {
+    const video = videoRef.current;
+    if (!video || video.readyState < 2) return null;
+    if (!signatureCanvasRef.current) signatureCanvasRef.current = document.createElement('canvas');
+    return computeFrameSignature(video, signatureCanvasRef.current);
+  };
+
+  const toggleWalkMode = () => {
+    if (walkScannerRef.current?.isRunning) {
+      walkScannerRef.current.stop();
+      updateMotionTracking(!!activeRouteRef.current);
+      // Development builds log the walk's sensor trace, for replaying with npm run check:motion
+      const trace = motionTracker.stopRecording();
+      if (import.meta.env.DEV && trace) console.debug("Motion trace:", JSON.stringify(trace));
+      setIsWalkMode(false);
+      setIsScanning(false);
+      playSystemMessage("speech.walk_off");
+      return;
+    }
+    if (!walkScannerRef.current) {
+      walkScannerRef.current = new WalkModeScanner({ sample: sampleWalkFrame, analyze: analyzeWalkFrame });
+    }
+    hazardDeduperRef.current.reset();
+    walkScannerRef.current.start();
+    updateMotionTracking(true);
+    if (import.meta.env.DEV) motionTracker.startRecording();
+    setIsWalkMode(true);
+    setIsScanning(true);
+    playSystemMessage("speech.walk_on");
+  };
+
+  // Keep pinned descriptions short enough to be read back as a place name
+  const summarizeForPin = (text: string) => {
+    const firstSentence = text.split(/(?<=[.!?。！？])\s*/)[0].trim();
+    return firstSentence.length > 120 ? `${firstSentence.slice(0, 117)}...` : firstSentence;
+  };
+
+  const pinLocation = async (label?: string) => {
     if (isLoading) return;
-    
+
+    const analysis = lastAnalysisRef.current;
+    const hazard = analysis?.hazard || null;
+    const baseDescription = label || (hazard ? hazard : analysis?.description);
+    if (!baseDescription) {
+      await playSystemMessage("speech.pin_failed");
+      return;
+    }
+
+    // The user's label names what they are pinning; the last scan's hazard only counts when the label describes it too
+    const scanHazard = hazard ? classifyHazard(hazard) : null;
+    const hazardInfo = scanHazard && (!label || (scanHazard.category !== "other" && classifyHazard(label).category === scanHazard.category))
+      ? scanHazard
+      : null;
+    const pendingId = `pending_${Date.now()}`;
+    // Step counting follows the user from the last known place; without either, the floor plan origin, for a mapper to correct
+    const estimate = motionTracker.estimate();
+    const position = knownPosition();
+    const coordinates = estimate && estimate.floor === currentFloorRef.current
+      ? { x: Math.round(estimate.x * 10) / 10, y: Math.round(estimate.y * 10) / 10 }
+      : position && position.floor === currentFloorRef.current ? { ...position.coordinates } : { x: 0, y: 0 };
+    const newNode: NewSpatialNode = {
+      buildingId: currentBuildingIdRef.current,
+      floor: currentFloorRef.current,
+      coordinates,
+      description: summarizeForPin(baseDescription),
+      // The registry promotes it to the golden path once other users confirm it
+      isGoldenPath: false,
+      kind: hazardInfo ? "hazard" : "landmark",
+      severity: hazardInfo?.severity || null,
+      category: hazardInfo?.category || null
+    };
+
     setIsLoading(true);
+    // Show the pin immediately, then swap in the id the registry assigned
+    setGoldenPath(prev => [{ id: pendingId, createdAt: new Date().toISOString(), expiresAt: null, status: "pending", createdBy: null, ...newNode }, ...prev]);
     try {
-      // Demo Mode: Simplified description and purely local update
-      // Check if lastHazard is truthy (not null and not empty string)
-      const isHazard = !!lastHazard;
-      const descriptionToPin = isHazard ? "Hazard: Campus room updated" : "Campus room updated";
-      
-      const newNode: SpatialNode = {
-        id: `demo_${Date.now()}`,
-        buildingId: currentBuildingId,
-        coordinates: { x: Math.random() * 100, y: Math.random() * 100 },
-        description: descriptionToPin,
-        isGoldenPath: !isHazard
-      };
-      
-      // Update local state immediately
-      setGoldenPath(prev => [newNode, ...prev]);
-      
-      // Clear any previous errors to keep UI clean for demo
+      const { id: storedId, queued } = await registry.pin({ ...newNode, snapshot: lastSnapshotRef.current || undefined });
+      setGoldenPath(prev => prev.map(n => n.id === pendingId ? { ...n, id: storedId } : n));
+      currentNodeIdRef.current = storedId;
       setError(null);
-      
-      // Reward with Buddy Points
-      setSolanaBalance(prev => prev + 0.05);
-      
-      await playMessage(getSystemMessage("pinned"));
+
+      if (queued) {
+        // Points are awarded once the registry accepts it
+        await playSystemMessage("speech.pin_queued");
+        return;
+      }
+
+      // The server credited the pin
+      refreshPoints();
+
+      await playSystemMessage("speech.pinned");
     } catch (err: any) {
-      console.error("Local pin failed:", err);
+      console.error("Pin failed:", err);
+      setGoldenPath(prev => prev.filter(n => n.id !== pendingId));
+      setError(err.message || "Failed to save location.");
+      await playSystemMessage("speech.pin_failed");
     } finally {
       setIsLoading(false);
     }
@@ -510,28 +1037,53 @@ export default function App() {
           </div>
           <div>
             <h1 className="text-sm font-bold tracking-tight text-stone-900">Vision Buddy <span className="text-emerald-600 font-medium">v1.0</span></h1>
-            <p className="text-[10px] text-stone-500 uppercase tracking-widest font-semibold">Your Friendly Guide</p>
+            <p className="text-[10px] text-stone-500 uppercase tracking-widest font-semibold">{text("app.tagline")}</p>
           </div>
         </div>
         
         <div className="flex items-center gap-4">
           <div className="text-right hidden sm:block relative group">
-            <p className="text-[10px] text-stone-400 uppercase font-bold">Language</p>
+            <p className="text-[10px] text-stone-400 uppercase font-bold">{text("header.language")}</p>
             <select 
-              value={currentLanguage}
-              onChange={(e) => handleLanguageChange(e.target.value)}
+              value={currentLocale}
+              onChange={(e) => handleLanguageChange(e.target.value as Locale)}
               className="text-xs font-bold text-emerald-600 bg-transparent border-none focus:ring-0 cursor-pointer appearance-none"
             >
-              {Object.keys(languageKeywords).map(lang => (
-                <option key={lang} value={lang}>{lang}</option>
+              {LANGUAGES.map(language => (
+                <option key={language.locale} value={language.locale}>{language.nativeName}</option>
               ))}
             </select>
           </div>
+          <div className="text-right hidden sm:block">
+            <p className="text-[10px] text-stone-400 uppercase font-bold">{text("header.building")}</p>
+            <div className="flex items-center justify-end gap-1">
+              <select
+                value={currentBuildingId}
+                onChange={(e) => handleBuildingChange(e.target.value)}
+                className="text-xs font-bold text-emerald-600 bg-transparent border-none focus:ring-0 cursor-pointer appearance-none text-right"
+              >
+                {buildings.length === 0 && <option value={currentBuildingId}>{currentBuildingId}</option>}
+                {buildings.map(b => (
+                  <option key={b.id} value={b.id}>{b.name}</option>
+                ))}
+              </select>
+              <select
+                value={currentFloor}
+                onChange={(e) => handleFloorChange(Number(e.target.value))}
+                aria-label={text("header.floor")}
+                className="text-xs font-bold text-stone-500 bg-transparent border-none focus:ring-0 cursor-pointer appearance-none"
+              >
+                {(currentBuilding?.floors || [{ level: currentFloor, name: floorName(undefined, currentFloor, currentLocale) }]).map(f => (
+                  <option key={f.level} value={f.level}>{f.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
           <div className="text-right hidden sm:block">
             <div className="flex items-center justify-end gap-1">
-              <p className="text-[10px] text-stone-400 uppercase font-bold">Buddy Points</p>
+              <p className="text-[10px] text-stone-400 uppercase font-bold">{text("header.points")}</p>
               <button 
-                onClick={() => playMessage("Buddy Points are rewards for contributing to our spatial memory. You earn them by pinning new locations or hazards to help others.")}
+                onClick={() => playSystemMessage("header.points_help")}
                 className="text-stone-300 hover:text-stone-400 transition-colors"
               >
                 <HelpCircle className="w-3 h-3" />
@@ -539,12 +1091,28 @@ export default function App() {
             </div>
             <div className="flex items-center gap-1.5 text-emerald-600 font-bold text-sm justify-end">
               <Coins className="w-3.5 h-3.5" />
-              {solanaBalance.toFixed(3)}
+              {pointsBalance === null ? "–" : pointsBalance.toFixed(3)}
             </div>
           </div>
-          <div className="w-10 h-10 rounded-full bg-stone-100 border border-stone-200 flex items-center justify-center">
-            <ShieldCheck className="w-5 h-5 text-blue-500" />
-          </div>
+          <button
+            onClick={syncNow}
+            disabled={syncStatus.state === "syncing" || syncStatus.state === "checking"}
+            className={cn(
+              "flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase border transition-colors",
+              syncStatus.state === "offline"
+                ? "text-amber-600 bg-amber-50 border-amber-100 hover:bg-amber-100"
+                : "text-stone-500 bg-stone-100 border-stone-200"
+            )}
+            title={syncStatus.state === "offline" ? text("sync.retry") : undefined}
+          >
+            {syncStatus.state === "offline" ? <CloudOff className="w-3.5 h-3.5" />
+              : syncStatus.state === "syncing" ? <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+              : <Cloud className={cn("w-3.5 h-3.5", syncStatus.state === "online" ? "text-emerald-500" : "text-stone-300")} />}
+            <span>
+              {text(SYNC_LABELS[syncStatus.state])}
+              {syncStatus.pending > 0 && ` · ${text("sync.pending", { count: syncStatus.pending })}`}
+            </span>
+          </button>
         </div>
       </header>
 
@@ -575,17 +1143,17 @@ export default function App() {
           {/* HUD Elements */}
           <div className="absolute inset-0 p-4 flex flex-col justify-between pointer-events-none">
             <div className="flex justify-between items-start">
-              <div className="bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-full border border-stone-200 text-[10px] font-bold text-emerald-600 flex items-center gap-2 shadow-sm">
+              <div className="bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-full border border-stone-200 text-[10px] font-bold text-emerald-600 uppercase flex items-center gap-2 shadow-sm">
                 <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
-                BUDDY VISION
+                {text("hud.vision")}
               </div>
               <div className="flex flex-col items-end gap-2">
                 <div className="bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-full border border-stone-200 text-[10px] font-bold text-stone-600 shadow-sm flex items-center gap-2">
                   <Volume2 className="w-3 h-3 text-emerald-500" />
-                  {currentLanguage.toUpperCase()}
+                  {currentLanguage.nativeName.toUpperCase()}
                 </div>
                 <div className="bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-full border border-stone-200 text-[10px] font-bold text-stone-600 shadow-sm">
-                  {currentBuilding.toUpperCase()}
+                  {(currentBuilding?.name || currentBuildingId).toUpperCase()} · {floorName(currentBuilding, currentFloor, currentLocale).toUpperCase()}
                 </div>
                 {navigationTarget && (
                   <motion.div 
@@ -594,26 +1162,33 @@ export default function App() {
                     className="bg-emerald-500 backdrop-blur-sm px-3 py-1.5 rounded-full border border-emerald-400 text-[10px] font-bold text-white flex items-center gap-2 shadow-lg"
                   >
                     <MapPin className="w-3 h-3" />
-                    TO: {navigationTarget.toUpperCase()}
+                    {text("hud.target", { target: navigationTarget }).toUpperCase()}
                     {!goldenPath.some(n => n.description.toLowerCase().includes(navigationTarget.toLowerCase())) && (
-                      <span className="ml-1 px-1.5 py-0.5 bg-white/20 rounded text-[8px] animate-pulse">HUNTING SIGNS</span>
+                      <span className="ml-1 px-1.5 py-0.5 bg-white/20 rounded text-[8px] uppercase animate-pulse">{text("hud.hunting_signs")}</span>
                     )}
                     <button 
-                      onClick={() => setNavigationTarget(null)}
+                      onClick={cancelNavigation}
+                      aria-label={text("hud.cancel_navigation")}
                       className="ml-1 hover:scale-125 transition-transform pointer-events-auto"
                     >
                       ×
                     </button>
                   </motion.div>
                 )}
+                {activeRoute && (
+                  <div className="bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-full border border-stone-200 text-[10px] font-bold text-stone-600 uppercase shadow-sm">
+                    {text("hud.route", { count: activeRoute.steps.length, meters: Math.round(activeRoute.totalDistanceMeters) })}
+                    {routeProgressState && ` · ${text("hud.route_progress", { meters: Math.round(routeProgressState.remainingMeters) })}`}
+                  </div>
+                )}
               </div>
             </div>
             
             <div className="flex justify-center">
                {isLoading && (
-                 <div className="bg-white text-emerald-600 px-5 py-2.5 rounded-full text-xs font-bold flex items-center gap-3 shadow-xl border border-emerald-100 animate-bounce">
+                 <div className="bg-white text-emerald-600 px-5 py-2.5 rounded-full text-xs font-bold uppercase flex items-center gap-3 shadow-xl border border-emerald-100 animate-bounce">
                    <Loader2 className="w-4 h-4 animate-spin" />
-                   BUDDY IS THINKING...
+                   {text("hud.thinking")}
                  </div>
                )}
             </div>
@@ -622,50 +1197,114 @@ export default function App() {
 
         {/* Guidance Card */}
         <section className="bg-white border border-stone-200 rounded-3xl p-6 shadow-sm space-y-5">
-          <div className="flex items-center justify-between border-b border-stone-100 pb-4">
-            <div className="flex items-center gap-2 text-stone-400 text-[10px] font-bold uppercase tracking-widest">
-              <ShieldCheck className={cn("w-4 h-4", isSnowflakeConnected === true ? "text-emerald-500" : isSnowflakeConnected === false ? "text-red-500" : "text-stone-300")} />
-              Memory Status: {isSnowflakeConnected === true ? "ACTIVE" : isSnowflakeConnected === false ? "ERROR" : "CHECKING..."}
-            </div>
-            {isSnowflakeConnected === false && (
-              <button 
-                onClick={() => loadSpatialData()}
-                className="text-[10px] font-bold text-emerald-600 hover:text-emerald-500 uppercase tracking-widest"
-              >
-                RETRY
-              </button>
-            )}
-          </div>
-
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2 text-stone-400 text-[10px] font-bold uppercase tracking-widest">
               <Volume2 className={cn("w-4 h-4", isAudioPlaying && "text-emerald-500 animate-pulse")} />
-              Voice Guide
+              {text("voice.guide")}
             </div>
             <div className="flex items-center gap-2">
               <button 
-                onClick={() => playMessage("Hi! I'm Vision Buddy. I'm ready to help you navigate.")}
-                className="text-[10px] font-bold text-stone-400 hover:text-stone-600 bg-stone-100 px-3 py-1 rounded-full transition-colors"
+                onClick={() => playSystemMessage("voice.greeting")}
+                className="text-[10px] font-bold text-stone-400 hover:text-stone-600 bg-stone-100 px-3 py-1 rounded-full uppercase transition-colors"
               >
-                TEST VOICE
+                {text("voice.test")}
               </button>
+              {listener.isSupported && (
+                <button
+                  onClick={toggleHandsFree}
+                  aria-pressed={isHandsFree}
+                  className={cn(
+                    "flex items-center gap-1 text-[10px] font-bold px-3 py-1 rounded-full uppercase transition-colors",
+                    isHandsFree
+                      ? "text-emerald-600 bg-emerald-50"
+                      : "text-stone-400 hover:text-stone-600 bg-stone-100"
+                  )}
+                >
+                  <Ear className={cn("w-3 h-3", listenerState === "waiting" && "animate-pulse")} />
+                  {text("actions.hands_free")}
+                </button>
+              )}
               {lastDescription && (
                 <button 
                   onClick={() => playMessage(lastDescription)}
                   className="p-2 rounded-full bg-stone-100 hover:bg-stone-200 text-stone-500 transition-colors"
-                  title="Repeat"
+                  title={text("voice.repeat")}
                 >
                   <Volume2 className="w-4 h-4" />
                 </button>
               )}
-              {audioUrl && (
-                <span className="text-[10px] font-bold text-emerald-600 bg-emerald-50 px-3 py-1 rounded-full">
-                  READY
+              <button 
+                onClick={() => setShowVoiceSettings(v => !v)}
+                aria-expanded={showVoiceSettings}
+                className="text-[10px] font-bold text-stone-400 hover:text-stone-600 bg-stone-100 px-3 py-1 rounded-full uppercase transition-colors"
+              >
+                {text("voice.settings")}
+              </button>
+              {speechEngine && (
+                <span className="text-[10px] font-bold text-emerald-600 bg-emerald-50 px-3 py-1 rounded-full uppercase">
+                  {speechEngine}
                 </span>
               )}
             </div>
           </div>
 
+          {showVoiceSettings && (
+            <div className="grid grid-cols-2 gap-3 bg-stone-50 rounded-2xl p-4 border border-stone-100 text-[10px] font-bold uppercase tracking-widest text-stone-400">
+              <label className="col-span-2 flex flex-col gap-1">
+                {text("voice.device_voice", { language: currentLanguage.nativeName })}
+                <select
+                  value={voiceSettings.voiceName || ""}
+                  onChange={e => updateVoiceSettings({ voiceName: e.target.value || null })}
+                  className="bg-white border border-stone-200 rounded-lg px-2 py-1 text-xs normal-case tracking-normal text-stone-600"
+                >
+                  <option value="">{text("voice.automatic")}</option>
+                  {nativeVoices.map(voice => (
+                    <option key={voice.name} value={voice.name}>{voice.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                {text("voice.rate", { value: voiceSettings.rate.toFixed(1) })}
+                <input type="range" min={0.5} max={2} step={0.1} value={voiceSettings.rate}
+                  onChange={e => updateVoiceSettings({ rate: Number(e.target.value) })} />
+              </label>
+              <label className="flex flex-col gap-1">
+                {text("voice.pitch", { value: voiceSettings.pitch.toFixed(1) })}
+                <input type="range" min={0.5} max={2} step={0.1} value={voiceSettings.pitch}
+                  onChange={e => updateVoiceSettings({ pitch: Number(e.target.value) })} />
+              </label>
+              <label className="col-span-2 flex flex-col gap-1">
+                {text("cues.mode")}
+                <select
+                  value={cueMode}
+                  onChange={e => updateCueMode(e.target.value as CueMode)}
+                  className="bg-white border border-stone-200 rounded-lg px-2 py-1 text-xs normal-case tracking-normal text-stone-600"
+                >
+                  {CUE_MODES.map(mode => (
+                    <option key={mode} value={mode}>{text(CUE_MODE_LABELS[mode])}</option>
+                  ))}
+                </select>
+              </label>
+              {cueMode !== "audio" && (
+                <div className="col-span-2 flex flex-col gap-1">
+                  {text(haptics.available ? "cues.try" : "cues.unavailable")}
+                  <div className="flex flex-wrap gap-1.5">
+                    {(Object.keys(HAPTIC_CUE_LABELS) as HapticCue[]).map(cue => (
+                      <button
+                        key={cue}
+                        onClick={() => haptics.play(cue)}
+                        disabled={!haptics.available}
+                        className="bg-white border border-stone-200 rounded-lg px-2 py-1 text-[10px] normal-case tracking-normal text-stone-600 disabled:opacity-40"
+                      >
+                        {text(HAPTIC_CUE_LABELS[cue])}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="min-h-[100px] flex flex-col justify-center bg-stone-50 rounded-2xl p-4 border border-stone-100">
             {lastDescription ? (
               <motion.p 
@@ -676,18 +1315,48 @@ export default function App() {
                 "{lastDescription}"
               </motion.p>
             ) : (
-              <p className="text-stone-400 text-sm text-center">Tap the big green button to see what's around you!</p>
+              <p className="text-stone-400 text-sm text-center">{text("scene.empty")}</p>
+            )}
+            {lastAnalysis && (lastAnalysis.signs.length > 0 || lastAnalysis.objects.length > 0) && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {lastAnalysis.signs.map((sign, i) => (
+                  <span key={`sign-${i}`} className="text-[10px] font-bold text-blue-700 bg-blue-50 border border-blue-100 px-2 py-1 rounded-full">
+                    {text("scene.sign", { text: sign.translation || sign.text, bearing: sign.bearing })}
+                  </span>
+                ))}
+                {[...lastAnalysis.objects]
+                  .sort((a, b) => (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity))
+                  .slice(0, 4)
+                  .map((object, i) => (
+                    <span key={`object-${i}`} className="text-[10px] font-bold text-stone-600 uppercase bg-white border border-stone-200 px-2 py-1 rounded-full">
+                      {object.distanceMeters !== null
+                        ? text("scene.object_distance", { label: object.label, bearing: object.bearing, meters: Math.round(object.distanceMeters) })
+                        : text("scene.object", { label: object.label, bearing: object.bearing })}
+                    </span>
+                  ))}
+              </div>
             )}
           </div>
 
-          <audio ref={audioRef} className="hidden" />
         </section>
 
-        {/* Spatial Memory (Snowflake) */}
+        {/* Spatial Memory (Registry) */}
         <section className="space-y-4">
-          <div className="flex items-center gap-2 text-stone-400 text-[10px] font-bold uppercase tracking-[0.2em]">
-            <MapIcon className="w-3 h-3" />
-            Saved Places
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-stone-400 text-[10px] font-bold uppercase tracking-[0.2em]">
+              <MapIcon className="w-3 h-3" />
+              {text("places.title")}
+            </div>
+            <button
+              onClick={toggleAvoidStairs}
+              aria-pressed={avoidStairs}
+              className={cn(
+                "text-[10px] font-bold uppercase px-3 py-1 rounded-full transition-colors",
+                avoidStairs ? "bg-emerald-500 text-white" : "bg-stone-100 text-stone-400 hover:text-stone-600"
+              )}
+            >
+              {text("places.step_free")}
+            </button>
           </div>
           
           <div className="grid gap-3">
@@ -698,37 +1367,160 @@ export default function App() {
                 animate={{ opacity: 1, scale: 1 }}
                 transition={{ delay: i * 0.1 }}
                 className="bg-white border border-stone-200 rounded-2xl p-4 flex items-center gap-4 shadow-sm hover:shadow-md transition-shadow cursor-pointer"
-                onClick={() => {
-                  setNavigationTarget(node.description);
-                  playMessage(`Navigating to ${node.description}`);
-                }}
+                onClick={() => navigateToNode(node)}
               >
                 <div className={cn(
                   "w-10 h-10 rounded-xl flex items-center justify-center text-xs font-bold transition-colors",
-                  node.description.toLowerCase().includes("hazard") 
+                  node.kind === "hazard"
                     ? "bg-red-50 text-red-600 border border-red-100" 
                     : "bg-emerald-50 text-emerald-600 border border-emerald-100"
                 )}>
-                  {node.description.toLowerCase().includes("hazard") ? <AlertTriangle className="w-5 h-5" /> : i+1}
+                  {node.kind === "hazard" ? <AlertTriangle className="w-5 h-5" /> : i+1}
                 </div>
                 <div className="flex-1">
                   <p className={cn(
                     "text-sm font-bold transition-colors",
-                    node.description.toLowerCase().includes("hazard") ? "text-red-800" : "text-stone-800"
+                    node.kind === "hazard" ? "text-red-800" : "text-stone-800"
                   )}>{node.description}</p>
                   <p className="text-[10px] text-stone-400 font-semibold uppercase mt-0.5">
-                    {node.description.toLowerCase().includes("hazard") ? "Caution Required" : "Verified Location"}
+                    {node.kind === "hazard"
+                      ? `${text(node.severity === "high" ? "places.high_risk" : "places.caution")}${node.expiresAt ? ` · ${text("places.until", { time: new Date(node.expiresAt).toLocaleString(currentLanguage.speechTag, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }) })}` : ""}`
+                      : text(NODE_STATUS_LABELS[node.status])} · {floorName(currentBuilding, node.floor, currentLocale)}
                   </p>
                 </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    describeSnapshot(node);
+                  }}
+                  aria-label={text("places.hear_snapshot")}
+                  title={text("places.hear_snapshot")}
+                  className="p-2 rounded-full bg-stone-100 hover:bg-stone-200 text-stone-500 transition-colors"
+                >
+                  <Camera className="w-4 h-4" />
+                </button>
                 <ChevronRight className="w-5 h-5 text-stone-300" />
               </motion.div>
             )) : (
               <div className="bg-white/50 border border-dashed border-stone-200 rounded-2xl p-8 text-center">
-                <p className="text-stone-400 text-xs font-medium">No places saved yet. Pin your first location!</p>
+                <p className="text-stone-400 text-xs font-medium">{text("places.empty")}</p>
               </div>
             )}
           </div>
         </section>
+
+        {/* Community Review (moderation queue) */}
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-stone-400 text-[10px] font-bold uppercase tracking-[0.2em]">
+              <ClipboardCheck className="w-3 h-3" />
+              {text("review.title")}
+            </div>
+            <button
+              onClick={toggleReviewQueue}
+              aria-expanded={showReviewQueue}
+              className="text-[10px] font-bold uppercase px-3 py-1 rounded-full bg-stone-100 text-stone-400 hover:text-stone-600 transition-colors"
+            >
+              {text(showReviewQueue ? "review.hide" : "review.show")}
+            </button>
+          </div>
+
+          {showReviewQueue && (
+            <div className="grid gap-3">
+              {reviewQueue.length > 0 ? reviewQueue.map(item => (
+                <div key={item.node.id} className="bg-white border border-stone-200 rounded-2xl p-4 space-y-3 shadow-sm">
+                  <div>
+                    <p className={cn("text-sm font-bold", item.node.kind === "hazard" ? "text-red-800" : "text-stone-800")}>
+                      {item.node.description}
+                    </p>
+                    <p className="text-[10px] text-stone-400 font-semibold uppercase mt-0.5">
+                      {text(NODE_STATUS_LABELS[item.node.status])} · {floorName(currentBuilding, item.node.floor, currentLocale)} · {new Date(item.node.createdAt).toLocaleDateString(currentLanguage.speechTag)}
+                    </p>
+                    <p className="text-[10px] text-emerald-600 font-bold uppercase mt-1">
+                      {text("review.progress", { confirmations: item.confirmations, needed: item.confirmationsNeeded, score: item.score })}
+                    </p>
+                  </div>
+
+                  {item.snapshot && (
+                    <div className="flex gap-3">
+                      <img
+                        src={snapshotImageUrl(item.node.buildingId, item.node.id)}
+                        alt={item.snapshot.analysis.description}
+                        loading="lazy"
+                        className="w-24 h-20 object-cover rounded-xl border border-stone-200 bg-stone-100 shrink-0"
+                      />
+                      <div className="space-y-2">
+                        <p className="text-xs text-stone-600 italic">"{item.snapshot.analysis.description}"</p>
+                        {item.snapshot.signText.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {item.snapshot.signText.map((sign, i) => (
+                              <span key={i} className="text-[10px] font-bold text-blue-700 bg-blue-50 border border-blue-100 px-2 py-0.5 rounded-full">
+                                {sign}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  <ul className="space-y-1 bg-stone-50 rounded-xl p-3 border border-stone-100 text-xs text-stone-600">
+                    {item.reviews.length > 0 ? item.reviews.map(review => (
+                      <li key={review.id}>
+                        <span className={cn("font-bold", review.verdict === "confirm" ? "text-emerald-600" : "text-red-600")}>
+                          {text("review.entry", {
+                            verdict: text(review.verdict === "confirm" ? "review.confirmed" : "review.disputed"),
+                            weight: review.weight,
+                            time: new Date(review.createdAt).toLocaleDateString(currentLanguage.speechTag)
+                          })}
+                        </span>
+                        {review.note && <span className="block text-stone-500 italic">"{review.note}"</span>}
+                      </li>
+                    )) : (
+                      <li className="text-stone-400">{text("review.no_history")}</li>
+                    )}
+                  </ul>
+
+                  {item.node.createdBy && item.node.createdBy === accountId ? (
+                    <p className="text-[10px] text-stone-400 font-semibold uppercase">{text("review.own_pin")}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      <input
+                        type="text"
+                        maxLength={280}
+                        value={reviewNotes[item.node.id] || ""}
+                        onChange={e => setReviewNotes(prev => ({ ...prev, [item.node.id]: e.target.value }))}
+                        placeholder={text("review.note")}
+                        aria-label={text("review.note")}
+                        className="w-full bg-white border border-stone-200 rounded-lg px-3 py-1.5 text-xs text-stone-600"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => submitReview(item, "confirm")}
+                          disabled={reviewingNodeId === item.node.id}
+                          className="flex-1 text-[10px] font-bold uppercase px-3 py-2 rounded-full bg-emerald-500 text-white hover:bg-emerald-600 disabled:opacity-50 transition-colors"
+                        >
+                          {text("review.confirm")}
+                        </button>
+                        <button
+                          onClick={() => submitReview(item, "dispute")}
+                          disabled={reviewingNodeId === item.node.id}
+                          className="flex-1 text-[10px] font-bold uppercase px-3 py-2 rounded-full bg-red-50 text-red-600 border border-red-100 hover:bg-red-100 disabled:opacity-50 transition-colors"
+                        >
+                          {text("review.dispute")}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )) : (
+                <div className="bg-white/50 border border-dashed border-stone-200 rounded-2xl p-8 text-center">
+                  <p className="text-stone-400 text-xs font-medium">{text("review.empty")}</p>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
       </main>
 
       {/* Action Bar */}
@@ -738,24 +1530,38 @@ export default function App() {
             onClick={captureAndAnalyze}
             disabled={isLoading}
             className={cn(
-              "flex-1 h-16 rounded-2xl flex items-center justify-center gap-3 font-bold text-lg transition-all active:scale-95 shadow-lg",
+              "flex-1 h-16 rounded-2xl flex items-center justify-center gap-3 font-bold text-lg uppercase transition-all active:scale-95 shadow-lg",
               isLoading 
                 ? "bg-stone-200 text-stone-400 cursor-not-allowed" 
                 : "bg-emerald-500 text-white hover:bg-emerald-600 shadow-emerald-200"
             )}
           >
             {isLoading ? <Loader2 className="w-6 h-6 animate-spin" /> : <Eye className="w-6 h-6" />}
-            LOOK AROUND
+            {text("actions.look_around")}
           </button>
           
           <button 
-            onClick={pinLocation}
+            onClick={toggleWalkMode}
+            aria-pressed={isWalkMode}
+            className={cn(
+              "w-16 h-16 rounded-2xl flex items-center justify-center transition-all active:scale-95 shadow-sm",
+              isWalkMode 
+                ? "bg-emerald-500 text-white animate-pulse shadow-emerald-200" 
+                : "bg-white border border-stone-200 hover:bg-stone-50 text-stone-600"
+            )}
+            title={text("actions.walk_mode")}
+          >
+            <Footprints className="w-6 h-6" />
+          </button>
+
+          <button 
+            onClick={() => pinLocation()}
             disabled={!lastDescription || isLoading}
             className={cn(
               "w-16 h-16 rounded-2xl bg-white border border-stone-200 flex items-center justify-center transition-all active:scale-95 shadow-sm",
               (!lastDescription || isLoading) ? "opacity-30 cursor-not-allowed" : "hover:bg-stone-50 text-stone-600"
             )}
-            title="Save this place"
+            title={text("actions.save_place")}
           >
             <MapPin className="w-6 h-6" />
           </button>
@@ -764,11 +1570,11 @@ export default function App() {
             onClick={toggleListening}
             className={cn(
               "w-16 h-16 rounded-2xl flex items-center justify-center transition-all active:scale-95 shadow-sm",
-              isListening 
+              listenerState === "command" 
                 ? "bg-red-500 text-white animate-pulse shadow-red-200" 
                 : "bg-white border border-stone-200 hover:bg-stone-50 text-stone-600"
             )}
-            title="Ask a question"
+            title={text("actions.ask")}
           >
             <Mic className="w-6 h-6" />
           </button>
@@ -776,15 +1582,13 @@ export default function App() {
       </div>
 
       {/* Error Toast Simulation */}
-      {(!process.env.GEMINI_API_KEY || !process.env.ELEVENLABS_API_KEY) && (
+      {isSetupRequired && (
         <div className="fixed top-20 left-4 right-4 z-[100]">
           <div className="bg-red-50 border border-red-100 backdrop-blur-md p-4 rounded-2xl flex items-start gap-3 shadow-xl">
             <AlertCircle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
             <div>
-              <p className="text-sm font-bold text-red-600">Setup Required</p>
-              <p className="text-xs text-red-500/80 mt-1">
-                Please add your API keys to the environment to start using Vision Buddy.
-              </p>
+              <p className="text-sm font-bold text-red-600">{text("setup.title")}</p>
+              <p className="text-xs text-red-500/80 mt-1">{text("setup.body")}</p>
             </div>
           </div>
         </div>
@@ -0,0 +1,57 @@
+import type { IntentGrammar } from "../services/intents";
+
+const grammar: IntentGrammar = {
+  wake: ["(hey|hallo|okay|ok) [vision] buddy"],
+  prefixes: ["[hey] buddy", "bitte", "(kannst|könntest) du", "ich (möchte|will)"],
+  suffixes: ["bitte", "danke", "jetzt"],
+  commands: {
+    switch_language: [
+      "(sprich|rede|antworte) (auf|in) {language}",
+      "sprich {language}",
+      "wechsle (zu|auf) {language}",
+      "(stelle|stell) [die] sprache auf {language} [um]"
+    ],
+    pin: [
+      "(speichere|speicher|markiere|markier|merke dir|merk dir) (das|diesen ort|diese stelle|hier|den standort)",
+      "(speichere|speicher|markiere|markier|merke dir|merk dir) (das|diesen ort|diese stelle|hier|den standort) (als|unter) {label}"
+    ],
+    navigate: [
+      "(bring|führe|führ) mich (zu|zum|zur) {target}",
+      "(navigiere|geh|gehe) (zu|zum|zur) {target}",
+      "wo (ist|sind) [der |die |das ][nächste |nächster |nächstes ]{target}",
+      "(finde|such|suche) [den |die |das |einen |eine |ein ]{target}",
+      "wie komme ich (zu|zum|zur) {target}",
+      "ich suche [den |die |das |einen |eine |ein ]{target}",
+      "gibt es (einen|eine|ein) {target} in der nähe"
+    ],
+    cancel_navigation: [
+      "(navigation|route) (abbrechen|beenden|stoppen)",
+      "(brich|breche) die (navigation|route) ab",
+      "(stopp|stoppe|beende) die (navigation|route)",
+      "vergiss es",
+      "egal"
+    ],
+    repeat: ["(wiederhole|wiederhol) [das]", "sag das (noch mal|nochmal)", "was hast du gesagt", "(noch mal|nochmal)"],
+    describe: [
+      "beschreibe [die umgebung|die szene|was du siehst]",
+      "was siehst du",
+      "was ist (um mich herum|vor mir)",
+      "(schau|sieh) dich um"
+    ],
+    read_text: [
+      "lies [das|es|das schild|den text] [vor]",
+      "was steht (da|hier|dort|auf dem schild)"
+    ],
+    where_am_i: ["wo (bin ich|sind wir)", "(auf welcher etage|in welchem stockwerk) (bin ich|sind wir)"],
+    confirm: ["(ja|jawohl|genau|richtig|okay|ok|klar)", "ja bring mich hin"],
+    decline: ["(nein|nee)", "nein danke", "nicht das"]
+  },
+  translate: ["[und] (übersetze|übersetz) [es|das] (auf|ins|in) {language}", "auf {language}"],
+  places: ["toilette", "toiletten", "wc", "ausgang", "aufzug", "fahrstuhl", "treppe", "eingang", "bibliothek", "mensa"],
+  languageNames: {
+    en: ["englisch"], es: ["spanisch"], fr: ["französisch"], de: ["deutsch"], zh: ["chinesisch"],
+    ja: ["japanisch"], hi: ["hindi"], pt: ["portugiesisch"], it: ["italienisch"]
+  }
+};
+
+export default grammar;
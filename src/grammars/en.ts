@@ -0,0 +1,59 @@
+import type { IntentGrammar } from "../services/intents";
+
+const grammar: IntentGrammar = {
+  wake: ["(hey|hi|okay|ok) [vision] buddy"],
+  prefixes: ["[hey] [vision] buddy", "please", "(can|could|would|will) you", "i (want|need|would like|'d like) to", "i wanna"],
+  suffixes: ["please", "for me", "thanks", "thank you", "now", "right now"],
+  commands: {
+    switch_language: [
+      "(speak|talk|reply|answer) in {language}",
+      "switch [the language] to {language}",
+      "(change|set) [the] language to {language}",
+      "use {language}"
+    ],
+    pin: [
+      "(pin|save|remember|mark) [this|it|here|this place|this spot|this location|my location|the location|location]",
+      "(pin|save|remember|mark) (this|it|here|this place|this spot|this location|my location|[the] location) (as|called|named) {label}",
+      "(call|name|label) (this|it|this place|this spot) {label}"
+    ],
+    navigate: [
+      "(take|bring|guide|lead|walk) me to {target}",
+      "(navigate|go|get me) to {target}",
+      "[give me] directions to {target}",
+      "(where is|where's|where are) [the] [nearest|closest] {target}",
+      "how do i (get|go) to {target}",
+      "(find|locate) [the|a|an] [nearest|closest] {target}",
+      "(i'm|i am) looking for {target}",
+      "looking for {target}",
+      "is there (a|an) {target} (nearby|near here|around here|on this floor)"
+    ],
+    cancel_navigation: [
+      "(cancel|stop|end|quit) [the] (navigation|route|directions|guidance)",
+      "stop (navigating|guiding me)",
+      "never mind",
+      "forget it"
+    ],
+    repeat: ["repeat [that|it|yourself]", "say (that|it) again", "what did you (say|just say)", "come again", "pardon", "one more time"],
+    describe: [
+      "describe [the] (scene|surroundings|room|area|view)",
+      "describe (what you see|what's around me|what is around me)",
+      "what (do|can) you see",
+      "(what's|what is) (around|in front of) (me|us)",
+      "look around"
+    ],
+    read_text: [
+      "read (this|that|it|the sign|the signs|the text|the label|everything) [aloud|out loud|to me]",
+      "read [it] out [loud]",
+      "what does (this|that|it|the sign) say",
+      "(what's|what is) written (here|there|on (this|that|it|the sign))"
+    ],
+    where_am_i: ["where am i", "where are we", "(what|which) floor am i on", "what building am i in", "(what's|what is) my location"],
+    confirm: ["(yes|yeah|yep|yup|sure|correct|right|ok|okay)", "(yes|yeah|sure) take me there", "that's (it|right|the one)", "go there"],
+    decline: ["(no|nope|nah)", "no thanks", "not that [one]", "that's wrong"]
+  },
+  translate: ["[and] translate [it|this|that] (to|into) {language}", "in {language}"],
+  places: ["washroom", "restroom", "toilet", "bathroom", "exit", "elevator", "lift", "stairs", "entrance", "library", "cafeteria"],
+  languageNames: {}
+};
+
+export default grammar;
@@ -0,0 +1,55 @@
+import type { IntentGrammar } from "../services/intents";
+
+const grammar: IntentGrammar = {
+  wake: ["(oye|hola|hey) [vision] (buddy|badi)"],
+  prefixes: ["[oye] buddy", "por favor", "(puedes|podrías)", "(quiero|necesito)"],
+  suffixes: ["por favor", "gracias", "ahora"],
+  commands: {
+    switch_language: [
+      "(habla|háblame|responde|contesta) en {language}",
+      "cambia [el idioma] a {language}",
+      "(cambiar|pon|poner) [el] idioma (a|en) {language}",
+      "usa [el] {language}"
+    ],
+    pin: [
+      "(guarda|guardar|marca|marcar|fija|fijar|recuerda|recordar) (esto|este lugar|este sitio|aquí|esta ubicación|la ubicación)",
+      "(guarda|guardar|marca|marcar|fija|fijar|recuerda|recordar) (esto|este lugar|este sitio|aquí|esta ubicación|la ubicación) (como|llamado|con el nombre) {label}"
+    ],
+    navigate: [
+      "(llévame|guíame|acompáñame) (a|al|hasta) {target}",
+      "(ir|ve|vamos|navega|navegar) (a|al|hasta) {target}",
+      "dónde (está|están|queda) [el |la |los |las ]{target}",
+      "(busca|buscar|encuentra|encontrar) [el |la |un |una ]{target}",
+      "cómo (llego|voy) (a|al) {target}",
+      "estoy buscando [el |la |un |una ]{target}",
+      "hay (un|una) {target} (cerca|por aquí)"
+    ],
+    cancel_navigation: [
+      "(cancela|cancelar|detén|para|parar|termina) [la] (navegación|ruta)",
+      "olvídalo",
+      "no importa"
+    ],
+    repeat: ["(repite|repítelo|repetir) [eso]", "(dilo|dímelo) otra vez", "qué dijiste", "otra vez"],
+    describe: [
+      "describe [la escena|el entorno|lo que ves|lo que hay]",
+      "qué (ves|hay) [a mi alrededor|alrededor|delante|enfrente]",
+      "mira alrededor"
+    ],
+    read_text: [
+      "(lee|léeme|leer) [esto|eso|el cartel|el letrero|el texto|la señal] [en voz alta]",
+      "qué (dice|pone) [aquí|el cartel|el letrero|esto]",
+      "qué está escrito [aquí|ahí]"
+    ],
+    where_am_i: ["dónde (estoy|estamos)", "en qué (piso|planta) (estoy|estamos)"],
+    confirm: ["(sí|claro|vale|correcto|exacto|de acuerdo|ok)", "sí llévame (allí|ahí)"],
+    decline: ["no", "no gracias", "ese no"]
+  },
+  translate: ["[y] (traduce|tradúcelo|traducir) [esto|eso] (al|a) {language}", "en {language}"],
+  places: ["baño", "baños", "servicio", "servicios", "aseo", "salida", "ascensor", "escaleras", "entrada", "biblioteca", "cafetería"],
+  languageNames: {
+    en: ["inglés"], es: ["español", "castellano"], fr: ["francés"], de: ["alemán"], zh: ["chino"],
+    ja: ["japonés"], hi: ["hindi"], pt: ["portugués"], it: ["italiano"]
+  }
+};
+
+export default grammar;
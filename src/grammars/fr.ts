@@ -0,0 +1,57 @@
+import type { IntentGrammar } from "../services/intents";
+
+const grammar: IntentGrammar = {
+  wake: ["(hé|hey|salut|ok) [vision] buddy"],
+  prefixes: ["[hé] buddy", "s'il (te|vous) plaît", "(peux tu|pouvez vous|tu peux|vous pouvez)", "je (veux|voudrais)"],
+  suffixes: ["s'il (te|vous) plaît", "merci", "maintenant"],
+  commands: {
+    switch_language: [
+      "(parle|parlez|réponds|répondez) en {language}",
+      "(passe|passez|change|changez|mets|mettez) [la langue] en {language}",
+      "(utilise|utilisez) [le ]{language}"
+    ],
+    pin: [
+      "(enregistre|enregistrez|épingle|épinglez|mémorise|mémorisez|marque|marquez) (ça|cela|ici|cet endroit|ce lieu|cette position|l'emplacement|la position)",
+      "(enregistre|enregistrez|épingle|épinglez|mémorise|mémorisez|marque|marquez) (ça|cela|ici|cet endroit|ce lieu|cette position|l'emplacement|la position) (comme|sous le nom de|sous le nom) {label}"
+    ],
+    navigate: [
+      "(emmène|emmenez|conduis|conduisez|guide|guidez|amène|amenez) moi (à|au|aux|vers|jusqu'à|jusqu'au) [la |le |les |l']{target}",
+      "(va|allez|aller|navigue|naviguez) (à|au|aux|vers|jusqu'à) [la |le |les |l']{target}",
+      "où (est|sont|se trouve|se trouvent) [la |le |les |l']{target}",
+      "(trouve|trouvez|cherche|cherchez) [la |le |les |l'|un |une ]{target}",
+      "comment (aller|je vais|puis je aller) (à|au|aux) [la |le |les |l']{target}",
+      "je cherche [la |le |les |l'|un |une ]{target}",
+      "(il y a|y a t il) (un|une) {target} (près d'ici|à proximité)"
+    ],
+    cancel_navigation: [
+      "(annule|annulez|arrête|arrêtez|termine|terminez) (la navigation|le guidage|l'itinéraire)",
+      "laisse tomber",
+      "oublie",
+      "peu importe"
+    ],
+    repeat: ["(répète|répétez|répéter) [ça]", "(redis|redites) le", "qu'est ce que (tu as|vous avez) dit", "encore une fois"],
+    describe: [
+      "(décris|décrivez) [la scène|les alentours|ce que tu vois|ce que vous voyez|ce qu'il y a autour]",
+      "qu'est ce que (tu vois|vous voyez)",
+      "que (vois tu|voyez vous)",
+      "qu'est ce qu'il y a (autour de moi|devant moi|ici)",
+      "(regarde|regardez) autour [de moi]"
+    ],
+    read_text: [
+      "(lis|lisez) [ça|ceci|cela|le panneau|le texte|l'affiche|ce qui est écrit] [à voix haute]",
+      "qu'est ce qui est écrit [ici|là|sur le panneau]",
+      "que dit (le panneau|ce panneau)"
+    ],
+    where_am_i: ["où (suis je|sommes nous|je suis|est ce que je suis)", "à quel étage (suis je|je suis|sommes nous)"],
+    confirm: ["(oui|ouais|d'accord|ok|exactement|c'est ça|bien sûr)", "oui emmène moi là bas"],
+    decline: ["(non|nan)", "non merci", "pas ça"]
+  },
+  translate: ["[et] (traduis|traduisez) [ça|le|la|ceci] en {language}", "en {language}"],
+  places: ["toilettes", "wc", "sortie", "ascenseur", "escalier", "escaliers", "entrée", "bibliothèque", "cafétéria"],
+  languageNames: {
+    en: ["anglais"], es: ["espagnol"], fr: ["français"], de: ["allemand"], zh: ["chinois"],
+    ja: ["japonais"], hi: ["hindi"], pt: ["portugais"], it: ["italien"]
+  }
+};
+
+export default grammar;
@@ -0,0 +1,45 @@
+import type { IntentGrammar } from "../services/intents";
+
+const grammar: IntentGrammar = {
+  wake: ["(हे|हाय|hey) (बडी|buddy)"],
+  prefixes: ["कृपया", "बडी", "ज़रा"],
+  suffixes: ["कृपया", "(प्लीज़|प्लीज)", "धन्यवाद"],
+  commands: {
+    switch_language: [
+      "{language} (में|मे) (बोलो|बोलिए|बात करो|जवाब दो)",
+      "भाषा {language} (करो|कर दो|कीजिए)",
+      "{language} (पर|में) (स्विच करो|बदलो)"
+    ],
+    pin: [
+      "(यह|इस|ये) (जगह|स्थान) [को] (सेव करो|सहेजो|सहेज लो|पिन करो|याद रखो|याद करो)",
+      "(यह|इस|ये) (जगह|स्थान) [को] {label} (के नाम से|नाम से) (सेव करो|सहेजो|पिन करो)"
+    ],
+    navigate: [
+      "मुझे {target} (ले चलो|तक ले चलो|ले जाओ|पहुँचाओ|जाना है)",
+      "सबसे (नज़दीकी|पास का|पास की) {target} कहाँ है",
+      "{target} कहाँ है",
+      "{target} (तक|पर) ले चलो",
+      "{target} (ढूँढो|ढूंढो|खोजो)"
+    ],
+    cancel_navigation: ["(नेविगेशन|रास्ता) (बंद करो|रद्द करो|रोको)", "रहने दो", "छोड़ो"],
+    repeat: ["(फिर से|दोबारा) (बोलो|कहो)", "दोहराओ", "क्या कहा"],
+    describe: [
+      "(आसपास|आस पास|सामने) क्या है",
+      "(तुम्हें|आपको) क्या दिख रहा है",
+      "(आसपास|माहौल) (का वर्णन करो|बताओ)",
+      "चारों ओर देखो"
+    ],
+    read_text: ["(यह|ये|इसे|बोर्ड) (पढ़ो|पढ़ कर सुनाओ)", "(इस पर|बोर्ड पर|यहाँ) क्या लिखा है"],
+    where_am_i: ["मैं कहाँ हूँ", "हम कहाँ हैं", "मैं किस (मंज़िल|फ्लोर) पर हूँ"],
+    confirm: ["(हाँ|हां|जी|जी हाँ|हाँ जी|ठीक है)", "हाँ (ले चलो|वहाँ ले चलो)"],
+    decline: ["(नहीं|नही|ना|जी नहीं)"]
+  },
+  translate: ["{language} में (अनुवाद करो|ट्रांसलेट करो)", "{language} में"],
+  places: ["शौचालय", "वॉशरूम", "टॉयलेट", "बाथरूम", "निकास", "एग्जिट", "लिफ्ट", "सीढ़ियाँ", "प्रवेश द्वार", "पुस्तकालय", "कैंटीन"],
+  languageNames: {
+    en: ["अंग्रेज़ी", "इंग्लिश"], es: ["स्पेनिश"], fr: ["फ्रेंच", "फ़्रेंच"], de: ["जर्मन"], zh: ["चीनी"],
+    ja: ["जापानी"], hi: ["हिंदी"], pt: ["पुर्तगाली"], it: ["इतालवी"]
+  }
+};
+
+export default grammar;
@@ -0,0 +1,49 @@
+import type { IntentGrammar } from "../services/intents";
+
+const grammar: IntentGrammar = {
+  wake: ["(ehi|ciao|hey) [vision] buddy"],
+  prefixes: ["[ehi] buddy", "per favore", "(puoi|potresti)", "(voglio|vorrei|devo)"],
+  suffixes: ["per favore", "grazie", "(adesso|ora)"],
+  commands: {
+    switch_language: [
+      "(parla|parlami|rispondi) in {language}",
+      "(passa|cambia|imposta) [la lingua] (a |in |all'){language}",
+      "usa [l'|il ]{language}"
+    ],
+    pin: [
+      "(salva|segna|ricorda|memorizza) (questo|questo posto|questo luogo|qui|la posizione|questa posizione)",
+      "(salva|segna|ricorda|memorizza) (questo|questo posto|questo luogo|qui|la posizione|questa posizione) (come|chiamato) {label}"
+    ],
+    navigate: [
+      "(portami|guidami|accompagnami) [a |al |alla |allo |all'|in |fino a |fino al ]{target}",
+      "(dov'è|dove è|dove si trova|dove sono) [il |la |lo |l'|i |gli |le ]{target}",
+      "(cerca|trova) [il |la |lo |l'|un |una |un']{target}",
+      "come (arrivo|vado) (a |al |alla |all'){target}",
+      "sto cercando [il |la |lo |l'|un |una |un']{target}",
+      "c'è (un |una |un'){target} (qui vicino|nei paraggi)"
+    ],
+    cancel_navigation: ["(annulla|ferma|interrompi|termina) [la |il ](navigazione|percorso)", "lascia stare", "non importa"],
+    repeat: ["(ripeti|ripetilo)", "(dillo|ridillo) di nuovo", "cosa hai detto", "di nuovo"],
+    describe: [
+      "(descrivi|descrivimi) [la scena|l'ambiente|cosa vedi|cosa c'è intorno]",
+      "cosa (vedi|c'è intorno a me|c'è davanti a me|c'è qui)",
+      "(guardati|guarda) intorno"
+    ],
+    read_text: [
+      "(leggi|leggimi) [questo|questa|il cartello|la scritta|il testo|quello che c'è scritto]",
+      "cosa c'è scritto [qui|sul cartello]",
+      "cosa dice [il cartello|la scritta]"
+    ],
+    where_am_i: ["dove (sono|siamo|mi trovo|ci troviamo)", "(a|in) che piano (sono|siamo)"],
+    confirm: ["(sì|certo|esatto|giusto|va bene|ok|okay)", "sì portami lì"],
+    decline: ["no", "no grazie", "non quello"]
+  },
+  translate: ["[e] (traduci|traducilo) in {language}", "in {language}"],
+  places: ["bagno", "bagni", "toilette", "uscita", "ascensore", "scale", "ingresso", "biblioteca", "mensa"],
+  languageNames: {
+    en: ["inglese"], es: ["spagnolo"], fr: ["francese"], de: ["tedesco"], zh: ["cinese"],
+    ja: ["giapponese"], hi: ["hindi"], pt: ["portoghese"], it: ["italiano"]
+  }
+};
+
+export default grammar;
@@ -0,0 +1,39 @@
+import type { IntentGrammar } from "../services/intents";
+
+const grammar: IntentGrammar = {
+  wake: ["(ねえ|ヘイ|hey)[ ](バディ|buddy)"],
+  prefixes: ["ねえ", "バディ", "すみません"],
+  suffixes: ["ください", "下さい", "(お願い|おねがい)[します]"],
+  commands: {
+    switch_language: [
+      "{language}で(話して|話す|しゃべって|答えて)",
+      "{language}に(切り替えて|変えて|変更して)",
+      "言語を{language}に(して|変えて|切り替えて|変更して)"
+    ],
+    pin: [
+      "(ここ|この場所)を(保存|記録|登録|ピン留め)[して]",
+      "(ここ|この場所)を{label}(として|で)(保存|記録|登録)[して]"
+    ],
+    navigate: [
+      "{target}(まで|へ|に)(案内して|連れて行って|行きたい)",
+      "一番近い{target}[は]どこ[ですか]",
+      "{target}(は|って)どこ[ですか|にある|にありますか]",
+      "{target}を探して"
+    ],
+    cancel_navigation: ["(案内|ナビ|ナビゲーション)を(やめて|止めて|中止して|キャンセルして|終了して)", "(もういい|やっぱりいい)"],
+    repeat: ["もう一度[言って]", "(繰り返して|リピート)", "何て言った"],
+    describe: ["(周り|まわり|周囲|前)に何がある", "何が見える", "(周り|まわり|周囲|景色)を(説明して|教えて)", "周りを見て"],
+    read_text: ["(これ|この文字|この看板|標識)を読んで", "[これ|看板|標識][に|には]何て書いてある"],
+    where_am_i: ["ここはどこ[ですか]", "(私|僕)はどこにいる[の|ますか]", "今どこ[にいる]", "[ここは]何階[ですか]"],
+    confirm: ["(はい|うん|そう|そうです|ええ|オッケー)", "はい(案内して|連れて行って)"],
+    decline: ["(いいえ|いや|違う|ちがう|いらない)"]
+  },
+  translate: ["{language}に(翻訳して|訳して)", "{language}で"],
+  places: ["トイレ", "お手洗い", "出口", "エレベーター", "階段", "入口", "図書館", "食堂"],
+  languageNames: {
+    en: ["英語"], es: ["スペイン語"], fr: ["フランス語"], de: ["ドイツ語"], zh: ["中国語"],
+    ja: ["日本語"], hi: ["ヒンディー語"], pt: ["ポルトガル語"], it: ["イタリア語"]
+  }
+};
+
+export default grammar;
@@ -0,0 +1,55 @@
+import type { IntentGrammar } from "../services/intents";
+
+const grammar: IntentGrammar = {
+  wake: ["(ei|oi|hey) [vision] buddy"],
+  prefixes: ["[ei] buddy", "por favor", "(você pode|pode)", "(quero|preciso)"],
+  suffixes: ["por favor", "(obrigado|obrigada)", "agora"],
+  commands: {
+    switch_language: [
+      "(fala|fale|responda|responde) em {language}",
+      "(muda|mude|troca|troque) [o idioma|a língua] para [o ]{language}",
+      "(usa|use) [o ]{language}"
+    ],
+    pin: [
+      "(salva|salve|marca|marque|lembra|lembre|guarda|guarde) (isto|isso|aqui|este lugar|esse lugar|este local|a localização)",
+      "(salva|salve|marca|marque|lembra|lembre|guarda|guarde) (isto|isso|aqui|este lugar|esse lugar|este local|a localização) (como|chamado) {label}"
+    ],
+    navigate: [
+      "(me leva|me leve|leve me|me guia|me guie) (para|até|ao|à|a) [o |a ]{target}",
+      "(vá|vamos|ir|navegue|navega) (para|até|ao|à) [o |a ]{target}",
+      "onde (fica|está|é) [o |a |os |as ]{target}",
+      "cadê [o |a ]{target}",
+      "(procure|procura|encontre|encontra|ache|acha) [o |a |um |uma ]{target}",
+      "como (chego|eu chego) (ao|à|a|no|na) {target}",
+      "estou procurando [o |a |um |uma ]{target}",
+      "tem (um|uma) {target} (aqui perto|por perto)"
+    ],
+    cancel_navigation: [
+      "(cancela|cancele|cancelar|para|pare|parar|encerra|encerre) [a] (navegação|rota)",
+      "esquece",
+      "deixa (pra|para) lá"
+    ],
+    repeat: ["(repete|repita|repetir) [isso]", "(fala|diga|diz) de novo", "o que você disse", "de novo"],
+    describe: [
+      "(descreve|descreva) [a cena|o ambiente|o que você vê|o que tem ao redor]",
+      "o que (você vê|tem ao meu redor|tem na minha frente|há ao redor)",
+      "(olha|olhe) em volta"
+    ],
+    read_text: [
+      "(lê|leia) [isto|isso|a placa|o texto|o aviso] [para mim|em voz alta]",
+      "o que (está escrito|diz) (aqui|ali|na placa|nisso)",
+      "o que (isso|a placa) diz"
+    ],
+    where_am_i: ["onde (estou|eu estou|estamos)", "em que andar (estou|eu estou|estamos)"],
+    confirm: ["(sim|isso|isso mesmo|claro|certo|pode ser|ok)", "sim me leva lá"],
+    decline: ["(não|negativo)", "não obrigado", "esse não"]
+  },
+  translate: ["[e] (traduz|traduza|traduzir) [isso|isto] para [o ]{language}", "em {language}"],
+  places: ["banheiro", "toalete", "saída", "elevador", "escada", "entrada", "biblioteca", "cantina", "refeitório"],
+  languageNames: {
+    en: ["inglês"], es: ["espanhol"], fr: ["francês"], de: ["alemão"], zh: ["chinês"],
+    ja: ["japonês"], hi: ["hindi"], pt: ["português"], it: ["italiano"]
+  }
+};
+
+export default grammar;
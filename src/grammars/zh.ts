@@ -0,0 +1,44 @@
+import type { IntentGrammar } from "../services/intents";
+
+const grammar: IntentGrammar = {
+  wake: ["(你好|嘿|hey)[ ](buddy|巴迪)"],
+  prefixes: ["请", "麻烦[你]", "帮我", "你(能|可以)"],
+  suffixes: ["吧", "好吗", "谢谢", "一下"],
+  commands: {
+    switch_language: [
+      "(说|讲|用){language}",
+      "(切换|换)(到|成){language}",
+      "把语言(改|换|设置)(成|为){language}"
+    ],
+    pin: [
+      "(保存|记住|标记)(这里|这个地方|这个位置|位置)",
+      "(保存|记住|标记)(这里|这个地方|这个位置)(为|叫做|叫){label}",
+      "把(这里|这个地方)(标记|保存)(为|成){label}"
+    ],
+    navigate: [
+      "(带我|领我|送我)(去|到){target}",
+      "(导航|去)到{target}",
+      "我(要|想)去{target}",
+      "我(想|要)找{target}",
+      "最近的{target}在哪[里|儿]",
+      "{target}在哪[里|儿]",
+      "怎么去{target}",
+      "(找|寻找){target}"
+    ],
+    cancel_navigation: ["(取消|停止|结束)导航", "不用了", "算了"],
+    repeat: ["(重复|再说)[一遍|一次]", "你说什么"],
+    describe: ["(描述|说说)[一下][周围|周围的环境|场景]", "你看到[了]什么", "(周围|前面)有什么", "看看周围"],
+    read_text: ["(读|念)[一下][这个|标志|牌子|文字|上面的字]", "[这个|标志|牌子][上]写的是什么", "上面写着什么"],
+    where_am_i: ["我在哪[里|儿]", "我们在哪[里|儿]", "我在几楼", "这是哪[里|儿]"],
+    confirm: ["(是|是的|对|对的|好|好的|可以|嗯)", "(是|对|好)[的]带我去"],
+    decline: ["(不|不是|不对|不要|不用)"]
+  },
+  translate: ["(翻译成|译成){language}", "用{language}"],
+  places: ["洗手间", "厕所", "卫生间", "出口", "电梯", "楼梯", "入口", "图书馆", "食堂"],
+  languageNames: {
+    en: ["英语", "英文"], es: ["西班牙语"], fr: ["法语"], de: ["德语"], zh: ["中文", "汉语", "普通话"],
+    ja: ["日语"], hi: ["印地语"], pt: ["葡萄牙语"], it: ["意大利语"]
+  }
+};
+
+export default grammar;
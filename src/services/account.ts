@@ -0,0 +1,70 @@
+import { getDeviceToken, sessionHeaders, setDeviceToken } from "./session";
+
+export const POINTS_REASONS = ["scan", "pin", "pin_removed"] as const;
+export type PointsReason = typeof POINTS_REASONS[number];
+
+/** One event in the Buddy Points ledger; "pin_removed" entries are negative and take back a deleted pin's award. */
+export interface PointsEntry {
+  id: string;
+  userId: string;
+  amount: number;
+  reason: PointsReason;
+  /** The pinned node, for "pin" and "pin_removed" entries. */
+  nodeId: string | null;
+  /** ISO 8601 timestamp assigned by the server. */
+  createdAt: string;
+}
+
+export interface PointsSummary {
+  userId: string;
+  balance: number;
+  /** Most recent entries, newest first. */
+  entries: PointsEntry[];
+}
+
+/** Returned once by POST /api/me; the token is the only credential. */
+export interface DeviceAccount {
+  userId: string;
+  token: string;
+}
+
+/**
+ * Account Client
+ * Wraps the /api/me routes. Each device registers an anonymous account on first
+ * use and keeps the signed token; a token the server no longer accepts is replaced.
+ */
+export class AccountService {
+  private registering: Promise<void> | null = null;
+
+  async ensureAccount(): Promise<void> {
+    if (getDeviceToken()) return;
+    if (!this.registering) {
+      this.registering = this.register().finally(() => (this.registering = null));
+    }
+    return this.registering;
+  }
+
+  async fetchPoints(): Promise<PointsSummary> {
+    await this.ensureAccount();
+    let response = await fetch("/api/me/points", { headers: sessionHeaders() });
+    if (response.status === 401 || response.status === 404) {
+      setDeviceToken(null);
+      await this.ensureAccount();
+      response = await fetch("/api/me/points", { headers: sessionHeaders() });
+    }
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Account Error ${response.status}`);
+    }
+    return data;
+  }
+
+  private async register(): Promise<void> {
+    const response = await fetch("/api/me", { method: "POST", headers: sessionHeaders() });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Account Error ${response.status}`);
+    }
+    setDeviceToken((data as DeviceAccount).token);
+  }
+}
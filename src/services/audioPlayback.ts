@@ -0,0 +1,101 @@
+/**
+ * Plays synthesized audio to the end. The object URL is revoked afterwards and
+ * the element is paused if the signal aborts, which rejects with an AbortError.
+ */
+export function playAudioBlob(blob: Blob, signal: AbortSignal, rate: number = 1): Promise<void> {
+  const url = URL.createObjectURL(blob);
+  const audio = new Audio(url);
+  audio.playbackRate = rate;
+
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      signal.removeEventListener("abort", onAbort);
+      audio.pause();
+      audio.removeAttribute("src");
+      URL.revokeObjectURL(url);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException("Speech interrupted", "AbortError"));
+    };
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    audio.onended = () => {
+      cleanup();
+      resolve();
+    };
+    audio.onerror = () => {
+      cleanup();
+      reject(new Error("Audio playback failed"));
+    };
+    audio.play().catch(error => {
+      cleanup();
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Plays a streaming audio response as the bytes arrive, through Media Source
+ * Extensions where the browser supports the format, otherwise after buffering.
+ */
+export async function playAudioStream(response: Response, signal: AbortSignal, rate: number = 1): Promise<void> {
+  const mimeType = response.headers.get("content-type")?.split(";")[0] || "audio/mpeg";
+  if (!response.body || typeof MediaSource === "undefined" || !MediaSource.isTypeSupported(mimeType)) {
+    return playAudioBlob(await response.blob(), signal, rate);
+  }
+
+  const mediaSource = new MediaSource();
+  const url = URL.createObjectURL(mediaSource);
+  const audio = new Audio(url);
+  audio.playbackRate = rate;
+  const reader = response.body.getReader();
+
+  return new Promise<void>((resolve, reject) => {
+    let settled = false;
+    const finish = (error?: unknown) => {
+      if (settled) return;
+      settled = true;
+      signal.removeEventListener("abort", onAbort);
+      audio.pause();
+      audio.removeAttribute("src");
+      URL.revokeObjectURL(url);
+      reader.cancel().catch(() => {});
+      if (error) reject(error);
+      else resolve();
+    };
+    const onAbort = () => finish(new DOMException("Speech interrupted", "AbortError"));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    audio.onended = () => finish();
+    audio.onerror = () => finish(new Error("Audio playback failed"));
+
+    mediaSource.addEventListener("sourceopen", async () => {
+      try {
+        const buffer = mediaSource.addSourceBuffer(mimeType);
+        const append = (chunk: Uint8Array) => new Promise<void>((done, fail) => {
+          buffer.addEventListener("updateend", () => done(), { once: true });
+          buffer.addEventListener("error", () => fail(new Error("Audio decode failed")), { once: true });
+          buffer.appendBuffer(chunk);
+        });
+
+        let started = false;
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done || settled) break;
+          await append(value);
+          if (!started) {
+            started = true;
+            audio.play().catch(finish);
+          }
+        }
+        if (settled) return;
+        if (mediaSource.readyState === "open") mediaSource.endOfStream();
+        if (!started) finish();
+      } catch (error) {
+        finish(error);
+      }
+    }, { once: true });
+  });
+}
@@ -0,0 +1,33 @@
+import { t, type Locale } from "./i18n";
+
+export interface Floor {
+  /** 0 is the ground floor, negative levels are basements. */
+  level: number;
+  name: string;
+}
+
+export interface Building {
+  id: string;
+  name: string;
+  floors: Floor[];
+}
+
+/** The building's name for a floor, or a numbered one in `locale` when the building does not name it. */
+export function floorName(building: Building | undefined, level: number, locale: Locale): string {
+  return building?.floors.find(f => f.level === level)?.name || t(locale, "floor.numbered", { level });
+}
+
+/**
+ * Buildings Client
+ * Wraps the /api/buildings routes in server.ts.
+ */
+export class BuildingService {
+  async listBuildings(): Promise<Building[]> {
+    const response = await fetch("/api/buildings");
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Buildings Error ${response.status}`);
+    }
+    return data;
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Dead reckoning: a running position estimate on the floor plan from step
+ * counting (device motion) and compass heading (device orientation), snapped
+ * back onto a registry landmark whenever the user is known to be at one.
+ * The core takes plain sensor events, so recorded traces replay under Node
+ * (`npm run check:motion`); MotionTracker feeds it from the browser's sensors.
+ */
+import type { RoutePlan } from "./navigation";
+
+/** Floor-plan coordinates in meters: x grows to the east, y to the north. */
+export interface FloorPosition {
+  x: number;
+  y: number;
+  floor: number;
+}
+
+/** One sensor reading; `t` is milliseconds on any monotonic clock. */
+export type SensorEvent =
+  /** Acceleration including gravity, m/s², in any device orientation. */
+  | { type: "motion"; t: number; x: number; y: number; z: number }
+  /** Compass heading, degrees clockwise from north. */
+  | { type: "heading"; t: number; degrees: number }
+  /** The user was placed at a known spot, e.g. a recognized landmark. */
+  | ({ type: "fix"; t: number } & FloorPosition);
+
+/** A recording of sensor events, compact enough to keep as a JSON fixture. */
+export interface SensorTrace {
+  description?: string;
+  /** [t, x, y, z] acceleration samples. */
+  motion: [number, number, number, number][];
+  /** [t, degrees] compass readings. */
+  heading: [number, number][];
+  /** [t, x, y, floor]; the first one is where the recording starts. */
+  fixes: [number, number, number, number][];
+}
+
+export interface PositionEstimate extends FloorPosition {
+  /** Smoothed compass heading, degrees clockwise from north; null before the first reading. */
+  heading: number | null;
+  /** Steps counted since the tracker started. */
+  steps: number;
+  /** Meters walked since the last fix. */
+  sinceFixMeters: number;
+  /** Rough radius the true position is likely within; grows with distance since the last fix. */
+  uncertaintyMeters: number;
+}
+
+export interface DeadReckonerOptions {
+  /** Average step length; 0.7 m suits most adults at a walking pace. */
+  strideMeters?: number;
+  /** Rise above the gravity baseline, in m/s², that counts as a step. */
+  stepThreshold?: number;
+  /** Steps closer together than this are one step seen twice. */
+  minStepIntervalMs?: number;
+}
+
+// Uncertainty right after a fix, and how much it grows per meter walked
+const FIX_UNCERTAINTY_METERS = 1;
+const DRIFT_PER_METER = 0.1;
+// Time constants of the filters, in ms: gravity drifts slowly, a step is a quick bump
+const GRAVITY_TAU_MS = 1000;
+const STEP_TAU_MS = 60;
+const HEADING_TAU_MS = 300;
+
+function smoothing(dtMs: number, tauMs: number): number {
+  return 1 - Math.exp(-Math.max(0, dtMs) / tauMs);
+}
+
+/**
+ * Counts steps as peaks in the magnitude of acceleration above a slowly
+ * tracked gravity baseline. A peak must fall back below the baseline before
+ * the next one counts, which ignores the wobble on either side of a footfall.
+ */
+export class StepDetector {
+  private gravity: number | null = null;
+  private bump = 0;
+  private lastT: number | null = null;
+  private armed = true;
+  private lastStepAt = -Infinity;
+
+  constructor(private threshold: number = 1, private minIntervalMs: number = 280) {}
+
+  /** True when this sample completes a step. */
+  push(t: number, x: number, y: number, z: number): boolean {
+    const magnitude = Math.hypot(x, y, z);
+    const dt = this.lastT === null ? 0 : t - this.lastT;
+    this.lastT = t;
+    if (this.gravity === null) {
+      this.gravity = magnitude;
+      return false;
+    }
+    this.gravity += smoothing(dt, GRAVITY_TAU_MS) * (magnitude - this.gravity);
+    this.bump += smoothing(dt, STEP_TAU_MS) * (magnitude - this.gravity - this.bump);
+
+    if (this.bump < 0) this.armed = true;
+    if (this.armed && this.bump > this.threshold && t - this.lastStepAt >= this.minIntervalMs) {
+      this.armed = false;
+      this.lastStepAt = t;
+      return true;
+    }
+    return false;
+  }
+
+  reset() {
+    this.gravity = null;
+    this.bump = 0;
+    this.lastT = null;
+    this.armed = true;
+    this.lastStepAt = -Infinity;
+  }
+}
+
+/** Averages headings as unit vectors, so 359° and 1° smooth to 0° rather than 180°. */
+class HeadingFilter {
+  private east = 0;
+  private north = 0;
+  private lastT: number | null = null;
+
+  push(t: number, degrees: number) {
+    const radians = degrees * Math.PI / 180;
+    const alpha = this.lastT === null ? 1 : smoothing(t - this.lastT, HEADING_TAU_MS);
+    this.lastT = t;
+    this.east += alpha * (Math.sin(radians) - this.east);
+    this.north += alpha * (Math.cos(radians) - this.north);
+  }
+
+  get degrees(): number | null {
+    if (this.lastT === null || (this.east === 0 && this.north === 0)) return null;
+    return (Math.atan2(this.east, this.north) * 180 / Math.PI + 360) % 360;
+  }
+
+  reset() {
+    this.east = 0;
+    this.north = 0;
+    this.lastT = null;
+  }
+}
+
+/**
+ * Turns sensor events into a position estimate. Each step moves the estimate
+ * one stride along the current heading; a fix puts it back on a known spot.
+ * There is no estimate until the first fix, though steps are still counted.
+ */
+export class DeadReckoner {
+  private detector: StepDetector;
+  private headingFilter = new HeadingFilter();
+  private readonly strideMeters: number;
+  private position: FloorPosition | null = null;
+  private steps = 0;
+  private sinceFixMeters = 0;
+
+  constructor(options: DeadReckonerOptions = {}) {
+    this.strideMeters = options.strideMeters ?? 0.7;
+    this.detector = new StepDetector(options.stepThreshold ?? 1, options.minStepIntervalMs ?? 280);
+  }
+
+  /** Applies one event; true when the estimate moved. */
+  update(event: SensorEvent): boolean {
+    switch (event.type) {
+      case "heading":
+        this.headingFilter.push(event.t, event.degrees);
+        return false;
+      case "fix":
+        this.position = { x: event.x, y: event.y, floor: event.floor };
+        this.sinceFixMeters = 0;
+        return true;
+      case "motion": {
+        if (!this.detector.push(event.t, event.x, event.y, event.z)) return false;
+        this.steps++;
+        const heading = this.headingFilter.degrees;
+        // Without a heading or a starting point a step cannot be placed
+        if (!this.position || heading === null) return false;
+        const radians = heading * Math.PI / 180;
+        this.position = {
+          ...this.position,
+          x: this.position.x + this.strideMeters * Math.sin(radians),
+          y: this.position.y + this.strideMeters * Math.cos(radians)
+        };
+        this.sinceFixMeters += this.strideMeters;
+        return true;
+      }
+    }
+  }
+
+  /** Keeps x and y across a floor change; stairs and elevators are mapped roughly above each other. */
+  changeFloor(floor: number) {
+    if (this.position) this.position = { ...this.position, floor };
+  }
+
+  estimate(): PositionEstimate | null {
+    if (!this.position) return null;
+    return {
+      ...this.position,
+      heading: this.headingFilter.degrees,
+      steps: this.steps,
+      sinceFixMeters: this.sinceFixMeters,
+      uncertaintyMeters: FIX_UNCERTAINTY_METERS + DRIFT_PER_METER * this.sinceFixMeters
+    };
+  }
+
+  reset() {
+    this.detector.reset();
+    this.headingFilter.reset();
+    this.position = null;
+    this.steps = 0;
+    this.sinceFixMeters = 0;
+  }
+}
+
+/** The trace's events in time order. */
+export function traceEvents(trace: SensorTrace): SensorEvent[] {
+  const events: SensorEvent[] = [
+    ...trace.motion.map(([t, x, y, z]) => ({ type: "motion" as const, t, x, y, z })),
+    ...trace.heading.map(([t, degrees]) => ({ type: "heading" as const, t, degrees })),
+    ...trace.fixes.map(([t, x, y, floor]) => ({ type: "fix" as const, t, x, y, floor }))
+  ];
+  // Fixes first at equal times, so a trace can start with its fix
+  const order = { fix: 0, heading: 1, motion: 2 };
+  return events.sort((a, b) => a.t - b.t || order[a.type] - order[b.type]);
+}
+
+/** Runs a recorded trace through a fresh DeadReckoner and returns where it ends up. */
+export function replayTrace(trace: SensorTrace, options: DeadReckonerOptions = {}): PositionEstimate | null {
+  const reckoner = new DeadReckoner(options);
+  for (const event of traceEvents(trace)) reckoner.update(event);
+  return reckoner.estimate();
+}
+
+export interface RouteProgress {
+  /** Index of the route step being walked. */
+  stepIndex: number;
+  walkedMeters: number;
+  remainingMeters: number;
+  /** Distance from the estimate to the route line. */
+  offRouteMeters: number;
+}
+
+/**
+ * Projects a position onto the planned route. Only steps on the position's
+ * floor are considered, and never ones before `fromStep`, so progress does not
+ * jump back when the route doubles back on itself. Null when no remaining step
+ * is on that floor.
+ */
+export function routeProgress(plan: RoutePlan, position: FloorPosition, fromStep: number = 0): RouteProgress | null {
+  let best: RouteProgress | null = null;
+  let walkedBefore = 0;
+  plan.steps.forEach((step, i) => {
+    const start = i === 0 ? { ...plan.fromCoordinates, floor: plan.fromFloor } : { ...plan.steps[i - 1].toCoordinates, floor: plan.steps[i - 1].toFloor };
+    const end = { ...step.toCoordinates, floor: step.toFloor };
+    if (i >= fromStep && start.floor === position.floor && end.floor === position.floor) {
+      const dx = end.x - start.x;
+      const dy = end.y - start.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const along = lengthSquared === 0 ? 1 : Math.min(1, Math.max(0, ((position.x - start.x) * dx + (position.y - start.y) * dy) / lengthSquared));
+      const offRouteMeters = Math.hypot(position.x - (start.x + along * dx), position.y - (start.y + along * dy));
+      if (!best || offRouteMeters < best.offRouteMeters) {
+        const walkedMeters = walkedBefore + along * step.distanceMeters;
+        best = { stepIndex: i, walkedMeters, remainingMeters: Math.max(0, plan.totalDistanceMeters - walkedMeters), offRouteMeters };
+      }
+    }
+    walkedBefore += step.distanceMeters;
+  });
+  return best;
+}
+
+type CompassOrientationEvent = DeviceOrientationEvent & { webkitCompassHeading?: number };
+
+/**
+ * Browser adapter: listens to devicemotion and device orientation, feeds a
+ * DeadReckoner and reports each change. iOS asks the user for sensor access
+ * the first time start() runs, so call it from a tap where possible.
+ */
+export class MotionTracker {
+  private reckoner: DeadReckoner;
+  private running = false;
+  private recording: SensorEvent[] | null = null;
+  private readonly orientationEvent: "deviceorientationabsolute" | "deviceorientation" =
+    typeof window !== "undefined" && "ondeviceorientationabsolute" in window ? "deviceorientationabsolute" : "deviceorientation";
+
+  constructor(private onChange: (estimate: PositionEstimate) => void, options: DeadReckonerOptions = {}) {
+    this.reckoner = new DeadReckoner(options);
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  private handle(event: SensorEvent) {
+    this.recording?.push(event);
+    if (this.reckoner.update(event)) {
+      const estimate = this.reckoner.estimate();
+      if (estimate) this.onChange(estimate);
+    }
+  }
+
+  private handleMotion = (event: DeviceMotionEvent) => {
+    const a = event.accelerationIncludingGravity;
+    if (a?.x == null || a.y == null || a.z == null) return;
+    this.handle({ type: "motion", t: event.timeStamp, x: a.x, y: a.y, z: a.z });
+  };
+
+  private handleOrientation = (event: CompassOrientationEvent) => {
+    // Safari reports a compass heading directly; elsewhere alpha counts counter-clockwise from north when absolute
+    const degrees = event.webkitCompassHeading ?? (event.absolute && event.alpha !== null ? (360 - event.alpha) % 360 : null);
+    if (degrees === null) return;
+    this.handle({ type: "heading", t: event.timeStamp, degrees });
+  };
+
+  /** Resolves false when the sensors are missing or access was refused. */
+  async start(): Promise<boolean> {
+    if (this.running) return true;
+    if (typeof DeviceMotionEvent === "undefined") return false;
+    const requestPermission = (DeviceMotionEvent as unknown as { requestPermission?: () => Promise<string> }).requestPermission;
+    if (requestPermission) {
+      try {
+        if (await requestPermission() !== "granted") return false;
+      } catch (error) {
+        console.error("Motion permission failed:", error);
+        return false;
+      }
+    }
+    window.addEventListener("devicemotion", this.handleMotion);
+    window.addEventListener(this.orientationEvent, this.handleOrientation as EventListener);
+    this.running = true;
+    return true;
+  }
+
+  stop() {
+    window.removeEventListener("devicemotion", this.handleMotion);
+    window.removeEventListener(this.orientationEvent, this.handleOrientation as EventListener);
+    this.running = false;
+  }
+
+  /** Places the user at a known spot, such as a landmark they were just recognized at. */
+  fix(position: FloorPosition) {
+    this.handle({ type: "fix", t: performance.now(), ...position });
+  }
+
+  changeFloor(floor: number) {
+    this.reckoner.changeFloor(floor);
+  }
+
+  estimate(): PositionEstimate | null {
+    return this.reckoner.estimate();
+  }
+
+  /** Forgets the position, e.g. after switching buildings. */
+  reset() {
+    this.reckoner.reset();
+    this.recording = null;
+  }
+
+  /** Keeps every event from now on, for stopRecording() to return as a trace. */
+  startRecording() {
+    const estimate = this.reckoner.estimate();
+    this.recording = estimate ? [{ type: "fix", t: performance.now(), x: estimate.x, y: estimate.y, floor: estimate.floor }] : [];
+  }
+
+  stopRecording(): SensorTrace | null {
+    const events = this.recording;
+    this.recording = null;
+    if (!events) return null;
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      motion: events.flatMap(e => e.type === "motion" ? [[round(e.t), round(e.x), round(e.y), round(e.z)] as [number, number, number, number]] : []),
+      heading: events.flatMap(e => e.type === "heading" ? [[round(e.t), round(e.degrees)] as [number, number]] : []),
+      fixes: events.flatMap(e => e.type === "fix" ? [[round(e.t), round(e.x), round(e.y), e.floor] as [number, number, number, number]] : [])
+    };
+  }
+}
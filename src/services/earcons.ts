@@ -0,0 +1,42 @@
+/**
+ * Short generated tones for cues that must play instantly: nothing to
+ * download, and they never queue behind speech.
+ */
+export class EarconPlayer {
+  private context: AudioContext | null = null;
+
+  /** Single beep; higher for hazards that need the user to stop. */
+  hazard(urgent: boolean) {
+    this.play([urgent ? 880 : 660], 0.25);
+  }
+
+  /** Rising pair: the microphone is now taking a command. */
+  listeningStarted() {
+    this.play([523, 784], 0.12);
+  }
+
+  /** Falling pair: the microphone stopped taking a command. */
+  listeningStopped() {
+    this.play([784, 523], 0.12);
+  }
+
+  private play(frequencies: number[], noteSeconds: number) {
+    try {
+      if (!this.context) this.context = new AudioContext();
+      const ctx = this.context;
+      frequencies.forEach((frequency, i) => {
+        const start = ctx.currentTime + i * noteSeconds;
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.3, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + noteSeconds);
+        osc.connect(gain).connect(ctx.destination);
+        osc.start(start);
+        osc.stop(start + noteSeconds);
+      });
+    } catch (err) {
+      console.error("Earcon failed", err);
+    }
+  }
+}
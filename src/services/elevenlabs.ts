@@ -1,49 +1,93 @@
-export class ElevenLabsService {
-  private apiKey: string;
-  private voiceId: string;
+import { playAudioBlob, playAudioStream } from "./audioPlayback";
+import { sessionHeaders } from "./session";
+import { DEFAULT_VOICE_SETTINGS, type SpeakRequest, type SpeechEngine } from "./speechManager";
+import { type IndexedDbTtsCache, ttsCacheKey } from "./ttsCache";
 
-  constructor(apiKey: string, voiceId: string) {
-    this.apiKey = apiKey;
-    this.voiceId = voiceId;
+/**
+ * Speech Client
+ * Wraps POST /api/tts, which streams ElevenLabs audio from the server. Fixed system
+ * phrases are cached per voice, language and text when a cache is given; everything
+ * else is synthesized each time and kept nowhere.
+ */
+export class ElevenLabsService implements SpeechEngine {
+  readonly name = "elevenlabs";
+  readonly remote = true;
+  // Set once the server reports it has no ElevenLabs key, so later messages skip the round trip
+  private notConfigured = false;
+  // Learned from the X-Voice-Id response header; cache lookups need it
+  private voiceId: string | null = null;
+
+  constructor(private cache: IndexedDbTtsCache | null = null) {}
+
+  isAvailable(): boolean {
+    return !this.notConfigured;
   }
 
-  async speak(text: string): Promise<string | null> {
-    if (!this.apiKey || !this.voiceId || this.apiKey === "MY_ELEVENLABS_KEY") {
-      console.warn("ElevenLabs credentials missing. Falling back to native TTS.");
-      return null;
-    }
+  private async request(text: string, lang: string, cache: boolean, signal?: AbortSignal): Promise<Response> {
+    if (!navigator.onLine) throw new Error("Offline");
+    const response = await fetch("/api/tts", {
+      method: "POST",
+      headers: sessionHeaders(),
+      signal,
+      body: JSON.stringify({ text, lang, cache }),
+    });
 
-    try {
-      const response = await fetch(
-        `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "xi-api-key": this.apiKey,
-          },
-          body: JSON.stringify({
-            text,
-            model_id: "eleven_multilingual_v2",
-            voice_settings: {
-              stability: 0.5,
-              similarity_boost: 0.75,
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error("ElevenLabs API Error:", errorData);
-        return null;
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 503) {
+        this.notConfigured = true;
+        console.warn("ElevenLabs not configured on the server. Falling back to native TTS.");
       }
+      throw new Error(errorData.error || `ElevenLabs Error ${response.status}`);
+    }
+    this.voiceId = response.headers.get("X-Voice-Id") || this.voiceId;
+    return response;
+  }
+
+  private cacheKey(text: string, lang: string): string | null {
+    return this.voiceId ? ttsCacheKey(text, this.voiceId, lang) : null;
+  }
+
+  /** Synthesizes a fixed phrase, from the cache when it is there. */
+  async synthesize(text: string, lang: string, signal?: AbortSignal): Promise<Blob> {
+    const key = this.cacheKey(text, lang);
+    const cached = key && this.cache ? await this.cache.get(key) : null;
+    if (cached) return cached;
+
+    const blob = await (await this.request(text, lang, true, signal)).blob();
+    const storeKey = this.cacheKey(text, lang);
+    if (storeKey) await this.cache?.put(storeKey, blob);
+    return blob;
+  }
+
+  async speak({ text, lang, settings, signal, cache }: SpeakRequest): Promise<void> {
+    // ElevenLabs already speaks at a natural pace, so apply the rate relative to the default
+    const rate = settings.rate / DEFAULT_VOICE_SETTINGS.rate;
+    const key = cache ? this.cacheKey(text, lang) : null;
+    const cached = key && this.cache ? await this.cache.get(key) : null;
+    if (cached) return playAudioBlob(cached, signal, rate);
+
+    const response = await this.request(text, lang, cache, signal);
+    const storeKey = cache ? this.cacheKey(text, lang) : null;
+    if (!this.cache || !storeKey || !response.body) {
+      return playAudioStream(response, signal, rate);
+    }
+
+    // Play from one branch while the other fills the cache
+    const [playback, store] = response.body.tee();
+    new Response(store).blob()
+      .then(blob => this.cache?.put(storeKey, blob))
+      .catch(() => {});
+    await playAudioStream(new Response(playback, { headers: response.headers }), signal, rate);
+  }
 
-      const blob = await response.blob();
-      return URL.createObjectURL(blob);
-    } catch (error) {
-      console.error("ElevenLabs Network Error:", error);
-      return null;
+  /** Fetches phrases into the cache ahead of time so they play without a network wait. */
+  async prewarm(texts: string[], lang: string): Promise<void> {
+    if (!this.cache) return;
+    for (const text of texts) {
+      const key = this.cacheKey(text, lang);
+      if (key && await this.cache.has(key)) continue;
+      await this.synthesize(text, lang);
     }
   }
 }
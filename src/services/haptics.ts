@@ -0,0 +1,144 @@
+import type { HazardSeverity } from "./registry";
+import type { GuidanceDirection } from "./sceneAnalysis";
+import type { TurnDirection } from "./navigation";
+
+/** How cues reach the user: tones only, vibration only, or both. Speech is unaffected. */
+export const CUE_MODES = ["audio", "haptic", "both"] as const;
+export type CueMode = typeof CUE_MODES[number];
+
+export type HapticCue = "hazard_low" | "hazard_medium" | "hazard_high" | "turn_left" | "turn_right" | "on_course" | "arrived";
+
+/**
+ * Vibration patterns in the Vibration API's format: alternating on and off
+ * times in ms, starting with on. Hazards are long and get longer with severity;
+ * turns are a short and a long pulse, short first for left and last for right;
+ * "on course" is a single tick, and "arrived" a quick double followed by a long pulse.
+ */
+export const HAPTIC_PATTERNS: Record<HapticCue, number[]> = {
+  hazard_low: [300],
+  hazard_medium: [300, 150, 300],
+  hazard_high: [500, 150, 500, 150, 500],
+  turn_left: [70, 120, 250],
+  turn_right: [250, 120, 70],
+  on_course: [40],
+  arrived: [80, 80, 80, 80, 400]
+};
+
+/** Total length of a pattern in ms. */
+export function patternDuration(pattern: number[]): number {
+  return pattern.reduce((sum, ms) => sum + ms, 0);
+}
+
+export function hazardCue(severity: HazardSeverity): HapticCue {
+  return severity === "high" ? "hazard_high" : severity === "medium" ? "hazard_medium" : "hazard_low";
+}
+
+/** The cue for a vision direction or a route step's turn; null for the start of a route. */
+export function directionCue(direction: GuidanceDirection | TurnDirection): HapticCue | null {
+  switch (direction) {
+    case "start":
+      return null;
+    case "straight":
+      return "on_course";
+    case "arrived":
+      return "arrived";
+    case "left":
+    case "slight_left":
+    case "sharp_left":
+      return "turn_left";
+    default:
+      return "turn_right";
+  }
+}
+
+/** Something that can vibrate. Mirrors navigator.vibrate: an empty pattern stops the current one. */
+export interface HapticDriver {
+  readonly available: boolean;
+  vibrate(pattern: number[]): void;
+}
+
+/** The device's vibration motor, where the browser exposes one (not on iOS Safari). */
+export class VibrationDriver implements HapticDriver {
+  get available(): boolean {
+    return typeof navigator !== "undefined" && typeof navigator.vibrate === "function";
+  }
+
+  vibrate(pattern: number[]) {
+    if (!this.available) return;
+    try {
+      navigator.vibrate(pattern);
+    } catch (error) {
+      console.error("Vibration failed:", error);
+    }
+  }
+}
+
+export interface SimulatedVibration {
+  at: number;
+  pattern: number[];
+}
+
+/** Records what would have vibrated instead, for checks and for devices without a motor. */
+export class SimulatedHapticDriver implements HapticDriver {
+  readonly available = true;
+  readonly played: SimulatedVibration[] = [];
+
+  constructor(private now: () => number = () => Date.now()) {}
+
+  vibrate(pattern: number[]) {
+    this.played.push({ at: this.now(), pattern: [...pattern] });
+  }
+}
+
+// "On course" confirms, it does not nag: at most one tick this often
+const ON_COURSE_INTERVAL_MS = 4000;
+
+/**
+ * Plays haptic cues through a driver. A hazard cuts off whatever is vibrating,
+ * while direction cues are dropped until a hazard pattern has finished, so a
+ * warning is never blurred into a turn.
+ */
+export class HapticPlayer {
+  private hazardUntil = 0;
+  private lastOnCourseAt = -Infinity;
+
+  constructor(
+    private driver: HapticDriver = new VibrationDriver(),
+    private now: () => number = () => Date.now()
+  ) {}
+
+  get available(): boolean {
+    return this.driver.available;
+  }
+
+  /** True if the cue was sent to the driver. */
+  play(cue: HapticCue): boolean {
+    const now = this.now();
+    const pattern = HAPTIC_PATTERNS[cue];
+    if (cue.startsWith("hazard_")) {
+      this.hazardUntil = now + patternDuration(pattern);
+    } else {
+      if (now < this.hazardUntil) return false;
+      if (cue === "on_course") {
+        if (now - this.lastOnCourseAt < ON_COURSE_INTERVAL_MS) return false;
+        this.lastOnCourseAt = now;
+      }
+    }
+    this.driver.vibrate(pattern);
+    return true;
+  }
+
+  hazard(severity: HazardSeverity): boolean {
+    return this.play(hazardCue(severity));
+  }
+
+  direction(direction: GuidanceDirection | TurnDirection): boolean {
+    const cue = directionCue(direction);
+    return cue ? this.play(cue) : false;
+  }
+
+  stop() {
+    this.hazardUntil = 0;
+    this.driver.vibrate([]);
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * On-device hazard pre-filter. Runs on raw RGBA pixels with no network or GPU,
+ * so it works in the browser and under Node, and gives the user an audio cue
+ * before the Gemini round trip comes back.
+ */
+
+export type LocalHazardType = "obstacle" | "stairs" | "drop_off";
+
+export interface LocalHazard {
+  type: LocalHazardType;
+  confidence: number;
+  /** Clock-face bearing (10–2) for obstacles; undefined when straight ahead is implied. */
+  bearing?: number;
+}
+
+/** RGBA pixels, row-major; structurally compatible with the DOM ImageData. */
+export interface FrameData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface HazardDetector {
+  readonly name: string;
+  detect(frame: FrameData): Promise<LocalHazard[]>;
+}
+
+/** How long the same on-device warning stays quiet after it was spoken. */
+export const LOCAL_CUE_REPEAT_MS = 10_000;
+
+/** What repeated on-device warnings are matched on; HazardDeduper ignores the bearing digits. */
+export function localHazardKey(hazard: LocalHazard): string {
+  return hazard.type === "obstacle" ? `obstacle ${hazard.bearing}` : hazard.type.replace("_", " ");
+}
+
+/** Width frames are scaled to before detection; the heuristics are tuned for it. */
+export const DETECTOR_FRAME_WIDTH = 96;
+
+/** Draws a video/image source into a small canvas and returns its pixels (browser only). */
+export function readFrame(source: CanvasImageSource & { videoWidth?: number; videoHeight?: number }, scratch: HTMLCanvasElement): FrameData | null {
+  const sourceWidth = source.videoWidth || (source as HTMLCanvasElement).width;
+  const sourceHeight = source.videoHeight || (source as HTMLCanvasElement).height;
+  if (!sourceWidth || !sourceHeight) return null;
+  scratch.width = DETECTOR_FRAME_WIDTH;
+  scratch.height = Math.max(1, Math.round(DETECTOR_FRAME_WIDTH * sourceHeight / sourceWidth));
+  const ctx = scratch.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, scratch.width, scratch.height);
+  return ctx.getImageData(0, 0, scratch.width, scratch.height);
+}
+
+function toLuminance(frame: FrameData): Float32Array {
+  const lum = new Float32Array(frame.width * frame.height);
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = (0.299 * frame.data[i * 4] + 0.587 * frame.data[i * 4 + 1] + 0.114 * frame.data[i * 4 + 2]) / 255;
+  }
+  return lum;
+}
+
+interface RowEdge {
+  y: number;
+  strength: number;
+  coherence: number;
+}
+
+/**
+ * Horizontal edges across the central columns: mean brightness step between
+ * row y and y+1, and how consistently the columns agree on its sign.
+ */
+function horizontalEdges(lum: Float32Array, width: number, height: number, fromY: number): RowEdge[] {
+  const x0 = Math.floor(width * 0.2);
+  const x1 = Math.ceil(width * 0.8);
+  const edges: RowEdge[] = [];
+  for (let y = fromY; y < height - 1; y++) {
+    let sum = 0;
+    let signed = 0;
+    for (let x = x0; x < x1; x++) {
+      const diff = lum[(y + 1) * width + x] - lum[y * width + x];
+      sum += Math.abs(diff);
+      signed += Math.sign(diff);
+    }
+    const columns = x1 - x0;
+    edges.push({ y, strength: sum / columns, coherence: Math.abs(signed) / columns });
+  }
+  return edges;
+}
+
+/** Local maxima above the thresholds, at least two rows apart. */
+function edgePeaks(edges: RowEdge[], minStrength: number, minCoherence: number): RowEdge[] {
+  const peaks: RowEdge[] = [];
+  edges.forEach((edge, i) => {
+    if (edge.strength < minStrength || edge.coherence < minCoherence) return;
+    if (i > 0 && edges[i - 1].strength > edge.strength) return;
+    if (i < edges.length - 1 && edges[i + 1].strength >= edge.strength) return;
+    const last = peaks[peaks.length - 1];
+    if (last && edge.y - last.y < 2) return;
+    peaks.push(edge);
+  });
+  return peaks;
+}
+
+function detectStairs(edges: RowEdge[]): LocalHazard | null {
+  const peaks = edgePeaks(edges, 0.06, 0.5);
+  if (peaks.length < 3) return null;
+  const gaps = peaks.slice(1).map((p, i) => p.y - peaks[i].y);
+  const mean = gaps.reduce((a, b) => a + b, 0) / gaps.length;
+  const spread = Math.sqrt(gaps.reduce((a, b) => a + (b - mean) ** 2, 0) / gaps.length);
+  // Treads read as evenly spaced bands; a single texture boundary does not
+  if (spread / mean > 0.5) return null;
+  return { type: "stairs", confidence: Math.min(0.9, 0.4 + peaks.length * 0.1) };
+}
+
+function detectDropOff(lum: Float32Array, width: number, height: number, edges: RowEdge[]): LocalHazard | null {
+  const peaks = edgePeaks(edges, 0.2, 0.8);
+  if (peaks.length !== 1) return null;
+  const { y } = peaks[0];
+  const meanRows = (from: number, to: number) => {
+    let sum = 0;
+    let count = 0;
+    for (let row = from; row < to; row++) {
+      for (let x = 0; x < width; x++) sum += lum[row * width + x];
+      count += width;
+    }
+    return count ? sum / count : 0;
+  };
+  const above = meanRows(Math.max(0, y - 6), y + 1);
+  const below = meanRows(y + 1, Math.min(height, y + 7));
+  // The floor ends and the view below it falls away into shadow
+  if (above - below < 0.25) return null;
+  return { type: "drop_off", confidence: Math.min(0.9, 0.5 + (above - below)) };
+}
+
+const OBSTACLE_BEARINGS = [10, 11, 12, 1, 2];
+
+function detectObstacle(frame: FrameData): LocalHazard | null {
+  const { width, height, data } = frame;
+  // The strip right in front of the feet is taken as the floor colour
+  const floorTop = Math.floor(height * 0.9);
+  const floor = [0, 0, 0];
+  let floorCount = 0;
+  for (let y = floorTop; y < height; y++) {
+    for (let x = Math.floor(width * 0.3); x < Math.ceil(width * 0.7); x++) {
+      const i = (y * width + x) * 4;
+      floor[0] += data[i];
+      floor[1] += data[i + 1];
+      floor[2] += data[i + 2];
+      floorCount++;
+    }
+  }
+  if (!floorCount) return null;
+  floor.forEach((v, c) => (floor[c] = v / floorCount));
+
+  const y0 = Math.floor(height * 0.45);
+  const y1 = Math.floor(height * 0.85);
+  const bandWidth = width / OBSTACLE_BEARINGS.length;
+  let best: LocalHazard | null = null;
+  OBSTACLE_BEARINGS.forEach((bearing, band) => {
+    let differing = 0;
+    let count = 0;
+    for (let y = y0; y < y1; y++) {
+      for (let x = Math.floor(band * bandWidth); x < Math.floor((band + 1) * bandWidth); x++) {
+        const i = (y * width + x) * 4;
+        const distance = Math.hypot(data[i] - floor[0], data[i + 1] - floor[1], data[i + 2] - floor[2]) / 441;
+        if (distance > 0.25) differing++;
+        count++;
+      }
+    }
+    const coverage = count ? differing / count : 0;
+    // Outer bands are usually walls, so they need more evidence
+    const required = bearing === 10 || bearing === 2 ? 0.8 : 0.55;
+    if (coverage >= required && (!best || coverage > best.confidence)) {
+      best = { type: "obstacle", confidence: Math.min(0.9, coverage), bearing };
+    }
+  });
+  return best;
+}
+
+/**
+ * Cheap image heuristics: evenly spaced horizontal edges read as stairs, a
+ * single hard edge with darkness beyond it as a drop-off, and a patch that
+ * does not look like the floor in front of the user as an obstacle.
+ */
+export class HeuristicHazardDetector implements HazardDetector {
+  readonly name = "heuristic";
+
+  constructor(private minConfidence: number = 0.5) {}
+
+  async detect(frame: FrameData): Promise<LocalHazard[]> {
+    if (frame.width < 8 || frame.height < 8) return [];
+    const lum = toLuminance(frame);
+    const edges = horizontalEdges(lum, frame.width, frame.height, Math.floor(frame.height * 0.4));
+
+    const hazards: LocalHazard[] = [];
+    const stairs = detectStairs(edges);
+    const dropOff = stairs ? null : detectDropOff(lum, frame.width, frame.height, edges);
+    if (stairs) hazards.push(stairs);
+    if (dropOff) hazards.push(dropOff);
+    // Past a drop-off the "floor" strip is the void below, so skip the colour check
+    const obstacle = dropOff ? null : detectObstacle(frame);
+    if (obstacle) hazards.push(obstacle);
+
+    return hazards
+      .filter(h => h.confidence >= this.minConfidence)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+/**
+ * Replays canned detections in order (the last one repeats), so callers can be
+ * exercised without real camera frames; `npm run check:hazards` uses it.
+ */
+export class FixtureHazardDetector implements HazardDetector {
+  readonly name = "fixture";
+  private index = 0;
+
+  constructor(private fixtures: LocalHazard[][]) {}
+
+  async detect(_frame: FrameData): Promise<LocalHazard[]> {
+    if (this.fixtures.length === 0) return [];
+    const result = this.fixtures[Math.min(this.index, this.fixtures.length - 1)];
+    this.index++;
+    return result;
+  }
+}
@@ -0,0 +1,43 @@
+import type { HazardCategory, HazardSeverity, SpatialNode } from "./registry";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** How long a hazard of each category stays active when the pin does not say otherwise. null = until removed. */
+export const HAZARD_TTL_MS: Record<HazardCategory, number | null> = {
+  wet_floor: 4 * HOUR_MS,
+  obstacle: 24 * HOUR_MS,
+  door: 24 * HOUR_MS,
+  construction: 14 * 24 * HOUR_MS,
+  stairs: null,
+  drop_off: null,
+  other: 24 * HOUR_MS
+};
+
+const CATEGORY_KEYWORDS: [HazardCategory, string[]][] = [
+  ["wet_floor", ["wet", "slippery", "spill", "puddle", "mopped"]],
+  ["construction", ["construction", "scaffold", "renovation", "roadwork", "barrier", "cone"]],
+  ["drop_off", ["drop", "edge", "ledge", "platform", "curb", "hole"]],
+  ["stairs", ["stair", "step", "escalator"]],
+  ["door", ["door", "gate"]],
+  ["obstacle", ["obstacle", "box", "chair", "cart", "bag", "pole", "blocking", "in your path", "trip"]]
+];
+
+const HIGH_SEVERITY: HazardCategory[] = ["drop_off", "stairs", "construction"];
+
+/** Best-effort category and severity for a free-text hazard warning from the vision model. */
+export function classifyHazard(text: string): { category: HazardCategory; severity: HazardSeverity } {
+  const lower = text.toLowerCase();
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some(k => lower.includes(k)));
+  const category = match ? match[0] : "other";
+  const severity: HazardSeverity = HIGH_SEVERITY.includes(category) ? "high" : category === "other" ? "low" : "medium";
+  return { category, severity };
+}
+
+export function defaultHazardExpiry(category: HazardCategory, createdAt: Date): string | null {
+  const ttl = HAZARD_TTL_MS[category];
+  return ttl === null ? null : new Date(createdAt.getTime() + ttl).toISOString();
+}
+
+export function isNodeActive(node: Pick<SpatialNode, "expiresAt">, now: Date = new Date()): boolean {
+  return !node.expiresAt || new Date(node.expiresAt).getTime() > now.getTime();
+}
@@ -0,0 +1,80 @@
+import en from "../locales/en.json";
+import es from "../locales/es.json";
+import fr from "../locales/fr.json";
+import de from "../locales/de.json";
+import zh from "../locales/zh.json";
+import ja from "../locales/ja.json";
+import hi from "../locales/hi.json";
+import pt from "../locales/pt.json";
+import it from "../locales/it.json";
+
+export type Locale = "en" | "es" | "fr" | "de" | "zh" | "ja" | "hi" | "pt" | "it";
+
+export interface Language {
+  locale: Locale;
+  /** English name; used in voice commands and sent to the vision prompt. */
+  name: string;
+  /** Name in the language itself, shown in the language picker. */
+  nativeName: string;
+  /** BCP-47 tag for speech recognition and synthesis. */
+  speechTag: string;
+}
+
+export const LANGUAGES: Language[] = [
+  { locale: "en", name: "English", nativeName: "English", speechTag: "en-US" },
+  { locale: "es", name: "Spanish", nativeName: "Español", speechTag: "es-ES" },
+  { locale: "fr", name: "French", nativeName: "Français", speechTag: "fr-FR" },
+  { locale: "de", name: "German", nativeName: "Deutsch", speechTag: "de-DE" },
+  { locale: "zh", name: "Chinese", nativeName: "中文", speechTag: "zh-CN" },
+  { locale: "ja", name: "Japanese", nativeName: "日本語", speechTag: "ja-JP" },
+  { locale: "hi", name: "Hindi", nativeName: "हिन्दी", speechTag: "hi-IN" },
+  { locale: "pt", name: "Portuguese", nativeName: "Português", speechTag: "pt-BR" },
+  { locale: "it", name: "Italian", nativeName: "Italiano", speechTag: "it-IT" }
+];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** English is the source catalog; every other locale must define the same keys. */
+export type MessageKey = keyof typeof en;
+
+/** A message that varies with `{count}`, keyed by Intl.PluralRules category. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+// Typed against the English keys, so a locale file missing a key fails `npm run lint`
+export const CATALOGS: Record<Locale, Record<MessageKey, Message>> = { en, es, fr, de, zh, ja, hi, pt, it };
+
+export function getLanguage(locale: Locale): Language {
+  return LANGUAGES.find(l => l.locale === locale) || LANGUAGES[0];
+}
+
+/** Matches a spoken or typed language name in either English or the language itself. */
+export function findLanguage(name: string): Language | undefined {
+  const lower = name.trim().toLowerCase();
+  return LANGUAGES.find(l => l.name.toLowerCase() === lower || l.nativeName.toLowerCase() === lower);
+}
+
+function selectForm(locale: Locale, message: Message, count: number | undefined): string {
+  if (typeof message === "string") return message;
+  const category = new Intl.PluralRules(locale).select(count ?? 0);
+  return message[category] ?? message.other;
+}
+
+/**
+ * Looks up `key` for `locale` and fills `{name}` placeholders from `params`.
+ * Plural messages pick their form from `params.count`. Numbers are formatted
+ * for the locale; unknown placeholders are left as written.
+ */
+export function t(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGS[locale]?.[key] ?? CATALOGS[DEFAULT_LOCALE][key];
+  const count = typeof params.count === "number" ? params.count : undefined;
+  const numberFormat = new Intl.NumberFormat(locale);
+  return selectForm(locale, message, count).replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === "number" ? numberFormat.format(value) : value;
+  });
+}
@@ -0,0 +1,317 @@
+import { DEFAULT_LOCALE, LANGUAGES, Locale } from "./i18n";
+import en from "../grammars/en";
+import es from "../grammars/es";
+import fr from "../grammars/fr";
+import de from "../grammars/de";
+import zh from "../grammars/zh";
+import ja from "../grammars/ja";
+import hi from "../grammars/hi";
+import pt from "../grammars/pt";
+import it from "../grammars/it";
+
+export type Intent =
+  | { type: "switch_language"; locale: Locale }
+  | { type: "pin"; label: string | null }
+  | { type: "navigate"; target: string }
+  | { type: "cancel_navigation" }
+  | { type: "repeat" }
+  | { type: "describe"; language: Locale | null }
+  | { type: "read_text"; language: Locale | null }
+  | { type: "where_am_i" }
+  | { type: "confirm" }
+  | { type: "decline" }
+  /** Anything else goes to the vision model as a free-form question. */
+  | { type: "question"; text: string; language: Locale | null };
+
+export type CommandType = Exclude<Intent["type"], "question">;
+
+export interface IntentMatch {
+  intent: Intent;
+  /** 0..1; commands below MIN_CONFIDENCE are returned as questions instead. */
+  confidence: number;
+  /** Grammar that produced the match; English is tried after the user's language. */
+  locale: Locale;
+}
+
+/**
+ * Phrases for one language. Templates match the whole utterance, case and
+ * accent insensitive, after punctuation is removed:
+ *   "(a|b)"  one of the alternatives
+ *   "[a|b]"  optional; a following space is optional with it
+ *   "{name}" free text captured as a slot (target, label or language)
+ * Templates for languages written without spaces simply leave them out.
+ */
+export interface IntentGrammar {
+  /** Wake phrases that start a hands-free command ("hey buddy"). */
+  wake: string[];
+  /** Politeness and wake words allowed before any command ("please", "hey buddy"). */
+  prefixes: string[];
+  suffixes: string[];
+  commands: Record<CommandType, string[]>;
+  /** "…and translate it to {language}", tried at the end of questions and descriptions. */
+  translate: string[];
+  /** Place names that mean "take me there" when said on their own. */
+  places: string[];
+  /** Names for languages as spoken in this language, on top of the English and native names. */
+  languageNames: Partial<Record<Locale, string[]>>;
+}
+
+export const GRAMMARS: Record<Locale, IntentGrammar> = { en, es, fr, de, zh, ja, hi, pt, it };
+
+export const MIN_CONFIDENCE = 0.6;
+
+const EXACT_CONFIDENCE = 0.95;
+const WRAPPED_CONFIDENCE = 0.9;
+const PLACE_CONFIDENCE = 0.75;
+/** Commands recognised by the English grammar while another language is selected. */
+const FALLBACK_FACTOR = 0.9;
+/** Slots longer than this many words lose confidence ("find out if it is safe to cross" is a question). */
+const SLOT_SOFT_LIMIT: Record<string, number> = { target: 3, label: 6 };
+const SLOT_WORD_PENALTY = 0.1;
+
+// Base letter of each character, keeping the string length so slot offsets still line up
+function fold(text: string): string {
+  return Array.from(text, ch => [...ch.normalize("NFD")][0]).join("");
+}
+
+/** Punctuation becomes a space (apostrophes stay, "where's"); whitespace is collapsed. */
+export function normalizeUtterance(text: string): string {
+  return text
+    .replace(/[’‘`]/g, "'")
+    .replace(/[^\p{L}\p{N}\p{M}'\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// A slot starts after a space, an apostrophe ("l'uscita") or a character from a script written without spaces
+const SLOT_START = "(?: |(?<=^|[\\s']|[\\p{sc=Han}\\p{sc=Hiragana}\\p{sc=Katakana}]))";
+
+function compileTemplate(template: string): string {
+  // Optional words take the space on their left with them, except at the very start
+  return fold(template)
+    .replace(/[.*+?^$\\]/g, "\\$&")
+    .replace(/\(/g, "(?:")
+    .replace(/^\[([^\]]+)\] /, "(?:(?:$1) )?")
+    .replace(/ \[([^\]]+)\]/g, "(?: (?:$1))?")
+    .replace(/\[([^\]]+)\] /g, "(?:(?:$1) )?")
+    .replace(/\[([^\]]+)\]/g, "(?:$1)?")
+    .replace(/\{(\w+)\}/g, `${SLOT_START}(?<$1>.+?)`);
+}
+
+function alternation(templates: string[]): string {
+  return templates.map(compileTemplate).join("|");
+}
+
+interface CompiledTemplate {
+  exact: RegExp;
+  wrapped: RegExp;
+}
+
+interface CompiledGrammar {
+  commands: [CommandType, CompiledTemplate[]][];
+  places: CompiledTemplate;
+  translate: RegExp[];
+  wake: RegExp[];
+  languages: Map<string, Locale>;
+}
+
+const compiled = new Map<Locale, CompiledGrammar>();
+
+function compileGrammar(locale: Locale): CompiledGrammar {
+  const cached = compiled.get(locale);
+  if (cached) return cached;
+
+  const grammar = GRAMMARS[locale];
+  const prefix = `(?:(?:${alternation(grammar.prefixes)}) ?)*`;
+  const suffix = `(?: ?(?:${alternation(grammar.suffixes)}))*`;
+  const build = (body: string): CompiledTemplate => ({
+    exact: new RegExp(`^(?:${body})$`, "iud"),
+    wrapped: new RegExp(`^${prefix}(?:${body})${suffix}$`, "iud")
+  });
+
+  const languages = new Map<string, Locale>();
+  for (const language of LANGUAGES) {
+    const names = [language.name, language.nativeName, ...(grammar.languageNames[language.locale] || [])];
+    for (const name of names) languages.set(fold(name).toLowerCase(), language.locale);
+  }
+
+  const result: CompiledGrammar = {
+    commands: (Object.keys(grammar.commands) as CommandType[])
+      .map(type => [type, grammar.commands[type].map(t => build(compileTemplate(t)))]),
+    places: build(`(?<target>${alternation(grammar.places)})`),
+    translate: grammar.translate.map(t => new RegExp(`^(?:(?<rest>.+?) ?)?(?:${compileTemplate(t)})${suffix}$`, "iud")),
+    wake: grammar.wake.map(t => new RegExp(`^(?:${compileTemplate(t)})(?:${SLOT_START}(?<rest>.+))?$`, "iud")),
+    languages
+  };
+  compiled.set(locale, result);
+  return result;
+}
+
+function wordCount(text: string, locale: Locale): number {
+  const segments = new Intl.Segmenter(locale, { granularity: "word" }).segment(text);
+  return [...segments].filter(s => s.isWordLike).length;
+}
+
+type Slots = Record<string, string>;
+
+interface TemplateMatch {
+  slots: Slots;
+  /** Characters captured by slots; on equal confidence the template that spelled out more of the utterance wins. */
+  slotLength: number;
+  confidence: number;
+}
+
+/**
+ * Matches the template as spoken and wrapped in politeness words, and keeps the
+ * tighter slots: in "how do i get to the library please" the exact template's
+ * {target} would swallow "please", while the wrapped one leaves it to the suffix.
+ * An utterance that matched as spoken keeps the exact confidence.
+ */
+function matchTemplate(template: CompiledTemplate, text: string, folded: string): TemplateMatch | null {
+  let best: TemplateMatch | null = null;
+  for (const [regex, confidence] of [[template.exact, EXACT_CONFIDENCE], [template.wrapped, WRAPPED_CONFIDENCE]] as const) {
+    const match = regex.exec(folded);
+    if (!match) continue;
+    const slots: Slots = {};
+    let slotLength = 0;
+    for (const [name, range] of Object.entries(match.indices?.groups || {})) {
+      if (!range) continue;
+      slots[name] = text.slice(range[0], range[1]).trim();
+      slotLength += slots[name].length;
+    }
+    if (!best) best = { slots, slotLength, confidence };
+    else if (slotLength < best.slotLength) best = { ...best, slots, slotLength };
+  }
+  return best;
+}
+
+function buildIntent(type: CommandType, slots: Slots, languages: Map<string, Locale>): Intent | null {
+  switch (type) {
+    case "switch_language": {
+      const locale = languages.get(fold(slots.language || "").toLowerCase());
+      return locale ? { type, locale } : null;
+    }
+    case "pin":
+      return { type, label: slots.label || null };
+    case "navigate":
+      return slots.target ? { type, target: slots.target } : null;
+    case "describe":
+    case "read_text":
+      return { type, language: null };
+    default:
+      return { type };
+  }
+}
+
+function slotPenalty(slots: Slots, locale: Locale): number {
+  let penalty = 0;
+  for (const [name, value] of Object.entries(slots)) {
+    const limit = SLOT_SOFT_LIMIT[name];
+    if (limit !== undefined) penalty += SLOT_WORD_PENALTY * Math.max(0, wordCount(value, locale) - limit);
+  }
+  return penalty;
+}
+
+function matchCommands(text: string, locale: Locale, only?: CommandType[]): IntentMatch | null {
+  const grammar = compileGrammar(locale);
+  const folded = fold(text);
+  let best: IntentMatch | null = null;
+  let bestSlotLength = Infinity;
+
+  for (const [type, templates] of grammar.commands) {
+    if (only && !only.includes(type)) continue;
+    for (const template of templates) {
+      const match = matchTemplate(template, text, folded);
+      if (!match) continue;
+      const intent = buildIntent(type, match.slots, grammar.languages);
+      const confidence = match.confidence - slotPenalty(match.slots, locale);
+      const better = !best || confidence > best.confidence || (confidence === best.confidence && match.slotLength < bestSlotLength);
+      if (intent && better) {
+        best = { intent, confidence, locale };
+        bestSlotLength = match.slotLength;
+      }
+    }
+  }
+
+  if (!only || only.includes("navigate")) {
+    const place = matchTemplate(grammar.places, text, folded);
+    const confidence = place ? place.confidence - (EXACT_CONFIDENCE - PLACE_CONFIDENCE) : 0;
+    if (place && (!best || confidence > best.confidence)) {
+      best = { intent: { type: "navigate", target: place.slots.target }, confidence, locale };
+    }
+  }
+  return best;
+}
+
+/** Best command match in the user's language, then in English at slightly lower confidence. */
+function matchAnyGrammar(text: string, locale: Locale, only?: CommandType[]): IntentMatch | null {
+  const native = matchCommands(text, locale, only);
+  if (locale === DEFAULT_LOCALE) return native;
+  const fallback = matchCommands(text, DEFAULT_LOCALE, only);
+  if (fallback) fallback.confidence *= FALLBACK_FACTOR;
+  if (!native) return fallback;
+  return fallback && fallback.confidence > native.confidence ? fallback : native;
+}
+
+/** Splits "read this and translate it to French" into "read this" and French. */
+function splitTranslation(text: string, locale: Locale): { rest: string; language: Locale } | null {
+  for (const grammarLocale of locale === DEFAULT_LOCALE ? [locale] : [locale, DEFAULT_LOCALE]) {
+    const grammar = compileGrammar(grammarLocale);
+    for (const regex of grammar.translate) {
+      const match = regex.exec(fold(text));
+      const range = match?.indices?.groups?.language;
+      if (!match || !range) continue;
+      const language = grammar.languages.get(fold(text.slice(range[0], range[1])).toLowerCase());
+      if (!language) continue;
+      const restRange = match.indices.groups.rest;
+      return { rest: restRange ? text.slice(restRange[0], restRange[1]).trim() : "", language };
+    }
+  }
+  return null;
+}
+
+/**
+ * Works out what a spoken utterance asks for. Commands must match a grammar
+ * template as a whole, so "is it safe to save my seat here?" stays a question
+ * for the vision model rather than pinning a location.
+ */
+export function parseIntent(utterance: string, locale: Locale): IntentMatch {
+  const text = normalizeUtterance(utterance);
+  const command = text ? matchAnyGrammar(text, locale) : null;
+  if (command && command.confidence >= MIN_CONFIDENCE) return command;
+
+  // "…in Spanish" only changes the answer language of a scene request
+  const translation = text ? splitTranslation(text, locale) : null;
+  if (translation) {
+    const scene = translation.rest
+      ? matchAnyGrammar(translation.rest, locale, ["describe", "read_text"])
+      : { intent: { type: "read_text", language: null }, confidence: WRAPPED_CONFIDENCE, locale } as IntentMatch;
+    if (scene && scene.confidence >= MIN_CONFIDENCE && (scene.intent.type === "describe" || scene.intent.type === "read_text")) {
+      return { ...scene, intent: { ...scene.intent, language: translation.language } };
+    }
+  }
+
+  return {
+    intent: { type: "question", text: utterance.trim(), language: translation?.language || null },
+    confidence: command ? 1 - command.confidence : 1,
+    locale
+  };
+}
+
+/**
+ * Checks a hands-free transcript for a wake phrase, in the user's language or
+ * English. Returns what was said after it ("" for the phrase alone), or null
+ * when the transcript does not start with one.
+ */
+export function matchWakePhrase(utterance: string, locale: Locale): string | null {
+  const text = normalizeUtterance(utterance);
+  for (const grammarLocale of locale === DEFAULT_LOCALE ? [locale] : [locale, DEFAULT_LOCALE]) {
+    for (const regex of compileGrammar(grammarLocale).wake) {
+      const match = regex.exec(fold(text));
+      if (!match) continue;
+      const range = match.indices?.groups?.rest;
+      return range ? text.slice(range[0], range[1]).trim() : "";
+    }
+  }
+  return null;
+}
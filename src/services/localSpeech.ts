@@ -0,0 +1,33 @@
+import { playAudioBlob } from "./audioPlayback";
+import { sessionHeaders } from "./session";
+import type { SpeakRequest, SpeechEngine } from "./speechManager";
+
+/**
+ * Local Speech Client
+ * Wraps POST /api/tts/local, a command-line synthesizer (espeak-ng by default) on
+ * our own server. Last in the chain: robotic, but needs no vendor and no browser voices.
+ */
+export class LocalServerSpeechService implements SpeechEngine {
+  readonly name = "local";
+  readonly remote = true;
+  private notConfigured = false;
+
+  isAvailable(): boolean {
+    return !this.notConfigured;
+  }
+
+  async speak({ text, lang, settings, signal }: SpeakRequest): Promise<void> {
+    const response = await fetch("/api/tts/local", {
+      method: "POST",
+      headers: sessionHeaders(),
+      signal,
+      body: JSON.stringify({ text, lang, rate: settings.rate, pitch: settings.pitch })
+    });
+    if (!response.ok) {
+      if (response.status === 503) this.notConfigured = true;
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Local TTS Error ${response.status}`);
+    }
+    await playAudioBlob(await response.blob(), signal);
+  }
+}
@@ -0,0 +1,75 @@
+import { sessionHeaders } from "./session";
+import { RegistryHttpError, type SpatialNode } from "./registry";
+import type { NodeSnapshot } from "./snapshots";
+
+export const REVIEW_VERDICTS = ["confirm", "dispute"] as const;
+export type ReviewVerdict = typeof REVIEW_VERDICTS[number];
+
+/** One user's confirmation or dispute of a pinned node. */
+export interface NodeReview {
+  id: string;
+  buildingId: string;
+  nodeId: string;
+  userId: string;
+  verdict: ReviewVerdict;
+  /** The reviewer's reputation when they reviewed, 0.25..2. */
+  weight: number;
+  note: string | null;
+  /** ISO 8601 timestamp assigned by the server. */
+  createdAt: string;
+}
+
+/** A node with its review history, as the moderation routes return it. */
+export interface ModeratedNode {
+  node: SpatialNode;
+  /** Weighted confirmations minus weighted disputes. */
+  score: number;
+  /** Distinct users who confirmed with enough reputation to count. */
+  confirmations: number;
+  /** Confirmations a pending node needs before it is verified. */
+  confirmationsNeeded: number;
+  /** Oldest first. */
+  reviews: NodeReview[];
+  /** What the pinning device saw, so reviewers can check the pin; null when it was saved without one. */
+  snapshot: NodeSnapshot | null;
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new RegistryHttpError(data.error || `Moderation Error ${response.status}`, response.status);
+  }
+  return data as T;
+}
+
+/**
+ * Moderation Client
+ * Wraps the review routes under /api/buildings/:id. Reviewing needs a device
+ * account (see AccountService); reading the queue and history does not.
+ */
+export class ModerationService {
+  private buildingUrl(buildingId: string): string {
+    return `/api/buildings/${encodeURIComponent(buildingId)}`;
+  }
+
+  /** Pending and stale nodes, oldest first. */
+  async listQueue(buildingId: string): Promise<ModeratedNode[]> {
+    return readJson<ModeratedNode[]>(await fetch(`${this.buildingUrl(buildingId)}/review-queue`));
+  }
+
+  async getHistory(buildingId: string, nodeId: string): Promise<ModeratedNode> {
+    return readJson<ModeratedNode>(
+      await fetch(`${this.buildingUrl(buildingId)}/nodes/${encodeURIComponent(nodeId)}/reviews`)
+    );
+  }
+
+  /** Records this device's verdict, replacing any earlier one, and returns the node's new state. */
+  async review(buildingId: string, nodeId: string, verdict: ReviewVerdict, note?: string): Promise<ModeratedNode> {
+    const response = await fetch(`${this.buildingUrl(buildingId)}/nodes/${encodeURIComponent(nodeId)}/reviews`, {
+      method: "POST",
+      headers: sessionHeaders(),
+      body: JSON.stringify({ verdict, note: note || undefined })
+    });
+    return readJson<ModeratedNode>(response);
+  }
+}
@@ -1,27 +1,58 @@
-export class NativeSpeechService {
-  private synth: SpeechSynthesis;
+import type { SpeakRequest, SpeechEngine } from "./speechManager";
 
-  constructor() {
-    this.synth = window.speechSynthesis;
+/** Browser speechSynthesis. Works offline, so it is also the voice for instant cues. */
+export class NativeSpeechService implements SpeechEngine {
+  readonly name = "native";
+  readonly remote = false;
+
+  isAvailable(): boolean {
+    return typeof window !== "undefined" && "speechSynthesis" in window;
+  }
+
+  /** Installed voices for a language, best-sounding first. */
+  voicesFor(lang: string): SpeechSynthesisVoice[] {
+    const primary = lang.split("-")[0].toLowerCase();
+    const quality = (voice: SpeechSynthesisVoice) => (voice.name.includes("Google") || voice.name.includes("Natural") ? 0 : 1);
+    return window.speechSynthesis.getVoices()
+      .filter(v => v.lang.toLowerCase().startsWith(primary))
+      .sort((a, b) => Number(b.lang === lang) - Number(a.lang === lang) || quality(a) - quality(b));
   }
 
-  speak(text: string): void {
-    // Cancel any ongoing speech
-    this.synth.cancel();
+  speak({ text, lang, settings, signal }: SpeakRequest): Promise<void> {
+    const synth = window.speechSynthesis;
+    return new Promise((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.rate = settings.rate;
+      utterance.pitch = settings.pitch;
+      const voices = this.voicesFor(lang);
+      const voice = voices.find(v => v.name === settings.voiceName) || voices[0];
+      if (voice) utterance.voice = voice;
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 0.9; // Slightly slower for better clarity
-    utterance.pitch = 1.0;
-    
-    // Try to find a high-quality natural voice if available
-    const voices = this.synth.getVoices();
-    const preferredVoice = voices.find(v => v.name.includes('Google') || v.name.includes('Natural')) || voices[0];
-    if (preferredVoice) utterance.voice = preferredVoice;
+      const onAbort = () => {
+        synth.cancel();
+        reject(new DOMException("Speech interrupted", "AbortError"));
+      };
+      if (signal.aborted) return onAbort();
+      signal.addEventListener("abort", onAbort, { once: true });
 
-    this.synth.speak(utterance);
+      utterance.onend = () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      utterance.onerror = event => {
+        signal.removeEventListener("abort", onAbort);
+        if (event.error === "interrupted" || event.error === "canceled") {
+          reject(new DOMException("Speech interrupted", "AbortError"));
+        } else {
+          reject(new Error(`speechSynthesis error: ${event.error}`));
+        }
+      };
+      synth.speak(utterance);
+    });
   }
 
   stop(): void {
-    this.synth.cancel();
+    window.speechSynthesis.cancel();
   }
 }
@@ -0,0 +1,117 @@
+import { t, type Locale, type MessageKey } from "./i18n";
+import { floorName, type Building } from "./buildings";
+
+/** A walkable connection between two registry nodes. */
+export interface SpatialEdge {
+  id: string;
+  buildingId: string;
+  fromNodeId: string;
+  toNodeId: string;
+  distanceMeters: number;
+  /** One-way edges (e.g. a down escalator) only connect from -> to. */
+  bidirectional: boolean;
+  hasStairs: boolean;
+  hasRamp: boolean;
+  hasElevator: boolean;
+  wheelchairAccessible: boolean;
+  tactilePaving: boolean;
+}
+
+export type NewSpatialEdge = Omit<SpatialEdge, "id">;
+
+export type TurnDirection = "start" | "straight" | "slight_left" | "left" | "sharp_left" | "slight_right" | "right" | "sharp_right";
+
+export interface RouteStep {
+  fromNodeId: string;
+  toNodeId: string;
+  /** Description of the node this step ends at. */
+  toDescription: string;
+  /** Floor level of the node this step ends at. */
+  toFloor: number;
+  /** Floor-plan position of the node this step ends at. */
+  toCoordinates: { x: number; y: number };
+  distanceMeters: number;
+  turn: TurnDirection;
+  via: "walk" | "stairs" | "ramp" | "elevator";
+}
+
+export interface RoutePlan {
+  fromNodeId: string;
+  toNodeId: string;
+  /** Where the route starts, so progress can be measured along it. */
+  fromCoordinates: { x: number; y: number };
+  fromFloor: number;
+  totalDistanceMeters: number;
+  steps: RouteStep[];
+}
+
+export interface RouteOptions {
+  avoidStairs?: boolean;
+}
+
+const TURN_MESSAGES: Record<Exclude<TurnDirection, "start">, MessageKey> = {
+  straight: "route.turn.straight",
+  slight_left: "route.turn.slight_left",
+  left: "route.turn.left",
+  sharp_left: "route.turn.sharp_left",
+  slight_right: "route.turn.slight_right",
+  right: "route.turn.right",
+  sharp_right: "route.turn.sharp_right"
+};
+
+const SAME_FLOOR_MESSAGES: Record<RouteStep["via"], MessageKey> = {
+  walk: "route.walk",
+  ramp: "route.ramp",
+  stairs: "route.stairs",
+  elevator: "route.elevator"
+};
+
+const FLOOR_CHANGE_MESSAGES: Record<RouteStep["via"], MessageKey> = {
+  walk: "route.floor_walk",
+  ramp: "route.floor_ramp",
+  stairs: "route.floor_stairs",
+  elevator: "route.floor_elevator"
+};
+
+/**
+ * The spoken instruction for `plan.steps[index]` in `locale`: the turn, then
+ * the walk or floor change, then a note on the last step that it ends at the
+ * destination. Floors are named from `building` where it names them.
+ */
+export function describeRouteStep(plan: RoutePlan, index: number, locale: Locale, building?: Building): string {
+  const step = plan.steps[index];
+  const fromFloor = index === 0 ? plan.fromFloor : plan.steps[index - 1].toFloor;
+  const place = step.toDescription;
+  const action = step.toFloor !== fromFloor
+    ? t(locale, FLOOR_CHANGE_MESSAGES[step.via], { floor: floorName(building, step.toFloor, locale), place })
+    : t(locale, SAME_FLOOR_MESSAGES[step.via], { count: Math.max(1, Math.round(step.distanceMeters)), place });
+  return [
+    step.turn === "start" ? null : t(locale, TURN_MESSAGES[step.turn]),
+    action,
+    index === plan.steps.length - 1 ? t(locale, "route.destination") : null
+  ].filter(Boolean).join(" ");
+}
+
+/**
+ * Navigation Client
+ * Wraps the route planning endpoint in server.ts.
+ */
+export class NavigationService {
+  async planRoute(buildingId: string, fromNodeId: string, toNodeId: string, options: RouteOptions = {}): Promise<RoutePlan | null> {
+    const params = new URLSearchParams({ from: fromNodeId, to: toNodeId });
+    if (options.avoidStairs) params.set("avoidStairs", "true");
+
+    try {
+      const response = await fetch(`/api/buildings/${encodeURIComponent(buildingId)}/route?${params}`);
+      if (response.status === 404) return null;
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Route Error ${response.status}`);
+      }
+      return data;
+    } catch (error) {
+      console.error("Route Planning Error:", error);
+      return null;
+    }
+  }
+}
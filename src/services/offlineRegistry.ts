@@ -0,0 +1,253 @@
+import { isNodeActive } from "./hazards";
+import { IndexedDbRegistryCache, PendingPin } from "./registryCache";
+import { NewSpatialNode, RegistryHttpError, RegistryService, ScoredNode, SearchResponse, SpatialNode, SpatialRegistry, confidentMatches } from "./registry";
+
+/** checking: nothing loaded yet. offline: the registry did not answer and cached places are shown. */
+export type SyncState = "checking" | "online" | "offline" | "syncing";
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Pins saved on this device that the registry does not have yet. */
+  pending: number;
+  /** ISO 8601 time the queue was last emptied. */
+  lastSyncedAt: string | null;
+}
+
+export interface SyncResult {
+  uploaded: number;
+  /** Queued pins dropped because the registry already had the same place. */
+  duplicates: number;
+  /** Queued pins the registry refused for good, e.g. for a floor that no longer exists. */
+  rejected: PendingPin[];
+}
+
+export interface PinResult {
+  id: string;
+  /** True when the pin was kept on the device to upload later. */
+  queued: boolean;
+}
+
+const RETRY_INTERVAL_MS = 30_000;
+// Same thresholds as the server search, applied to the cruder offline score
+const OFFLINE_MATCH_THRESHOLD = 0.6;
+const OFFLINE_SUGGEST_THRESHOLD = 0.3;
+
+function generateClientNodeId(): string {
+  return `node_${crypto.randomUUID().replace(/-/g, "").slice(0, 16)}`;
+}
+
+// 4xx answers will not change on retry; timeouts and rate limits might
+function isPermanentRejection(error: unknown): boolean {
+  return error instanceof RegistryHttpError && error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429;
+}
+
+function normalizeDescription(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function isSamePlace(node: SpatialNode, pin: NewSpatialNode): boolean {
+  return node.floor === pin.floor && node.kind === pin.kind && normalizeDescription(node.description) === normalizeDescription(pin.description);
+}
+
+function pendingToNode(pin: PendingPin): SpatialNode {
+  // The snapshot is uploaded with the pin but is not part of the node
+  const { snapshot, ...node } = pin.node;
+  return { ...node, id: pin.id, createdAt: pin.createdAt, expiresAt: node.expiresAt ?? null, status: "pending", createdBy: null };
+}
+
+/** Word overlap only; good enough to find a saved place by name while the search API is out of reach. */
+function searchOffline(query: string, nodes: SpatialNode[]): SearchResponse {
+  const target = normalizeDescription(query);
+  const words = target.split(" ").filter(Boolean);
+  const significant = words.filter(word => word.length > 3);
+  const queryWords = significant.length > 0 ? significant : words;
+
+  const results: ScoredNode[] = nodes
+    .filter(node => isNodeActive(node))
+    .map(node => {
+      const description = normalizeDescription(node.description);
+      const hits = queryWords.filter(word => description.includes(word)).length;
+      const score = target && description.includes(target) ? 1 : hits / Math.max(1, queryWords.length);
+      return { node, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5);
+
+  const best = results[0]?.score ?? 0;
+  const confidence = best >= OFFLINE_MATCH_THRESHOLD ? "match" : best >= OFFLINE_SUGGEST_THRESHOLD ? "suggest" : "none";
+  return { query, target, confidence, matchThreshold: OFFLINE_MATCH_THRESHOLD, results };
+}
+
+/**
+ * Registry client that keeps working without a connection. Golden paths are cached
+ * per building and served from the cache when the registry does not answer; pins
+ * made meanwhile are queued on the device and uploaded in order once it is back.
+ * Queued pins carry their own id, so an upload whose response was lost is not
+ * stored twice, and a pin the registry already has under another id is dropped.
+ */
+export class OfflineRegistry implements SpatialRegistry {
+  private status: SyncStatus = { state: "checking", pending: 0, lastSyncedAt: null };
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private syncing: Promise<SyncResult> | null = null;
+  private onSynced: ((result: SyncResult) => void) | null = null;
+
+  constructor(
+    private remote: RegistryService = new RegistryService(),
+    private cache: IndexedDbRegistryCache = new IndexedDbRegistryCache()
+  ) {}
+
+  /**
+   * Loads the queue and retries it whenever the browser reports a connection, and
+   * every 30 seconds while anything is waiting. Returns a function that stops this.
+   */
+  start(onSynced: (result: SyncResult) => void): () => void {
+    this.onSynced = onSynced;
+    this.cache.listPending().then(pins => {
+      this.setStatus({ pending: pins.length });
+      if (pins.length > 0) this.syncInBackground();
+    });
+    const onOnline = () => this.syncInBackground();
+    const timer = setInterval(() => {
+      if (this.status.pending > 0) this.syncInBackground();
+    }, RETRY_INTERVAL_MS);
+    window.addEventListener("online", onOnline);
+    return () => {
+      this.onSynced = null;
+      clearInterval(timer);
+      window.removeEventListener("online", onOnline);
+    };
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => this.listeners.delete(listener);
+  }
+
+  async searchRegistry(query: string, buildingId: string): Promise<SpatialNode[]> {
+    return confidentMatches(await this.search(query, buildingId));
+  }
+
+  /** Server search when reachable, otherwise a word match over the cached places. */
+  async search(query: string, buildingId: string): Promise<SearchResponse> {
+    try {
+      return await this.remote.search(query, buildingId);
+    } catch (error) {
+      console.warn("Registry search unavailable, searching cached places:", error);
+      return searchOffline(query, await this.cachedNodes(buildingId));
+    }
+  }
+
+  /** Includes queued pins. Throws only when the registry is unreachable and nothing was ever cached. */
+  async fetchGoldenPath(buildingId: string): Promise<SpatialNode[]> {
+    try {
+      const nodes = await this.remote.fetchGoldenPath(buildingId);
+      await this.cache.putNodes(buildingId, nodes);
+      if (this.status.state !== "syncing") this.setStatus({ state: "online" });
+      if (this.status.pending > 0) this.syncInBackground();
+      return [...(await this.pendingNodes(buildingId)), ...nodes];
+    } catch (error) {
+      if (isPermanentRejection(error)) throw error;
+      this.setStatus({ state: "offline" });
+      const cached = await this.cache.getNodes(buildingId);
+      const pending = await this.pendingNodes(buildingId);
+      if (!cached && pending.length === 0) throw error;
+      return [...pending, ...(cached || [])];
+    }
+  }
+
+  async saveNewPath(node: NewSpatialNode): Promise<string> {
+    return (await this.pin(node)).id;
+  }
+
+  /** Saves to the registry, or queues the pin when the registry cannot be reached. Validation errors still throw. */
+  async pin(node: NewSpatialNode): Promise<PinResult> {
+    const withId = { ...node, id: node.id || generateClientNodeId() };
+    try {
+      const id = await this.remote.saveNewPath(withId);
+      return { id, queued: false };
+    } catch (error) {
+      if (isPermanentRejection(error)) throw error;
+      console.warn("Registry unreachable, queueing pin:", error);
+      await this.cache.putPending({ id: withId.id, node: withId, createdAt: new Date().toISOString(), attempts: 0 });
+      this.setStatus({ state: "offline", pending: this.status.pending + 1 });
+      return { id: withId.id, queued: true };
+    }
+  }
+
+  /** Uploads queued pins oldest first; stops at the first one that cannot reach the registry. */
+  sync(): Promise<SyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.uploadPending().finally(() => (this.syncing = null));
+    }
+    return this.syncing;
+  }
+
+  private syncInBackground() {
+    if (this.syncing) return;
+    this.sync()
+      .then(result => {
+        if (result.uploaded + result.duplicates + result.rejected.length > 0) this.onSynced?.(result);
+      })
+      .catch(error => console.error("Pin sync failed:", error));
+  }
+
+  private async uploadPending(): Promise<SyncResult> {
+    const result: SyncResult = { uploaded: 0, duplicates: 0, rejected: [] };
+    const pins = await this.cache.listPending();
+    if (pins.length === 0) {
+      this.setStatus({ pending: 0 });
+      return result;
+    }
+
+    this.setStatus({ state: "syncing", pending: pins.length });
+    // Current golden path per building, to spot places someone else pinned meanwhile
+    const known = new Map<string, SpatialNode[]>();
+    for (const [index, pin] of pins.entries()) {
+      const { buildingId } = pin.node;
+      try {
+        if (!known.has(buildingId)) known.set(buildingId, await this.remote.fetchGoldenPath(buildingId));
+        const existing = known.get(buildingId)!;
+        if (existing.some(node => node.id === pin.id)) {
+          // Stored by an earlier attempt whose response never arrived
+          result.uploaded++;
+        } else if (existing.some(node => isSamePlace(node, pin.node))) {
+          result.duplicates++;
+        } else {
+          await this.remote.saveNewPath(pin.node);
+          result.uploaded++;
+        }
+        await this.cache.deletePending(pin.id);
+      } catch (error) {
+        if (isPermanentRejection(error)) {
+          console.warn(`Registry rejected queued pin ${pin.id}:`, error);
+          result.rejected.push(pin);
+          await this.cache.deletePending(pin.id);
+        } else {
+          await this.cache.putPending({ ...pin, attempts: pin.attempts + 1 });
+          this.setStatus({ state: "offline", pending: pins.length - index });
+          return result;
+        }
+      }
+      this.setStatus({ pending: pins.length - index - 1 });
+    }
+
+    this.setStatus({ state: "online", pending: 0, lastSyncedAt: new Date().toISOString() });
+    return result;
+  }
+
+  private async pendingNodes(buildingId: string): Promise<SpatialNode[]> {
+    const pins = await this.cache.listPending();
+    return pins.filter(pin => pin.node.buildingId === buildingId).map(pendingToNode).reverse();
+  }
+
+  private async cachedNodes(buildingId: string): Promise<SpatialNode[]> {
+    return [...(await this.pendingNodes(buildingId)), ...((await this.cache.getNodes(buildingId)) || [])];
+  }
+
+  private setStatus(patch: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
@@ -0,0 +1,134 @@
+import { RegistryHttpError, type SpatialNode } from "./registry";
+
+/**
+ * Compact visual fingerprint of a camera frame, computed on the device so only
+ * a few hundred numbers travel to the server. Three blocks, each centred and
+ * L2-normalized, then weighted so the cosine of two descriptors is a weighted
+ * correlation of the blocks: colour histogram, edge orientations per region,
+ * and a coarse brightness layout. Unrelated scenes score around 0, the same
+ * spot seen again close to 1.
+ */
+export type PlaceDescriptor = number[];
+
+const SAMPLE_WIDTH = 32;
+const SAMPLE_HEIGHT = 24;
+const COLOR_LEVELS = 4;
+const ORIENTATION_BINS = 8;
+const GRID_COLUMNS = 4;
+const GRID_ROWS = 3;
+const LAYOUT_COLUMNS = 8;
+const LAYOUT_ROWS = 6;
+const BLOCK_WEIGHTS = { color: 0.3, edges: 0.4, layout: 0.3 };
+
+export const PLACE_DESCRIPTOR_LENGTH =
+  COLOR_LEVELS ** 3 + GRID_COLUMNS * GRID_ROWS * ORIENTATION_BINS + LAYOUT_COLUMNS * LAYOUT_ROWS;
+
+// Zero mean, unit length, scaled so the blocks' squared weights sum to 1
+function centre(block: number[], weight: number): number[] {
+  const mean = block.reduce((sum, v) => sum + v, 0) / block.length;
+  const centred = block.map(v => v - mean);
+  const norm = Math.hypot(...centred);
+  return norm === 0 ? centred : centred.map(v => v / norm * Math.sqrt(weight));
+}
+
+/** Descriptor of what the source currently shows, or null when it has no frame yet. */
+export function computePlaceDescriptor(
+  source: HTMLCanvasElement | HTMLVideoElement,
+  scratch: HTMLCanvasElement = document.createElement("canvas")
+): PlaceDescriptor | null {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  if (!width || !height) return null;
+  scratch.width = SAMPLE_WIDTH;
+  scratch.height = SAMPLE_HEIGHT;
+  const ctx = scratch.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+  const color = new Array(COLOR_LEVELS ** 3).fill(0);
+  const luma = new Float32Array(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    const [r, g, b] = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+    const level = (v: number) => Math.min(COLOR_LEVELS - 1, Math.floor(v * COLOR_LEVELS / 256));
+    color[(level(r) * COLOR_LEVELS + level(g)) * COLOR_LEVELS + level(b)]++;
+    luma[i] = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  }
+
+  // Unsigned gradient orientations, weighted by magnitude, per grid cell
+  const edges = new Array(GRID_COLUMNS * GRID_ROWS * ORIENTATION_BINS).fill(0);
+  for (let y = 1; y < SAMPLE_HEIGHT - 1; y++) {
+    for (let x = 1; x < SAMPLE_WIDTH - 1; x++) {
+      const gx = luma[y * SAMPLE_WIDTH + x + 1] - luma[y * SAMPLE_WIDTH + x - 1];
+      const gy = luma[(y + 1) * SAMPLE_WIDTH + x] - luma[(y - 1) * SAMPLE_WIDTH + x];
+      const magnitude = Math.hypot(gx, gy);
+      if (magnitude === 0) continue;
+      const angle = (Math.atan2(gy, gx) + Math.PI) % Math.PI;
+      const bin = Math.min(ORIENTATION_BINS - 1, Math.floor(angle / Math.PI * ORIENTATION_BINS));
+      const cell = Math.floor(y * GRID_ROWS / SAMPLE_HEIGHT) * GRID_COLUMNS + Math.floor(x * GRID_COLUMNS / SAMPLE_WIDTH);
+      edges[cell * ORIENTATION_BINS + bin] += magnitude;
+    }
+  }
+
+  const layout = new Array(LAYOUT_COLUMNS * LAYOUT_ROWS).fill(0);
+  for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+    for (let x = 0; x < SAMPLE_WIDTH; x++) {
+      layout[Math.floor(y * LAYOUT_ROWS / SAMPLE_HEIGHT) * LAYOUT_COLUMNS + Math.floor(x * LAYOUT_COLUMNS / SAMPLE_WIDTH)] += luma[y * SAMPLE_WIDTH + x];
+    }
+  }
+
+  return [
+    ...centre(color, BLOCK_WEIGHTS.color),
+    ...centre(edges, BLOCK_WEIGHTS.edges),
+    ...centre(layout, BLOCK_WEIGHTS.layout)
+  ].map(v => Math.round(v * 10000) / 10000);
+}
+
+/** What the device sees now. Sign text and the description come from a recent scene analysis, when there is one. */
+export interface LocalizeQuery {
+  descriptor: PlaceDescriptor;
+  signText: string[];
+  description: string | null;
+}
+
+export interface LocationEstimate {
+  node: SpatialNode;
+  /** 0..1 overall confidence that the device is at this node. */
+  score: number;
+  /** Similarity of the frame to the pin's snapshot, 0..1. */
+  visual: number;
+  /** Share of the signs in view that the snapshot also read; null when either side read none. */
+  signs: number | null;
+}
+
+export interface LocalizeResponse {
+  /** "match": best estimate clears matchThreshold; "suggest": a likely guess; "none": no pin looks like this. */
+  confidence: "match" | "suggest" | "none";
+  matchThreshold: number;
+  /** Best first. */
+  results: LocationEstimate[];
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new RegistryHttpError(data.error || `Localization Error ${response.status}`, response.status);
+  }
+  return data as T;
+}
+
+/**
+ * Place Recognition Client
+ * Answers "where am I?" by matching the camera view against the snapshots
+ * stored with pins, via POST /api/buildings/:id/localize.
+ */
+export class PlaceRecognitionService {
+  async localize(buildingId: string, query: LocalizeQuery): Promise<LocalizeResponse> {
+    const response = await fetch(`/api/buildings/${encodeURIComponent(buildingId)}/localize`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(query)
+    });
+    return readJson<LocalizeResponse>(response);
+  }
+}
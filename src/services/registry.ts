@@ -0,0 +1,143 @@
+import { sessionHeaders } from "./session";
+import type { NewNodeSnapshot } from "./snapshots";
+
+export const NODE_KINDS = ["landmark", "hazard", "entrance", "exit", "restroom", "elevator", "stairs", "ramp", "room"] as const;
+export type NodeKind = typeof NODE_KINDS[number];
+
+export const HAZARD_SEVERITIES = ["low", "medium", "high"] as const;
+export type HazardSeverity = typeof HAZARD_SEVERITIES[number];
+
+export const HAZARD_CATEGORIES = ["wet_floor", "construction", "obstacle", "stairs", "drop_off", "door", "other"] as const;
+export type HazardCategory = typeof HAZARD_CATEGORIES[number];
+
+/**
+ * Community pins start "pending" and become "verified" once enough confirmations
+ * outweigh disputes; "rejected" nodes are hidden, "stale" ones need a fresh look.
+ */
+export const NODE_STATUSES = ["pending", "verified", "rejected", "stale"] as const;
+export type NodeStatus = typeof NODE_STATUSES[number];
+
+export interface SpatialNode {
+  id: string;
+  buildingId: string;
+  /** Position on the floor plan of `floor`, in meters. */
+  coordinates: { x: number; y: number };
+  /** Floor level within the building (see Building.floors). */
+  floor: number;
+  description: string;
+  isGoldenPath: boolean;
+  kind: NodeKind;
+  /** Only set for hazards. */
+  severity: HazardSeverity | null;
+  /** Only set for hazards. */
+  category: HazardCategory | null;
+  /** ISO 8601 timestamp assigned by the server. */
+  createdAt: string;
+  /** ISO 8601 timestamp after which the node is dropped from search and golden path results. */
+  expiresAt: string | null;
+  status: NodeStatus;
+  /** Device account that pinned the node; null for seeded or anonymous nodes. */
+  createdBy: string | null;
+}
+
+/**
+ * Fields a client supplies when pinning; the server assigns createdAt, a default expiry for hazards,
+ * the moderation status and author, and the id unless the client chose one (pins queued offline do,
+ * so retries are not duplicated). A snapshot of the scene is stored alongside the node.
+ */
+export type NewSpatialNode = Omit<SpatialNode, "id" | "createdAt" | "expiresAt" | "status" | "createdBy"> & {
+  id?: string;
+  expiresAt?: string | null;
+  snapshot?: NewNodeSnapshot;
+};
+
+export interface ScoredNode {
+  node: SpatialNode;
+  /** 0..1, higher is a better match for the target phrase. */
+  score: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  /** The place the user asked about, with question words stripped ("where is the washroom" -> "washroom"). */
+  target: string;
+  /** "match": best result clears matchThreshold; "suggest": worth a "did you mean"; "none": nothing close. */
+  confidence: "match" | "suggest" | "none";
+  matchThreshold: number;
+  results: ScoredNode[];
+}
+
+/**
+ * Client view of the spatial memory (saved places, hazards, golden path).
+ * Golden path results include active hazards; expired ones are filtered out server-side.
+ * The backend (SQLite or Snowflake) is chosen by the server via SPATIAL_REGISTRY_BACKEND.
+ */
+export interface SpatialRegistry {
+  searchRegistry(query: string, buildingId: string): Promise<SpatialNode[]>;
+  fetchGoldenPath(buildingId: string): Promise<SpatialNode[]>;
+  saveNewPath(node: NewSpatialNode): Promise<string>;
+}
+
+/** The registry answered with an error status, as opposed to not answering at all. */
+export class RegistryHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+/** Results that clear the match threshold, or none when the search only has suggestions. */
+export function confidentMatches(response: SearchResponse): SpatialNode[] {
+  return response.confidence === "match"
+    ? response.results.filter(r => r.score >= response.matchThreshold).map(r => r.node)
+    : [];
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new RegistryHttpError(data.error || `Registry Error ${response.status}`, response.status);
+  }
+  return data as T;
+}
+
+/**
+ * Spatial Registry Client
+ * Thin wrapper over the /api/buildings/:id/nodes REST routes in server.ts.
+ */
+export class RegistryService implements SpatialRegistry {
+  private nodesUrl(buildingId: string): string {
+    return `/api/buildings/${encodeURIComponent(buildingId)}/nodes`;
+  }
+
+  async searchRegistry(query: string, buildingId: string): Promise<SpatialNode[]> {
+    try {
+      return confidentMatches(await this.search(query, buildingId));
+    } catch (error) {
+      console.error("Registry Search Error:", error);
+      return [];
+    }
+  }
+
+  /** Ranked search with scores, for callers that want to offer "did you mean…" on weak matches. */
+  async search(query: string, buildingId: string): Promise<SearchResponse> {
+    const params = new URLSearchParams({ q: query });
+    return readJson<SearchResponse>(await fetch(`${this.nodesUrl(buildingId)}/search?${params}`));
+  }
+
+  async fetchGoldenPath(buildingId: string): Promise<SpatialNode[]> {
+    // With the device token, the server adds this account's pins still waiting for review
+    return readJson<SpatialNode[]>(await fetch(`${this.nodesUrl(buildingId)}?goldenPath=true`, { headers: sessionHeaders() }));
+  }
+
+  async saveNewPath(node: NewSpatialNode): Promise<string> {
+    const { buildingId, ...body } = node;
+    const response = await fetch(this.nodesUrl(buildingId), {
+      method: "POST",
+      // Carries the device token, so the pin is credited to this account
+      headers: sessionHeaders(),
+      body: JSON.stringify(body)
+    });
+    const saved = await readJson<SpatialNode>(response);
+    return saved.id;
+  }
+}
@@ -0,0 +1,95 @@
+import type { NewSpatialNode, SpatialNode } from "./registry";
+
+const DB_NAME = "visionbuddy-registry";
+const NODES_STORE = "nodes";
+const PENDING_STORE = "pendingPins";
+
+interface CachedBuildingNodes {
+  buildingId: string;
+  nodes: SpatialNode[];
+  /** ISO 8601 time the nodes were fetched from the server. */
+  savedAt: string;
+}
+
+/** A pin made while the registry was unreachable, waiting to be uploaded. */
+export interface PendingPin {
+  /** Also sent as the node id, so a retried upload is recognised by the server. */
+  id: string;
+  node: NewSpatialNode;
+  /** ISO 8601 time the user pinned it. */
+  createdAt: string;
+  attempts: number;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Each building's last known golden path plus the queue of pins not yet uploaded,
+ * kept in IndexedDB so saved places survive a reload without a connection.
+ * Reads degrade to empty results; queue writes throw, since losing a pin should be noticed.
+ */
+export class IndexedDbRegistryCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(NODES_STORE, { keyPath: "buildingId" });
+          req.result.createObjectStore(PENDING_STORE, { keyPath: "id" });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      this.db.catch(() => (this.db = null));
+    }
+    return this.db;
+  }
+
+  async getNodes(buildingId: string): Promise<SpatialNode[] | null> {
+    try {
+      const store = (await this.open()).transaction(NODES_STORE, "readonly").objectStore(NODES_STORE);
+      const entry: CachedBuildingNodes | undefined = await request(store.get(buildingId));
+      return entry ? entry.nodes : null;
+    } catch (error) {
+      console.warn("Registry cache read failed:", error);
+      return null;
+    }
+  }
+
+  async putNodes(buildingId: string, nodes: SpatialNode[]): Promise<void> {
+    try {
+      const store = (await this.open()).transaction(NODES_STORE, "readwrite").objectStore(NODES_STORE);
+      await request(store.put({ buildingId, nodes, savedAt: new Date().toISOString() } as CachedBuildingNodes));
+    } catch (error) {
+      console.warn("Registry cache write failed:", error);
+    }
+  }
+
+  async listPending(): Promise<PendingPin[]> {
+    try {
+      const store = (await this.open()).transaction(PENDING_STORE, "readonly").objectStore(PENDING_STORE);
+      const pins: PendingPin[] = await request(store.getAll());
+      return pins.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      console.warn("Pending pin read failed:", error);
+      return [];
+    }
+  }
+
+  async putPending(pin: PendingPin): Promise<void> {
+    const store = (await this.open()).transaction(PENDING_STORE, "readwrite").objectStore(PENDING_STORE);
+    await request(store.put(pin));
+  }
+
+  async deletePending(id: string): Promise<void> {
+    const store = (await this.open()).transaction(PENDING_STORE, "readwrite").objectStore(PENDING_STORE);
+    await request(store.delete(id));
+  }
+}
@@ -0,0 +1,176 @@
+import { HAZARD_CATEGORIES, HAZARD_SEVERITIES, type HazardCategory, type HazardSeverity } from "./registry";
+import { classifyHazard } from "./hazards";
+
+export interface SceneObject {
+  label: string;
+  /** Coarse class, e.g. "door", "chair", "person". */
+  type: string;
+  /** Clock-face bearing, 12 = straight ahead. */
+  bearing: number;
+  distanceMeters: number | null;
+}
+
+export interface SceneSign {
+  /** Text as read from the sign. */
+  text: string;
+  /** Text in the user's language when it differs from what is written. */
+  translation: string | null;
+  bearing: number;
+  distanceMeters: number | null;
+}
+
+/** Which way the user should go next, as a cue that needs no words. */
+export const GUIDANCE_DIRECTIONS = ["straight", "left", "right", "arrived"] as const;
+export type GuidanceDirection = typeof GUIDANCE_DIRECTIONS[number];
+
+export interface SceneHazard {
+  description: string;
+  severity: HazardSeverity;
+  category: HazardCategory;
+  bearing: number | null;
+  distanceMeters: number | null;
+}
+
+export interface SceneAnalysis {
+  description: string;
+  /** Most important hazard as one sentence; kept for callers that only speak a single warning. */
+  hazard: string | null;
+  navigation: string | null;
+  /** The gist of `navigation`; null when there is no target or no guidance. */
+  direction: GuidanceDirection | null;
+  objects: SceneObject[];
+  signs: SceneSign[];
+  hazards: SceneHazard[];
+}
+
+type ParseResult = { value: SceneAnalysis } | { error: string };
+
+const SEVERITY_RANK: Record<HazardSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function parseBearing(value: unknown): number | null {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) return null;
+  const hour = Math.round(n) % 12;
+  return hour <= 0 ? hour + 12 : hour;
+}
+
+function parseDistance(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+function parseObject(raw: any): SceneObject | null {
+  const label = optionalString(raw?.label);
+  const bearing = parseBearing(raw?.bearing);
+  if (!label || bearing === null) return null;
+  return { label, type: optionalString(raw.type) || "object", bearing, distanceMeters: parseDistance(raw.distanceMeters) };
+}
+
+function parseSign(raw: any): SceneSign | null {
+  const text = optionalString(raw?.text);
+  const bearing = parseBearing(raw?.bearing);
+  if (!text || bearing === null) return null;
+  return { text, translation: optionalString(raw.translation), bearing, distanceMeters: parseDistance(raw.distanceMeters) };
+}
+
+export function parseHazard(raw: any): SceneHazard | null {
+  const description = optionalString(raw?.description);
+  if (!description) return null;
+  const guessed = classifyHazard(description);
+  return {
+    description,
+    severity: HAZARD_SEVERITIES.includes(raw.severity) ? raw.severity : guessed.severity,
+    category: HAZARD_CATEGORIES.includes(raw.category) ? raw.category : guessed.category,
+    bearing: parseBearing(raw.bearing),
+    distanceMeters: parseDistance(raw.distanceMeters)
+  };
+}
+
+function parseList<T>(raw: unknown, parse: (item: any) => T | null): T[] {
+  return Array.isArray(raw) ? raw.map(parse).filter((item): item is T => item !== null) : [];
+}
+
+/** Most urgent first: severity, then distance, then how close to straight ahead. */
+export function prioritizeHazards(hazards: SceneHazard[]): SceneHazard[] {
+  const offCenter = (bearing: number | null) => bearing === null ? 0 : Math.min(Math.abs(bearing - 12), Math.abs(bearing));
+  return [...hazards].sort((a, b) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+    (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity) ||
+    offCenter(a.bearing) - offCenter(b.bearing)
+  );
+}
+
+/**
+ * Validates a vision model reply. The top-level shape must be right; malformed
+ * entries inside the arrays are dropped rather than failing the whole scene.
+ */
+export function parseSceneAnalysis(text: string): ParseResult {
+  let raw: any;
+  try {
+    raw = JSON.parse(text.replace(/```json\n?|```/g, "").trim());
+  } catch {
+    return { error: "Scene analysis is not valid JSON" };
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { error: "Scene analysis must be a JSON object" };
+
+  const description = optionalString(raw.description);
+  if (!description) return { error: "Scene analysis is missing a description" };
+
+  let hazards = prioritizeHazards(parseList(raw.hazards, parseHazard));
+  let hazard = optionalString(raw.hazard);
+  if (hazard && hazards.length === 0) {
+    hazards = [{ description: hazard, ...classifyHazard(hazard), bearing: null, distanceMeters: null }];
+  }
+  if (!hazard && hazards.length > 0) hazard = hazards[0].description;
+
+  return {
+    value: {
+      description,
+      hazard,
+      navigation: optionalString(raw.navigation),
+      direction: GUIDANCE_DIRECTIONS.includes(raw.direction) ? raw.direction : null,
+      objects: parseList(raw.objects, parseObject),
+      signs: parseList(raw.signs, parseSign),
+      hazards
+    }
+  };
+}
+
+export function isAtLeastSeverity(severity: HazardSeverity, minSeverity: HazardSeverity): boolean {
+  return SEVERITY_RANK[severity] <= SEVERITY_RANK[minSeverity];
+}
+
+/** Hazards worth interrupting the user for, most urgent first. */
+export function selectWarnings(analysis: SceneAnalysis, minSeverity: HazardSeverity = "low", max: number = 2): SceneHazard[] {
+  return analysis.hazards
+    .filter(h => isAtLeastSeverity(h.severity, minSeverity))
+    .slice(0, max);
+}
+
+/** Body of POST /api/vision/describe. `image` is a base64 JPEG without the data: prefix. */
+export interface DescribeSceneRequest {
+  image: string;
+  question?: string;
+  navigationTarget?: string;
+  targetLanguage: string;
+  routeSteps?: string[];
+  /** How far along the route the user has walked, from dead reckoning. */
+  routeProgress?: string;
+}
+
+/** Something worth saying before the full analysis has arrived. */
+export type NarrationEvent =
+  | { type: "hazard"; hazard: SceneHazard }
+  | { type: "sentence"; field: "description" | "navigation"; text: string };
+
+/**
+ * One line of the newline-delimited JSON stream returned by /api/vision/describe:
+ * narration events as the model writes them, then one "result" (or "error").
+ */
+export type VisionStreamEvent =
+  | NarrationEvent
+  | { type: "result"; analysis: SceneAnalysis }
+  | { type: "error"; error: string };
@@ -0,0 +1,156 @@
+import { classifyHazard } from "./hazards";
+import { parseHazard, type NarrationEvent, type SceneHazard } from "./sceneAnalysis";
+
+const NARRATED_FIELDS = ["description", "navigation"] as const;
+type NarratedField = typeof NARRATED_FIELDS[number];
+
+// Sentence end: Latin punctuation followed by whitespace, or CJK/Devanagari full stops
+const LATIN_STOPS = ".!?";
+const FULL_STOPS = "。！？।";
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+
+/**
+ * Incremental reader for a SceneAnalysis JSON reply. Fed raw model text as it
+ * streams, it emits each `hazards` entry as soon as its object closes and the
+ * `description`/`navigation` strings sentence by sentence, so speech can start
+ * long before the reply is complete. Only the top-level object is tracked; a
+ * `description` inside a hazard entry is not narrated. Strings are decoded and
+ * split into sentences one character at a time, never re-read, so a long reply
+ * costs time in proportion to its length.
+ */
+export class SceneStreamParser {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private expectingKey = false;
+  private stringIsKey = false;
+  private key: string | null = null;
+  /** The current string, decoded so far; a pending escape is not included yet. */
+  private value = "";
+  /** Hex digits of a \u escape being read. */
+  private unicode: string | null = null;
+  /** Narrated text not spoken yet, and the character before it arrived. */
+  private sentence = "";
+  private previous = "";
+  private item: string | null = null;
+  private hazardsSeen = 0;
+  private spokenHazards = new Set<string>();
+
+  constructor(private emit: (event: NarrationEvent) => void) {}
+
+  push(text: string) {
+    for (const ch of text) this.read(ch);
+  }
+
+  private read(ch: string) {
+    if (this.item !== null) this.item += ch;
+
+    if (this.inString) {
+      let decoded = "";
+      if (this.unicode !== null) {
+        this.unicode += ch;
+        if (this.unicode.length === 4) {
+          decoded = String.fromCharCode(parseInt(this.unicode, 16));
+          this.unicode = null;
+        }
+      } else if (this.escaped) {
+        this.escaped = false;
+        if (ch === "u") this.unicode = "";
+        else decoded = ESCAPES[ch] ?? ch;
+      } else if (ch === "\\") {
+        this.escaped = true;
+      } else if (ch === '"') {
+        this.inString = false;
+        this.endString();
+        return;
+      } else {
+        decoded = ch;
+      }
+      if (!decoded) return;
+      this.value += decoded;
+      if (!this.stringIsKey && this.depth === 1) this.narrate(decoded);
+      return;
+    }
+
+    switch (ch) {
+      case '"':
+        this.inString = true;
+        this.stringIsKey = this.depth === 1 && this.expectingKey;
+        this.value = "";
+        this.sentence = "";
+        this.previous = "";
+        break;
+      case "{":
+        if (this.depth === 2 && this.key === "hazards") this.item = "{";
+        this.depth++;
+        if (this.depth === 1) this.expectingKey = true;
+        break;
+      case "[":
+        this.depth++;
+        break;
+      case "}":
+      case "]":
+        this.depth--;
+        if (ch === "}" && this.depth === 2 && this.item !== null) this.endHazardItem();
+        break;
+      case ":":
+        if (this.depth === 1) this.expectingKey = false;
+        break;
+      case ",":
+        if (this.depth === 1) this.expectingKey = true;
+        break;
+    }
+  }
+
+  private endString() {
+    if (this.stringIsKey) {
+      this.key = this.value;
+      return;
+    }
+    if (this.depth !== 1) return;
+    if (this.key === "hazard" && this.hazardsSeen === 0) {
+      // Only used when the model wrote no structured hazards
+      const description = this.value.trim();
+      if (description) this.emitHazard({ description, ...classifyHazard(description), bearing: null, distanceMeters: null });
+    }
+    this.speakSentence();
+  }
+
+  private endHazardItem() {
+    const text = this.item;
+    this.item = null;
+    try {
+      const hazard = parseHazard(JSON.parse(text || ""));
+      if (hazard) this.emitHazard(hazard);
+    } catch {
+      // Malformed entry; the final parse will drop it too
+    }
+  }
+
+  private emitHazard(hazard: SceneHazard) {
+    this.hazardsSeen++;
+    // Models often repeat the top-level warning as the first list entry
+    const key = hazard.description.toLowerCase();
+    if (this.spokenHazards.has(key)) return;
+    this.spokenHazards.add(key);
+    this.emit({ type: "hazard", hazard });
+  }
+
+  private narrate(ch: string) {
+    if (!NARRATED_FIELDS.includes(this.key as NarratedField)) return;
+    // A Latin full stop only ends the sentence once a space follows it
+    if (this.previous && LATIN_STOPS.includes(this.previous) && /\s/.test(ch)) this.speakSentence();
+    this.previous = ch;
+    this.sentence += ch;
+    if (FULL_STOPS.includes(ch)) this.speakSentence();
+  }
+
+  private speakSentence() {
+    const text = this.sentence.trim();
+    this.sentence = "";
+    if (text && NARRATED_FIELDS.includes(this.key as NarratedField)) {
+      this.emit({ type: "sentence", field: this.key as NarratedField, text });
+    }
+  }
+}
@@ -0,0 +1,43 @@
+const SESSION_KEY = "visionbuddy_session_id";
+
+/** Random per-tab id the server uses to apply rate limits to this session. */
+export function getSessionId(): string {
+  let id = sessionStorage.getItem(SESSION_KEY);
+  if (!id) {
+    id = crypto.randomUUID().replace(/-/g, "");
+    sessionStorage.setItem(SESSION_KEY, id);
+  }
+  return id;
+}
+
+const DEVICE_TOKEN_KEY = "visionbuddy_device_token";
+
+/** Signed account token issued by POST /api/me; kept across reloads so points stay with this device. */
+export function getDeviceToken(): string | null {
+  return localStorage.getItem(DEVICE_TOKEN_KEY);
+}
+
+export function setDeviceToken(token: string | null) {
+  if (token) localStorage.setItem(DEVICE_TOKEN_KEY, token);
+  else localStorage.removeItem(DEVICE_TOKEN_KEY);
+}
+
+/** Session id for rate limits, plus the device token when there is one so the server can credit points. */
+export function sessionHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json", "X-Session-Id": getSessionId() };
+  const token = getDeviceToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+  return headers;
+}
+
+export interface ServiceStatus {
+  vision: boolean;
+  tts: boolean;
+}
+
+/** Which vendor integrations the server has keys for. */
+export async function fetchServiceStatus(): Promise<ServiceStatus> {
+  const response = await fetch("/api/status");
+  if (!response.ok) throw new Error(`Status Error ${response.status}`);
+  return response.json();
+}
@@ -0,0 +1,68 @@
+import type { SceneAnalysis } from "./sceneAnalysis";
+import type { Locale } from "./i18n";
+import type { PlaceDescriptor } from "./placeRecognition";
+
+/** What the pinning device saw, stored next to the node. The thumbnail is served separately as JPEG. */
+export interface NodeSnapshot {
+  buildingId: string;
+  nodeId: string;
+  /** Locale the analysis was written in. */
+  language: Locale;
+  analysis: SceneAnalysis;
+  /** Sign text as read, untranslated, for search and for reviewers. */
+  signText: string[];
+  /** What place recognition matches against; null for snapshots saved without one. */
+  descriptor: PlaceDescriptor | null;
+  /** ISO 8601 timestamp assigned by the server. */
+  capturedAt: string;
+}
+
+/** Sent with a new pin; the server derives signText and capturedAt. */
+export interface NewNodeSnapshot {
+  /** Base64 JPEG without a data: prefix, at most MAX_SNAPSHOT_BASE64_LENGTH characters. */
+  image: string;
+  analysis: SceneAnalysis;
+  language: Locale;
+  descriptor?: PlaceDescriptor;
+}
+
+/** Small enough that a pin with its snapshot fits in one JSON request. */
+export const MAX_SNAPSHOT_BASE64_LENGTH = 96 * 1024;
+
+const THUMBNAIL_WIDTH = 320;
+
+/**
+ * Downscales a captured frame to a JPEG thumbnail, lowering quality until it fits
+ * MAX_SNAPSHOT_BASE64_LENGTH. Returns null when the frame is empty or cannot be shrunk enough.
+ */
+export function createThumbnail(source: HTMLCanvasElement, scratch: HTMLCanvasElement = document.createElement("canvas")): string | null {
+  if (!source.width || !source.height) return null;
+  scratch.width = Math.min(THUMBNAIL_WIDTH, source.width);
+  scratch.height = Math.max(1, Math.round(scratch.width * source.height / source.width));
+  const ctx = scratch.getContext("2d");
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, scratch.width, scratch.height);
+
+  for (const quality of [0.7, 0.5, 0.3]) {
+    const image = scratch.toDataURL("image/jpeg", quality).split(",")[1];
+    if (image && image.length <= MAX_SNAPSHOT_BASE64_LENGTH) return image;
+  }
+  return null;
+}
+
+function snapshotUrl(buildingId: string, nodeId: string): string {
+  return `/api/buildings/${encodeURIComponent(buildingId)}/nodes/${encodeURIComponent(nodeId)}/snapshot`;
+}
+
+/** URL of the node's JPEG thumbnail; it answers 404 when the pin was saved without one. */
+export function snapshotImageUrl(buildingId: string, nodeId: string): string {
+  return `${snapshotUrl(buildingId, nodeId)}.jpg`;
+}
+
+/** The snapshot stored with a pin, or null when it has none. */
+export async function fetchSnapshot(buildingId: string, nodeId: string): Promise<NodeSnapshot | null> {
+  const response = await fetch(snapshotUrl(buildingId, nodeId));
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Snapshot Error ${response.status}`);
+  return response.json();
+}
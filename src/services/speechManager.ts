@@ -0,0 +1,178 @@
+/** Higher priorities interrupt lower ones; equal priorities queue in order. */
+export const SPEECH_PRIORITIES = ["info", "navigation", "hazard"] as const;
+export type SpeechPriority = typeof SPEECH_PRIORITIES[number];
+
+export interface VoiceSettings {
+  /** Native voice name; engines that cannot choose a voice ignore it. */
+  voiceName: string | null;
+  rate: number;
+  pitch: number;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { voiceName: null, rate: 0.9, pitch: 1.0 };
+
+export interface SpeakRequest {
+  text: string;
+  /** BCP-47 tag, e.g. "es-ES". */
+  lang: string;
+  settings: VoiceSettings;
+  signal: AbortSignal;
+  /** See SpeakOptions.cache. */
+  cache: boolean;
+}
+
+/** One way of turning text into sound. `speak` resolves when playback ends and rejects if this engine cannot say it. */
+export interface SpeechEngine {
+  readonly name: string;
+  /** Engines that need the network are skipped for `offline` requests. */
+  readonly remote: boolean;
+  isAvailable(): boolean;
+  speak(request: SpeakRequest): Promise<void>;
+  /** Optional: synthesize ahead of time so these phrases play instantly later. */
+  prewarm?(texts: string[], lang: string): Promise<void>;
+}
+
+export interface SpeakOptions {
+  priority?: SpeechPriority;
+  lang?: string;
+  /** Only use engines that work without a network round trip (for instant cues). */
+  offline?: boolean;
+  /** A fixed system phrase whose audio engines may keep; one-off text such as scene narration is never stored. */
+  cache?: boolean;
+}
+
+export interface SpeechState {
+  isSpeaking: boolean;
+  /** Engine that produced the last utterance, for status display. */
+  engine: string | null;
+}
+
+interface QueueItem {
+  text: string;
+  rank: number;
+  lang: string;
+  offline: boolean;
+  cache: boolean;
+  resolve: () => void;
+}
+
+const SETTINGS_STORAGE_KEY = "visionbuddy_voice_settings";
+
+function isAbort(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Single owner of audio output. Utterances go through a priority queue so they
+ * never overlap, a higher-priority message (a hazard) cuts off whatever is
+ * playing, and each utterance falls through the engine chain until one works.
+ */
+export class SpeechManager {
+  private queue: QueueItem[] = [];
+  private current: { item: QueueItem; controller: AbortController } | null = null;
+  private listeners = new Set<(state: SpeechState) => void>();
+  private state: SpeechState = { isSpeaking: false, engine: null };
+  private settings: Record<string, VoiceSettings>;
+
+  constructor(private engines: SpeechEngine[], private defaultLang: string = "en-US") {
+    try {
+      this.settings = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || "{}");
+    } catch {
+      this.settings = {};
+    }
+  }
+
+  /** Resolves once the text has been spoken, or dropped because something more urgent replaced it. */
+  speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    if (!text.trim()) return Promise.resolve();
+    const rank = SPEECH_PRIORITIES.indexOf(options.priority || "info");
+
+    return new Promise(resolve => {
+      const item: QueueItem = { text, rank, lang: options.lang || this.defaultLang, offline: !!options.offline, cache: !!options.cache, resolve };
+      // Stable insert: ahead of anything less urgent, behind equals
+      const index = this.queue.findIndex(queued => queued.rank < rank);
+      if (index === -1) this.queue.push(item);
+      else this.queue.splice(index, 0, item);
+
+      if (this.current && this.current.item.rank < rank) {
+        this.current.controller.abort();
+      } else if (!this.current) {
+        this.next();
+      }
+    });
+  }
+
+  /** Silences current speech and drops everything queued. */
+  stop() {
+    const dropped = this.queue;
+    this.queue = [];
+    dropped.forEach(item => item.resolve());
+    this.current?.controller.abort();
+  }
+
+  /** Warms engine caches in the background; failures only mean the phrase is fetched on first use. */
+  async prewarm(texts: string[], lang: string): Promise<void> {
+    for (const engine of this.engines) {
+      if (!engine.prewarm || !engine.isAvailable()) continue;
+      try {
+        await engine.prewarm(texts, lang);
+      } catch (error) {
+        console.warn(`Speech engine ${engine.name} could not prewarm:`, error);
+      }
+    }
+  }
+
+  getVoiceSettings(lang: string): VoiceSettings {
+    return { ...DEFAULT_VOICE_SETTINGS, ...this.settings[lang] };
+  }
+
+  setVoiceSettings(lang: string, patch: Partial<VoiceSettings>) {
+    this.settings[lang] = { ...this.getVoiceSettings(lang), ...patch };
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn("Could not persist voice settings:", error);
+    }
+  }
+
+  subscribe(listener: (state: SpeechState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => this.listeners.delete(listener);
+  }
+
+  private setState(patch: Partial<SpeechState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  private async next() {
+    const item = this.queue.shift();
+    if (!item) {
+      this.current = null;
+      this.setState({ isSpeaking: false });
+      return;
+    }
+
+    const controller = new AbortController();
+    this.current = { item, controller };
+    this.setState({ isSpeaking: true });
+
+    const request: SpeakRequest = { text: item.text, lang: item.lang, settings: this.getVoiceSettings(item.lang), signal: controller.signal, cache: item.cache };
+    for (const engine of this.engines) {
+      if (controller.signal.aborted) break;
+      if ((item.offline && engine.remote) || !engine.isAvailable()) continue;
+      try {
+        await engine.speak(request);
+        this.setState({ engine: engine.name });
+        break;
+      } catch (error) {
+        if (controller.signal.aborted || isAbort(error)) break;
+        console.warn(`Speech engine ${engine.name} failed, trying the next one:`, error);
+      }
+    }
+
+    item.resolve();
+    this.next();
+  }
+}
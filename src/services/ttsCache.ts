@@ -0,0 +1,92 @@
+const DB_NAME = "visionbuddy-tts";
+const STORE = "audio";
+
+interface CachedAudio {
+  key: string;
+  blob: Blob;
+  size: number;
+  lastUsed: number;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function ttsCacheKey(text: string, voice: string, lang: string): string {
+  return `${voice}|${lang}|${text}`;
+}
+
+/**
+ * Synthesized speech kept in IndexedDB so fixed phrases play instantly and do not
+ * hit the TTS API again. Least recently used entries go first once the store
+ * passes `maxBytes`. Every failure degrades to a cache miss.
+ */
+export class IndexedDbTtsCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private maxBytes: number = 20 * 1024 * 1024) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => {
+          const store = req.result.createObjectStore(STORE, { keyPath: "key" });
+          store.createIndex("lastUsed", "lastUsed");
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      this.db.catch(() => (this.db = null));
+    }
+    return this.db;
+  }
+
+  async get(key: string): Promise<Blob | null> {
+    try {
+      const store = (await this.open()).transaction(STORE, "readwrite").objectStore(STORE);
+      const entry: CachedAudio | undefined = await request(store.get(key));
+      if (!entry) return null;
+      store.put({ ...entry, lastUsed: Date.now() });
+      return entry.blob;
+    } catch (error) {
+      console.warn("TTS cache read failed:", error);
+      return null;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      const store = (await this.open()).transaction(STORE, "readonly").objectStore(STORE);
+      return (await request(store.count(key))) > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async put(key: string, blob: Blob): Promise<void> {
+    if (blob.size === 0 || blob.size > this.maxBytes) return;
+    try {
+      const db = await this.open();
+      await request(db.transaction(STORE, "readwrite").objectStore(STORE).put({ key, blob, size: blob.size, lastUsed: Date.now() } as CachedAudio));
+      await this.evict(db);
+    } catch (error) {
+      console.warn("TTS cache write failed:", error);
+    }
+  }
+
+  private async evict(db: IDBDatabase) {
+    const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+    const entries: CachedAudio[] = await request(store.index("lastUsed").getAll());
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    // getAll on the index returns oldest first
+    for (const entry of entries) {
+      if (total <= this.maxBytes) break;
+      store.delete(entry.key);
+      total -= entry.size;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { DescribeSceneRequest, NarrationEvent, SceneAnalysis, VisionStreamEvent } from "./sceneAnalysis";
+import { sessionHeaders } from "./session";
+
+export type { SceneAnalysis } from "./sceneAnalysis";
+
+/** What describeScene resolves to. `isFallback` marks the canned reply to a failed request, which describes no real place. */
+export type VisionResult = SceneAnalysis & { isFallback?: boolean };
+
+const FALLBACK_ANALYSIS: VisionResult = {
+  description: "I'm having trouble seeing the path right now.",
+  hazard: "Visual system error.",
+  navigation: null,
+  direction: null,
+  objects: [],
+  signs: [],
+  hazards: [],
+  isFallback: true
+};
+
+/** Frames are scaled down to this width before upload; it is plenty for signs and hazards. */
+const FRAME_MAX_WIDTH = 1024;
+const FRAME_JPEG_QUALITY = 0.7;
+
+/**
+ * Draws the current video frame into `canvas`, at most FRAME_MAX_WIDTH wide, and returns it
+ * as the base64 JPEG describeScene expects. Every vision request should send a frame from here.
+ */
+export function captureFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement): string {
+  canvas.width = Math.min(FRAME_MAX_WIDTH, video.videoWidth);
+  canvas.height = Math.max(1, Math.round(canvas.width * video.videoHeight / (video.videoWidth || 1)));
+  canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", FRAME_JPEG_QUALITY).split(",")[1];
+}
+
+export interface DescribeSceneOptions {
+  /** Aborting drops the request; the promise rejects instead of resolving to the fallback. */
+  signal?: AbortSignal;
+  /** Receives hazards and sentences while the reply is still streaming. */
+  onNarration?: (event: NarrationEvent) => void;
+}
+
+/**
+ * Vision Client
+ * Wraps POST /api/vision/describe; the server picks the vision provider and holds its keys.
+ */
+export class VisionService {
+  async describeScene(request: DescribeSceneRequest, options: DescribeSceneOptions = {}): Promise<VisionResult> {
+    const { signal, onNarration } = options;
+    try {
+      const response = await fetch("/api/vision/describe", {
+        method: "POST",
+        headers: sessionHeaders(),
+        signal,
+        body: JSON.stringify(request)
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Vision Error ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() || "";
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event: VisionStreamEvent = JSON.parse(line);
+          if (event.type === "result") return event.analysis;
+          if (event.type === "error") throw new Error(event.error);
+          onNarration?.(event);
+        }
+        if (done) break;
+      }
+      throw new Error("Vision stream ended without a result");
+    } catch (err) {
+      // A superseded request is not a vision failure; let the caller drop it
+      if (signal?.aborted) throw err;
+      console.error("Vision Analysis Error:", err);
+      return FALLBACK_ANALYSIS;
+    }
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * off: not listening. waiting: hands-free, listening for the wake phrase.
+ * command: the next thing said is a command. paused: muted while the app speaks.
+ */
+export type ListenerState = "off" | "waiting" | "command" | "paused";
+
+export interface VoiceListenerOptions {
+  /** Called with the spoken command, wake phrase already removed. */
+  onCommand: (transcript: string) => void;
+  /** Text after the wake phrase ("" for the wake phrase alone), or null if the transcript has none. */
+  matchWake: (transcript: string) => string | null;
+  onStateChange?: (state: ListenerState) => void;
+  /** Errors that stop listening for good, such as a denied microphone. */
+  onError?: (error: string) => void;
+  /** How long to wait for a command after the wake phrase or a mic tap. */
+  commandTimeoutMs?: number;
+  restartDelayMs?: number;
+  maxRestartDelayMs?: number;
+}
+
+// Recognition errors after which retrying cannot help
+const FATAL_ERRORS = ["not-allowed", "service-not-allowed", "language-not-supported"];
+// Silence and our own aborts end a session without anything being wrong
+const BENIGN_ERRORS = ["no-speech", "aborted"];
+
+function recognitionConstructor(): any {
+  return (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+}
+
+/**
+ * Owns the browser speech recogniser. In hands-free mode it keeps a continuous
+ * session open and only passes on what follows the wake phrase; a tap on the
+ * mic captures a single command either way. Sessions are restarted whenever
+ * the browser ends them, backing off after repeated errors, and `pause` stops
+ * the recogniser so it does not hear the app's own voice.
+ */
+export class VoiceListener {
+  private recognition: any = null;
+  private handsFree = false;
+  private awaitingCommand = false;
+  private paused = false;
+  private lang = "en-US";
+  private failures = 0;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private commandTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastState: ListenerState = "off";
+  private readonly commandTimeoutMs: number;
+  private readonly restartDelayMs: number;
+  private readonly maxRestartDelayMs: number;
+
+  constructor(private options: VoiceListenerOptions) {
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 8000;
+    this.restartDelayMs = options.restartDelayMs ?? 300;
+    this.maxRestartDelayMs = options.maxRestartDelayMs ?? 10_000;
+  }
+
+  get isSupported(): boolean {
+    return recognitionConstructor() !== null;
+  }
+
+  get state(): ListenerState {
+    if (!this.handsFree && !this.awaitingCommand) return "off";
+    if (this.paused) return "paused";
+    return this.awaitingCommand ? "command" : "waiting";
+  }
+
+  get isHandsFree(): boolean {
+    return this.handsFree;
+  }
+
+  setHandsFree(enabled: boolean) {
+    if (this.handsFree === enabled) return;
+    this.handsFree = enabled;
+    if (!enabled) this.endCommand();
+    // Hands-free sessions are continuous, single commands are not
+    this.restart();
+  }
+
+  /** Capture one command now, as if the wake phrase had been heard. */
+  listenOnce() {
+    this.beginCommand();
+    if (!this.recognition) this.restart();
+  }
+
+  /** Drops a command capture in progress; hands-free listening carries on. */
+  cancelCommand() {
+    this.endCommand();
+    if (!this.handsFree) this.restart();
+  }
+
+  setLanguage(lang: string) {
+    if (this.lang === lang) return;
+    this.lang = lang;
+    if (this.recognition) this.restart();
+  }
+
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.clearRestart();
+    this.abortSession();
+    this.emitState();
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.scheduleStart(this.restartDelayMs);
+    this.emitState();
+  }
+
+  stop() {
+    this.handsFree = false;
+    this.endCommand();
+    this.clearRestart();
+    this.abortSession();
+    this.emitState();
+  }
+
+  private get wantsSession(): boolean {
+    return (this.handsFree || this.awaitingCommand) && !this.paused;
+  }
+
+  private beginCommand() {
+    this.awaitingCommand = true;
+    if (this.commandTimer) clearTimeout(this.commandTimer);
+    this.commandTimer = setTimeout(() => this.cancelCommand(), this.commandTimeoutMs);
+    this.emitState();
+  }
+
+  private endCommand() {
+    if (this.commandTimer) clearTimeout(this.commandTimer);
+    this.commandTimer = null;
+    this.awaitingCommand = false;
+    this.emitState();
+  }
+
+  private restart() {
+    this.clearRestart();
+    this.abortSession();
+    this.scheduleStart(0);
+  }
+
+  private scheduleStart(delay: number) {
+    this.clearRestart();
+    if (!this.wantsSession) return;
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.startSession();
+    }, delay);
+  }
+
+  private clearRestart() {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.restartTimer = null;
+  }
+
+  private abortSession() {
+    const recognition = this.recognition;
+    this.recognition = null;
+    if (!recognition) return;
+    // Detach first so the old session's end event does not schedule a restart
+    recognition.onresult = recognition.onerror = recognition.onend = null;
+    try {
+      recognition.abort();
+    } catch {
+      // Already stopped
+    }
+  }
+
+  private startSession() {
+    const SpeechRecognition = recognitionConstructor();
+    if (!SpeechRecognition || !this.wantsSession) return;
+
+    const recognition = new SpeechRecognition();
+    recognition.continuous = this.handsFree;
+    recognition.interimResults = false;
+    recognition.lang = this.lang;
+
+    recognition.onresult = (event: any) => {
+      this.failures = 0;
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        if (event.results[i].isFinal) this.handleTranscript(event.results[i][0].transcript);
+      }
+    };
+
+    recognition.onerror = (event: any) => {
+      if (FATAL_ERRORS.includes(event.error)) {
+        this.stop();
+        this.options.onError?.(event.error);
+        return;
+      }
+      if (!BENIGN_ERRORS.includes(event.error)) {
+        this.failures++;
+        console.error("Speech recognition error", event.error);
+      }
+    };
+
+    recognition.onend = () => {
+      if (this.recognition !== recognition) return;
+      this.recognition = null;
+      // A single command session ends after one utterance or silence
+      if (!this.handsFree) this.endCommand();
+      this.scheduleStart(this.backoffDelay());
+    };
+
+    this.recognition = recognition;
+    try {
+      recognition.start();
+    } catch (err) {
+      this.recognition = null;
+      this.failures++;
+      console.error("Speech recognition failed to start", err);
+      this.scheduleStart(this.backoffDelay());
+    }
+  }
+
+  private backoffDelay(): number {
+    return Math.min(this.maxRestartDelayMs, this.restartDelayMs * 2 ** this.failures);
+  }
+
+  private handleTranscript(transcript: string) {
+    const text = transcript.trim();
+    if (!text) return;
+
+    const command = this.options.matchWake(text);
+    if (command === "") {
+      // Wake phrase on its own (again): wait for what follows
+      this.beginCommand();
+      return;
+    }
+    if (this.awaitingCommand || command !== null) {
+      this.endCommand();
+      this.options.onCommand(command ?? text);
+    }
+  }
+
+  private emitState() {
+    const state = this.state;
+    if (state === this.lastState) return;
+    this.lastState = state;
+    this.options.onStateChange?.(state);
+  }
+}
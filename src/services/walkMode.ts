@@ -0,0 +1,142 @@
+/** Grayscale thumbnail of a frame, values 0..1. Cheap to compare between samples. */
+export type FrameSignature = Float32Array;
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+
+export function computeFrameSignature(source: CanvasImageSource, scratch: HTMLCanvasElement): FrameSignature | null {
+  scratch.width = SIGNATURE_WIDTH;
+  scratch.height = SIGNATURE_HEIGHT;
+  const ctx = scratch.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const signature = new Float32Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    signature[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return signature;
+}
+
+/** Mean absolute brightness difference, 0 (identical) to 1. */
+export function frameDifference(a: FrameSignature, b: FrameSignature): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+}
+
+/**
+ * Remembers which hazards were announced recently so the same wet floor is not
+ * read out on every frame while the user walks past it.
+ */
+export class HazardDeduper {
+  private spoken = new Map<string, number>();
+
+  constructor(private windowMs: number = 60_000) {}
+
+  private key(hazard: string): string {
+    return hazard
+      .toLowerCase()
+      .replace(/\b\d+\s*(?:o'?clock|meters?|metres?|steps?|feet|ft|m)\b/g, "")
+      .replace(/[^\p{L}\s]/gu, "")
+      .split(/\s+/)
+      .filter(w => w.length > 3)
+      .sort()
+      .join(" ");
+  }
+
+  /** True if the hazard is new (and records it); false if it was announced within the window. */
+  shouldAnnounce(hazard: string, now: number = Date.now()): boolean {
+    for (const [key, at] of this.spoken) {
+      if (now - at > this.windowMs) this.spoken.delete(key);
+    }
+    const key = this.key(hazard);
+    if (this.spoken.has(key)) return false;
+    this.spoken.set(key, now);
+    return true;
+  }
+
+  reset() {
+    this.spoken.clear();
+  }
+}
+
+export interface WalkModeOptions {
+  /** Signature of the current camera frame, or null if the camera is not ready. */
+  sample: () => FrameSignature | null;
+  /** Sends the current frame for analysis. Must stop work when the signal aborts. */
+  analyze: (signal: AbortSignal) => Promise<void>;
+  /** Scenes that differ less than this from the last analyzed frame are skipped. */
+  changeThreshold?: number;
+  minIntervalMs?: number;
+  maxIntervalMs?: number;
+}
+
+/**
+ * Hands-free scanning loop. Samples frames on an interval that shortens while the
+ * scene keeps changing and backs off while it stays the same; only changed frames
+ * are analyzed, and starting a new analysis aborts the one still in flight.
+ */
+export class WalkModeScanner {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: AbortController | null = null;
+  private lastAnalyzed: FrameSignature | null = null;
+  private intervalMs: number;
+  private readonly changeThreshold: number;
+  private readonly minIntervalMs: number;
+  private readonly maxIntervalMs: number;
+
+  constructor(private options: WalkModeOptions) {
+    this.changeThreshold = options.changeThreshold ?? 0.06;
+    this.minIntervalMs = options.minIntervalMs ?? 1500;
+    this.maxIntervalMs = options.maxIntervalMs ?? 6000;
+    this.intervalMs = this.minIntervalMs;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  start() {
+    if (this.isRunning) return;
+    this.lastAnalyzed = null;
+    this.intervalMs = this.minIntervalMs;
+    this.schedule(0);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.inFlight?.abort();
+    this.inFlight = null;
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private tick() {
+    const signature = this.options.sample();
+    const changed = signature !== null &&
+      (this.lastAnalyzed === null || frameDifference(signature, this.lastAnalyzed) >= this.changeThreshold);
+
+    if (changed) {
+      this.lastAnalyzed = signature;
+      this.intervalMs = this.minIntervalMs;
+      this.inFlight?.abort();
+      const controller = new AbortController();
+      this.inFlight = controller;
+      this.options.analyze(controller.signal)
+        .catch(err => {
+          if (!controller.signal.aborted) console.error("Walk mode analysis failed:", err);
+        })
+        .finally(() => {
+          if (this.inFlight === controller) this.inFlight = null;
+        });
+    } else {
+      this.intervalMs = Math.min(this.maxIntervalMs, Math.round(this.intervalMs * 1.5));
+    }
+
+    if (this.timer !== null) this.schedule(this.intervalMs);
+  }
+}